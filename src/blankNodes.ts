@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+import Rdf from './rdf';
+
+export namespace BlankNodes {
+    /**
+     * @description Relabels the blank nodes of statements with labels derived from the statements they are part of, so that the
+     * same statements loaded separately get the same blank node labels. Blank nodes that cannot be told apart by their statements,
+     * such as two blank nodes with the same values referenced by the same node, get the same label.
+     * @export
+     * @param {Rdf.Quad[]} quads The statements to relabel.
+     * @returns {{ quads: Rdf.Quad[]; labels: Map<string, string> }} The relabeled statements, and the canonical label of each blank node label.
+     */
+    export function canonicalize(quads: Rdf.Quad[]): { quads: Rdf.Quad[]; labels: Map<string, string> } {
+        const blankStatements = new Map<string, Rdf.Quad[]>();
+        for (const quad of quads) {
+            for (const term of [quad.subject, quad.object].filter(x => x.termType === 'BlankNode')) {
+                blankStatements.set(term.value, [...(blankStatements.get(term.value) || []), quad]);
+            }
+        }
+
+        const blankLabels = new Set<string>(blankStatements.keys());
+
+        // Refine the signatures of blank nodes with the signatures of their neighbours until the partition of blank nodes is stable.
+        let signatures = new Map<string, string>([...blankLabels].map(x => [x, ''] as [string, string]));
+        let classes = 1;
+        for (let i = 0; i <= blankLabels.size; i += 1) {
+            const next = new Map<string, string>();
+            for (const label of blankLabels) {
+                const statements = blankStatements
+                    .get(label)
+                    .map(x => isBlank(x.subject, label)
+                        ? `> ${x.predicate.value} ${termKey(x.object, signatures)}`
+                        : `< ${x.predicate.value} ${termKey(x.subject, signatures)}`)
+                    .sort();
+
+                next.set(label, hash([signatures.get(label), ...statements].join('\n')));
+            }
+
+            const nextClasses = new Set(next.values()).size;
+            signatures = next;
+            if (nextClasses === classes && i > 0) {
+                break;
+            }
+
+            classes = nextClasses;
+        }
+
+        const labels = new Map<string, string>([...signatures].map(([label, signature]) => [label, `c14n${signature.substring(0, 16)}`] as [string, string]));
+        const relabel = (term: Rdf.Term) => term.termType === 'BlankNode' ? Rdf.blankNode(labels.get(term.value)) : term;
+        return {
+            quads: quads.map(x => ({ ...x, subject: relabel(x.subject), object: relabel(x.object) })),
+            labels
+        };
+    }
+
+    function hash(text: string): string {
+        return createHash('sha1').update(text).digest('hex');
+    }
+
+    function isBlank(term: Rdf.Term, label: string): boolean {
+        return term.termType === 'BlankNode' && term.value === label;
+    }
+
+    function termKey(term: Rdf.Term, signatures: Map<string, string>): string {
+        switch (term.termType) {
+            case 'BlankNode':
+                return `_:${signatures.get(term.value)}`;
+            case 'Literal':
+                return JSON.stringify([term.value, term.language || '', term.datatype || '']);
+            default:
+                return `<${term.value}>`;
+        }
+    }
+}
+
+export default BlankNodes;
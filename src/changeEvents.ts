@@ -0,0 +1,62 @@
+import { EventEmitter } from 'events';
+import StrictEventEmitter from 'jsonld-graph/lib/eventEmitter';
+import Class from './class';
+import Instance from './instance';
+import Property from './property';
+import Resource from './resource';
+
+/**
+ * @description Events raised by vocabularies and documents when they are changed.
+ * Events about an instance are raised by the instance, and by the vocabulary or document containing the instance.
+ * @export
+ * @interface ChangeEvents
+ */
+export interface ChangeEvents {
+    /**
+     * @description Event raised when a class is added to an instance.
+     * @memberof ChangeEvents
+     */
+    classAdded(instance: Instance, classType: Class): void;
+    /**
+     * @description Event raised when a class is removed from an instance.
+     * @memberof ChangeEvents
+     */
+    classRemoved(instance: Instance, classType: Class): void;
+    /**
+     * @description Event raised when an instance is created.
+     * @memberof ChangeEvents
+     */
+    instanceCreated(instance: Instance): void;
+    /**
+     * @description Event raised when an instance is removed.
+     * @memberof ChangeEvents
+     */
+    instanceRemoved(instance: Instance): void;
+    /**
+     * @description Event raised when the value of a property of an instance changes.
+     * The previous value of container properties is the array of the previous values and references in the container.
+     * @memberof ChangeEvents
+     */
+    propertyValueChanged(instance: Instance, property: Property, previousValue: any): void;
+    /**
+     * @description Event raised when a class or property is created in a vocabulary.
+     * @memberof ChangeEvents
+     */
+    resourceCreated(resource: Resource): void;
+    /**
+     * @description Event raised when a class or property is removed from a vocabulary.
+     * @memberof ChangeEvents
+     */
+    resourceRemoved(resource: Resource): void;
+    /**
+     * @description Event raised when the id of a class or property of a vocabulary changes.
+     * @memberof ChangeEvents
+     */
+    resourceRenamed(resource: Resource, previousId: string): void;
+}
+
+/**
+ * @description Event emitter of change events.
+ */
+export type ChangeEventEmitter = StrictEventEmitter<EventEmitter, ChangeEvents>;
+export const ChangeEventEmitter = EventEmitter as new () => ChangeEventEmitter;
@@ -0,0 +1,62 @@
+import { EventEmitter } from 'events';
+import Class from './class';
+import Instance from './instance';
+import Property from './property';
+import * as types from './types';
+
+/**
+ * @description The arguments following the instance of the change events raised about instances.
+ */
+interface InstanceEventArgs {
+    classAdded: [Class];
+    classRemoved: [Class];
+    instanceCreated: [];
+    instanceRemoved: [];
+    propertyValueChanged: [Property, any];
+}
+
+export namespace ChangeNotifier {
+    /**
+     * @description Raises a change event about an instance on the instance and on the vocabulary or document containing it.
+     * Events are not raised for instances that are not contained in the vocabulary or document, such as instances being created.
+     * @export
+     * @template E The name of the event.
+     * @param {types.InstanceProvider} instanceProvider The vocabulary or document containing the instance.
+     * @param {string} instanceId The id of the instance.
+     * @param {E} event The name of the event.
+     * @param {...InstanceEventArgs[E]} args The arguments of the event following the instance.
+     */
+    export function notify<E extends keyof InstanceEventArgs>(
+        instanceProvider: types.InstanceProvider,
+        instanceId: string,
+        event: E,
+        ...args: InstanceEventArgs[E]
+    ): void {
+        const instance = instanceProvider.getInstance(instanceId);
+        if (!instance) {
+            return;
+        }
+
+        for (const emitter of [instance, instanceProvider]) {
+            (emitter as unknown as EventEmitter).emit(event, instance, ...args);
+        }
+    }
+
+    /**
+     * @description Raises the instanceRemoved event on an instance that has been removed, and on the vocabulary or document that contained it.
+     * @export
+     * @param {types.InstanceProvider} instanceProvider The vocabulary or document that contained the instance.
+     * @param {Instance} instance The removed instance.
+     */
+    export function notifyRemoved(instanceProvider: types.InstanceProvider, instance: Instance): void {
+        if (!instance) {
+            return;
+        }
+
+        for (const emitter of [instance, instanceProvider]) {
+            (emitter as unknown as EventEmitter).emit('instanceRemoved', instance);
+        }
+    }
+}
+
+export default ChangeNotifier;
@@ -0,0 +1,209 @@
+import Class from './class';
+import ContainerPropertyValues from './containerPropertyValues';
+import Document from './document';
+import * as errors from './errors';
+import * as identity from './identity';
+import Instance from './instance';
+import InstanceProperty from './instanceProperty';
+import NQuads from './nquads';
+import Rdf from './rdf';
+import RdfPatch from './rdfPatch';
+
+const skolemPrefix = 'urn:x-skolem:';
+
+export namespace ChangeSet {
+    /**
+     * @description Gets the statements added and deleted between two versions of the statements of a document.
+     * @export
+     * @param {Rdf.Quad[]} previous The statements of the previous version.
+     * @param {Rdf.Quad[]} current The statements of the current version.
+     * @returns {RdfPatch.Changes}
+     */
+    export function diff(previous: Rdf.Quad[], current: Rdf.Quad[]): RdfPatch.Changes {
+        const previousKeys = new Set<string>(previous.map(key));
+        const currentKeys = new Set<string>(current.map(key));
+        return {
+            added: current.filter(x => !previousKeys.has(key(x))),
+            deleted: previous.filter(x => !currentKeys.has(key(x)))
+        };
+    }
+
+    /**
+     * @description Applies statement changes to the instances of a document.
+     * Added types create the instances that do not exist, and instances are removed when all their types are deleted.
+     * Deleted statements that are not asserted by the document are ignored.
+     * @export
+     * @param {Document} document The document to change.
+     * @param {RdfPatch.Changes} changes The statements to delete and add.
+     */
+    export function apply(document: Document, changes: RdfPatch.Changes): void {
+        const baseIri = document.vocabulary.baseIri;
+        for (const { subject, object } of changes.added.filter(isType)) {
+            const instanceId = toId(subject, baseIri);
+            const classType = getClass(document, object);
+            if (document.hasInstance(instanceId)) {
+                document.getInstance(instanceId).setClass(classType);
+            } else {
+                document.createInstance(classType, instanceId);
+            }
+        }
+
+        for (const { subject, predicate, object } of changes.deleted.filter(x => !isType(x))) {
+            const instance = findInstance(document, toId(subject, baseIri));
+            const instanceProperty = instance ? instance.getProperty(toId(predicate, baseIri)) : undefined;
+            if (!instanceProperty) {
+                continue;
+            }
+
+            const values = instanceProperty.value;
+            if (values instanceof ContainerPropertyValues) {
+                if (object.termType === 'Literal') {
+                    values.removeValue(Rdf.literalValue(object));
+                } else {
+                    values.removeReference(toId(object, baseIri));
+                }
+            } else if (matches(values, object, baseIri)) {
+                instanceProperty.value = null;
+            }
+        }
+
+        for (const { subject, predicate, object } of changes.added.filter(x => !isType(x))) {
+            const instanceProperty = getInstanceProperty(document, toId(subject, baseIri), toId(predicate, baseIri));
+            const values = instanceProperty.value;
+            if (values instanceof ContainerPropertyValues) {
+                if (object.termType === 'Literal') {
+                    values.addValue(Rdf.literalValue(object), object.language);
+                } else {
+                    values.addReference(resolve(document, object));
+                }
+            } else {
+                instanceProperty.value = object.termType === 'Literal' ? Rdf.literalValue(object) : resolve(document, object);
+            }
+        }
+
+        const deletedTypes = new Map<string, string[]>();
+        for (const { subject, object } of changes.deleted.filter(isType)) {
+            const instanceId = toId(subject, baseIri);
+            deletedTypes.set(instanceId, [...(deletedTypes.get(instanceId) || []), getClass(document, object).id]);
+        }
+
+        for (const [instanceId, classIds] of deletedTypes) {
+            const instance = findInstance(document, instanceId);
+            if (!instance) {
+                continue;
+            }
+
+            if (!instance.classes.some(x => classIds.indexOf(x.id) < 0)) {
+                document.removeInstance(instanceId);
+            } else {
+                classIds.forEach(classId => instance.removeClass(classId));
+            }
+        }
+    }
+
+    /**
+     * @description Replaces the blank node identifiers of a JSON-LD document by IRIs, so the blank nodes keep their labels
+     * when the document is loaded. The statements of the loaded document are restored with deskolemize.
+     * @export
+     * @param {*} json The JSON-LD document.
+     * @returns {*} A copy of the document with skolem IRIs instead of blank node identifiers.
+     */
+    export function skolemize(json: any): any {
+        const blankIds = new Set<string>();
+        const collect = (value: any) => {
+            if (Array.isArray(value)) {
+                value.forEach(collect);
+            } else if (value && typeof value === 'object') {
+                for (const key of Object.keys(value)) {
+                    if (key === '@id' && typeof value[key] === 'string' && value[key].startsWith('_:')) {
+                        blankIds.add(value[key]);
+                    }
+
+                    collect(value[key]);
+                }
+            }
+        };
+
+        collect(json);
+        return JSON.parse(JSON.stringify(json), (key, value) =>
+            typeof value === 'string' && blankIds.has(value) ? `${skolemPrefix}${value.substring(2)}` : value
+        );
+    }
+
+    /**
+     * @description Restores the blank nodes of statements read from a document skolemized with skolemize.
+     * @export
+     * @param {Rdf.Quad} quad The statement to restore.
+     * @returns {Rdf.Quad}
+     */
+    export function deskolemize(quad: Rdf.Quad): Rdf.Quad {
+        const restore = (term: Rdf.Term) =>
+            term.termType === 'NamedNode' && term.value.startsWith(skolemPrefix) ? Rdf.blankNode(term.value.substring(skolemPrefix.length)) : term;
+
+        return { ...quad, subject: restore(quad.subject), object: restore(quad.object) };
+    }
+
+    function findInstance(document: Document, instanceId: string): Instance {
+        return document.hasInstance(instanceId) ? document.getInstance(instanceId) : undefined;
+    }
+
+    function getClass(document: Document, term: Rdf.Term): Class {
+        const classType = document.vocabulary.getClass(toId(term, document.vocabulary.baseIri));
+        if (!classType) {
+            throw new errors.ResourceNotFoundError(term.value, 'Class');
+        }
+
+        return classType;
+    }
+
+    function getInstanceProperty(document: Document, instanceId: string, propertyId: string): InstanceProperty {
+        const instance = findInstance(document, instanceId);
+        if (!instance) {
+            throw new errors.InstanceNotFoundError(instanceId);
+        }
+
+        const instanceProperty = instance.getProperty(propertyId);
+        if (!instanceProperty) {
+            throw new errors.InstancePropertyNotFoundError(instanceId, propertyId);
+        }
+
+        return instanceProperty;
+    }
+
+    function isType(quad: Rdf.Quad): boolean {
+        return quad.predicate.value === `${Rdf.rdfNamespace}type`;
+    }
+
+    function key(quad: Rdf.Quad): string {
+        return NQuads.write([quad]);
+    }
+
+    function matches(value: any, term: Rdf.Term, baseIri: string): boolean {
+        if (term.termType === 'Literal') {
+            return value === Rdf.literalValue(term);
+        }
+
+        return (value instanceof Instance || value instanceof Class) && value.id === toId(term, baseIri);
+    }
+
+    function resolve(document: Document, term: Rdf.Term): Instance | Class {
+        const id = toId(term, document.vocabulary.baseIri);
+        const reference = document.vocabulary.hasResource(id)
+            ? document.vocabulary.getClass(id)
+            : document.vocabulary.hasInstance(id)
+                ? document.vocabulary.getInstance(id)
+                : findInstance(document, id);
+
+        if (!reference) {
+            throw new errors.InstanceNotFoundError(id);
+        }
+
+        return reference;
+    }
+
+    function toId(term: Rdf.Term, baseIri: string): string {
+        return term.termType === 'BlankNode' ? `_:${term.value}` : identity.compact(term.value, baseIri);
+    }
+}
+
+export default ChangeSet;
@@ -1,11 +1,32 @@
 import Iterable from 'jsiterable';
-import { JsonldKeywords, Vertex } from 'jsonld-graph';
+import { BlankNodePrefix, JsonldKeywords, Vertex } from 'jsonld-graph';
 import * as errors from './errors';
 import * as identity from './identity';
+import JsonSchema from './jsonSchema';
 import Property from './property';
 import Resource from './resource';
 import Vocabulary, { ClassReference, PropertyReference } from './types';
 
+/**
+ * @description Cardinality constraint of a property on a class.
+ * @export
+ * @interface Cardinality
+ */
+export interface Cardinality {
+    /**
+     * @description The minimum number of values of the property. A minimum of 1 or more makes the property required.
+     * @type {number}
+     * @memberof Cardinality
+     */
+    minCount?: number;
+    /**
+     * @description The maximum number of values of the property.
+     * @type {number}
+     * @memberof Cardinality
+     */
+    maxCount?: number;
+}
+
 /**
  * @description Class resource
  * @export
@@ -66,6 +87,51 @@ export class Class extends Resource {
         })());
     }
 
+    /**
+     * @description Gets all classes declared equivalent to this class with owl:equivalentClass, in either direction.
+     * @readonly
+     * @type {Iterable<Class>}
+     * @memberof Class
+     */
+    get equivalentClasses(): Iterable<Class> {
+        // tslint:disable-next-line:no-this-assignment
+        const that = this;
+        return new Iterable<Class>((function* equivalentClasses() {
+            const visited = new Set<string>([that.vertex.id]);
+            const equivalentVertices = [
+                ...that.vertex.getOutgoing('owl:equivalentClass').map(({ toVertex }) => toVertex),
+                ...that.vertex.getIncoming('owl:equivalentClass').map(({ fromVertex }) => fromVertex)
+            ];
+
+            for (const equivalentV of equivalentVertices) {
+                const equivalentClass = visited.has(equivalentV.id) ? undefined : that.vocabulary.getClass(equivalentV.id);
+                visited.add(equivalentV.id);
+                if (equivalentClass) {
+                    yield equivalentClass;
+                }
+            }
+        })());
+    }
+
+    /**
+     * @description Gets all cardinality constraints declared by this class.
+     * @readonly
+     * @type {Iterable<{ property: Property; cardinality: Cardinality }>}
+     * @memberof Class
+     */
+    get cardinalities(): Iterable<{ property: Property; cardinality: Cardinality }> {
+        return this.vertex
+            .getOutgoing('sh:property')
+            .map(({ toVertex }) => toVertex)
+            .filter(constraintV => constraintV.getOutgoing('sh:path').count() > 0)
+            .map(constraintV => {
+                return {
+                    property: this.vocabulary.getProperty(constraintV.getOutgoing('sh:path').first().toVertex.id),
+                    cardinality: this._toCardinality(constraintV)
+                };
+            });
+    }
+
     /**
      * @description Ges all properties owned by this class.
      * @readonly
@@ -150,6 +216,33 @@ export class Class extends Resource {
         this._properties.add(identity.expand(property.id, this.vocabulary.baseIri));
     }
 
+    /**
+     * @description Declares another class equivalent to this class.
+     * @param {ClassReference} classReference The class id or class reference to declare equivalent.
+     * @returns {this}
+     * @memberof Class
+     */
+    addEquivalentClass(classReference: ClassReference): this {
+        if (!classReference) {
+            throw new ReferenceError(`Invalid classReference. classReference is '${classReference}'`);
+        }
+
+        const classType = typeof classReference === 'string'
+            ? this.vocabulary.getClass(classReference)
+            : classReference;
+
+        if (!classType) {
+            throw new errors.ResourceNotFoundError(classReference as string, 'Class');
+        }
+
+        if (classType.id === this.id || this.equivalentClasses.some(x => x.id === classType.id)) {
+            return this;
+        }
+
+        this.vertex.setOutgoing('owl:equivalentClass', identity.expand(classType.id, this.vocabulary.baseIri), false);
+        return this;
+    }
+
     /**
      * @description Creates a new property on the class.
      * @param {string} id The property id to create.
@@ -188,6 +281,39 @@ export class Class extends Resource {
         return classReference;
     }
 
+    /**
+     * @description Gets the cardinality constraint of a property declared on this class or its ancestors.
+     * @param {PropertyReference} propertyReference The property id or property reference whose cardinality should be retrieved.
+     * @param {boolean} [inherited=true] True to fallback to cardinality constraints declared by ancestors, else false.
+     * @returns {Cardinality} The cardinality constraint of the property, or undefined if no constraint has been declared.
+     * @memberof Class
+     */
+    getCardinality(propertyReference: PropertyReference, inherited: boolean = true): Cardinality {
+        if (!propertyReference) {
+            throw new ReferenceError(`Invalid property. property is '${propertyReference}'`);
+        }
+
+        const propertyId = typeof propertyReference === 'string'
+            ? identity.expand(propertyReference, this.vocabulary.baseIri)
+            : identity.expand(propertyReference.id, this.vocabulary.baseIri);
+
+        const constraintV = this._getCardinalityVertex(propertyId);
+        if (constraintV) {
+            return this._toCardinality(constraintV);
+        }
+
+        if (inherited) {
+            for (const parent of this.parentClasses) {
+                const cardinality = parent.getCardinality(propertyId);
+                if (cardinality) {
+                    return cardinality;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
     /**
      * @description Gets a owned or ancestor property.
      * @param {string} id Id of the property to get.
@@ -331,6 +457,54 @@ export class Class extends Resource {
         return this;
     }
 
+    /**
+     * @description Removes the cardinality constraint of a property declared on this class.
+     * @param {PropertyReference} propertyReference The property id or property reference whose cardinality should be removed.
+     * @returns {this}
+     * @memberof Class
+     */
+    removeCardinality(propertyReference: PropertyReference): this {
+        if (!propertyReference) {
+            throw new ReferenceError(`Invalid property. property is '${propertyReference}'`);
+        }
+
+        const propertyId = typeof propertyReference === 'string'
+            ? identity.expand(propertyReference, this.vocabulary.baseIri)
+            : identity.expand(propertyReference.id, this.vocabulary.baseIri);
+
+        const constraintV = this._getCardinalityVertex(propertyId);
+        if (constraintV) {
+            this.vocabulary.graph.removeVertex(constraintV);
+        }
+
+        return this;
+    }
+
+    /**
+     * @description Removes the equivalence between this class and another class.
+     * @param {ClassReference} classReference The class id or class reference that is no longer equivalent to this class.
+     * @returns {this}
+     * @memberof Class
+     */
+    removeEquivalentClass(classReference: ClassReference): this {
+        if (!classReference) {
+            throw new ReferenceError(`Invalid classReference. classReference is '${classReference}'`);
+        }
+
+        const classType = typeof classReference === 'string'
+            ? this.vocabulary.getClass(classReference)
+            : classReference;
+
+        if (!classType) {
+            throw new errors.ResourceNotFoundError(classReference as string, 'Class');
+        }
+
+        const classId = identity.expand(classType.id, this.vocabulary.baseIri);
+        this.vertex.removeOutgoing('owl:equivalentClass', classId);
+        this.vertex.removeIncoming('owl:equivalentClass', classId);
+        return this;
+    }
+
     /**
      * @description Removes a property from the class.
      * @param {(string | Property)} propertyReference The property id or reference to remove.
@@ -350,6 +524,7 @@ export class Class extends Resource {
             throw new errors.ResourceNotFoundError(propertyReference as string, 'Property');
         }
 
+        this.removeCardinality(propertyRef);
         this._properties.delete(identity.expand(propertyRef.id, this.vocabulary.baseIri));
         propertyRef.removeDomain(this);
         if (propertyRef.domains.count() === 0 && deleteOwned) {
@@ -381,6 +556,78 @@ export class Class extends Resource {
         return this;
     }
 
+    /**
+     * @description Sets the cardinality constraint of an owned or ancestor property on this class.
+     * @param {PropertyReference} propertyReference The property id or property reference whose cardinality should be set.
+     * @param {Cardinality} cardinality The cardinality constraint of the property.
+     * @returns {this}
+     * @memberof Class
+     */
+    setCardinality(propertyReference: PropertyReference, cardinality: Cardinality): this {
+        if (!propertyReference) {
+            throw new ReferenceError(`Invalid property. property is '${propertyReference}'`);
+        }
+
+        if (!cardinality) {
+            throw new ReferenceError(`Invalid cardinality. cardinality is '${cardinality}'`);
+        }
+
+        const property = typeof propertyReference === 'string'
+            ? this.getProperty(propertyReference)
+            : propertyReference;
+
+        if (!property || !this.hasProperty(identity.expand(property.id, this.vocabulary.baseIri))) {
+            throw new errors.ResourceNotFoundError(
+                typeof propertyReference === 'string' ? propertyReference : propertyReference.id,
+                'Property'
+            );
+        }
+
+        const { minCount, maxCount } = cardinality;
+        for (const count of [minCount, maxCount]) {
+            if (count !== undefined && count !== null && (!Number.isInteger(count) || count < 0)) {
+                throw new errors.InvalidOperationError(
+                    'setCardinality',
+                    this.id,
+                    'Class',
+                    `Cardinality of property ${property.id} must be a non-negative integer. Found ${count}`
+                );
+            }
+        }
+
+        if (minCount !== undefined && minCount !== null && maxCount !== undefined && maxCount !== null && minCount > maxCount) {
+            throw new errors.InvalidOperationError(
+                'setCardinality',
+                this.id,
+                'Class',
+                `Minimum cardinality ${minCount} of property ${property.id} exceeds maximum cardinality ${maxCount}`
+            );
+        }
+
+        const propertyId = identity.expand(property.id, this.vocabulary.baseIri);
+        let constraintV = this._getCardinalityVertex(propertyId);
+        if (!constraintV) {
+            let index = 0;
+            while (this.vocabulary.graph.hasVertex(`${BlankNodePrefix}-cardinality-${index}`)) {
+                index = index + 1;
+            }
+
+            constraintV = this.vocabulary.graph.createVertex(`${BlankNodePrefix}-cardinality-${index}`);
+            constraintV.setOutgoing('sh:path', propertyId);
+            this.vertex.setOutgoing('sh:property', constraintV.id);
+        }
+
+        for (const [name, count] of [['sh:minCount', minCount], ['sh:maxCount', maxCount]] as [string, number][]) {
+            if (count === undefined || count === null) {
+                constraintV.deleteAttribute(name);
+            } else {
+                constraintV.replaceAttributeValue(name, count);
+            }
+        }
+
+        return this;
+    }
+
     /**
      * @description Generates a JSON representation of the class.
      * @param {boolean} [includeProps=false] True to include all owned and ancestor class properties, else false. Defaults to false.
@@ -395,9 +642,20 @@ export class Class extends Resource {
                 base: this.vocabulary.baseIri,
                 context: this.vocabulary.contextUri,
                 frame: {
+                    Cardinality: {
+                        '@omitDefault': true,
+                        Path: {
+                            '@embed': '@never',
+                            '@omitDefault': true
+                        }
+                    },
                     SubClassOf: {
                         '@embed': '@never',
                         '@omitDefault': true
+                    },
+                    EquivalentClass: {
+                        '@embed': '@never',
+                        '@omitDefault': true
                     }
                 }
             });
@@ -414,6 +672,13 @@ export class Class extends Resource {
                             }
                         }
                     ],
+                    Cardinality: {
+                        '@omitDefault': true,
+                        Path: {
+                            '@embed': '@never',
+                            '@omitDefault': true
+                        }
+                    },
                     Properties: {
                         Domain: {
                             '@embed': '@never',
@@ -422,17 +687,58 @@ export class Class extends Resource {
                         Range: {
                             '@embed': '@never',
                             '@omitDefault': true
+                        },
+                        InverseOf: {
+                            '@embed': '@never',
+                            '@omitDefault': true
+                        },
+                        SubPropertyOf: {
+                            '@embed': '@never',
+                            '@omitDefault': true
                         }
                     },
                     SubClassOf: {
                         '@embed': '@never',
                         '@omitDefault': true
+                    },
+                    EquivalentClass: {
+                        '@embed': '@never',
+                        '@omitDefault': true
                     }
                 }
             });
         }
     }
 
+    /**
+     * @description Generates a JSON schema (draft 2020-12) for the compacted JSON-LD form of instances of the class.
+     * @returns {*} The JSON schema, with definitions for the class and all classes it references.
+     * @memberof Class
+     */
+    toJsonSchema(): any {
+        return JsonSchema.generate(this, this.vocabulary);
+    }
+
+    private _getCardinalityVertex(propertyId: string): Vertex {
+        return this.vertex
+            .getOutgoing('sh:property')
+            .map(({ toVertex }) => toVertex)
+            .first(constraintV => constraintV.getOutgoing('sh:path').some(({ toVertex }) => toVertex.id === propertyId));
+    }
+
+    private _toCardinality(constraintV: Vertex): Cardinality {
+        const cardinality: Cardinality = {};
+        if (constraintV.hasAttribute('sh:minCount')) {
+            cardinality.minCount = Number(constraintV.getAttributeValue('sh:minCount'));
+        }
+
+        if (constraintV.hasAttribute('sh:maxCount')) {
+            cardinality.maxCount = Number(constraintV.getAttributeValue('sh:maxCount'));
+        }
+
+        return cardinality;
+    }
+
     /**
      * @description Creates a new class type.
      * @static
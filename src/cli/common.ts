@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import Vocabulary from '../vocabulary';
+
+/**
+ * @description Parsed command line arguments.
+ * @export
+ * @interface CommandLine
+ */
+export interface CommandLine {
+    /**
+     * @description Positional arguments.
+     * @type {string[]}
+     * @memberof CommandLine
+     */
+    args: string[];
+    /**
+     * @description Values of named options, keyed by option name without the leading dashes.
+     * @type {Map<string, string[]>}
+     * @memberof CommandLine
+     */
+    options: Map<string, string[]>;
+}
+
+/**
+ * @description Options shared by all commands that load a vocabulary.
+ */
+export const vocabularyUsage = [
+    '  --vocabulary <file>    Vocabulary definition to load. May be repeated.',
+    '  --context <file>       Context document to load. May be repeated.',
+    '  --context-uri <uri>    URI of the matching --context document. Defaults to the file URL.',
+    '  --base <iri>           Base IRI of the vocabulary. Defaults to the @vocab of the first context.'
+];
+
+/**
+ * @description Options that are flags and do not take a value.
+ */
+export const flags = ['help', 'json'];
+
+/**
+ * @description Parses command line arguments of the form --name value, --flag and positional arguments.
+ * @export
+ * @param {string[]} argv The arguments to parse, excluding the node executable and script.
+ * @returns {CommandLine}
+ */
+export function parseArgs(argv: string[]): CommandLine {
+    const commandLine: CommandLine = { args: [], options: new Map<string, string[]>() };
+    for (let index = 0; index < argv.length; index += 1) {
+        const arg = argv[index];
+        if (!arg.startsWith('--')) {
+            commandLine.args.push(arg);
+            continue;
+        }
+
+        const name = arg.slice(2);
+        const next = argv[index + 1];
+        const value = !flags.includes(name) && next !== undefined && !next.startsWith('--') ? next : 'true';
+        if (value === next) {
+            index += 1;
+        }
+
+        commandLine.options.set(name, [...(commandLine.options.get(name) || []), value]);
+    }
+
+    return commandLine;
+}
+
+/**
+ * @description Gets the last value of a named option.
+ * @export
+ * @param {CommandLine} commandLine The parsed command line.
+ * @param {string} name The name of the option.
+ * @param {boolean} [required=false] True to throw when the option is missing.
+ * @returns {string}
+ */
+export function getOption(commandLine: CommandLine, name: string, required: boolean = false): string {
+    const values = commandLine.options.get(name);
+    if (!values && required) {
+        throw new ReferenceError(`Missing required option --${name}`);
+    }
+
+    return values ? values[values.length - 1] : undefined;
+}
+
+/**
+ * @description Reads and parses a JSON file.
+ * @export
+ * @param {string} file The path of the file to read.
+ * @returns {*}
+ */
+export function readJson(file: string): any {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * @description Creates and loads a vocabulary from the --vocabulary, --context, --context-uri and --base options.
+ * @export
+ * @param {CommandLine} commandLine The parsed command line.
+ * @param {string[]} [vocabularyFiles] Optional vocabulary definition files to load instead of the --vocabulary option.
+ * @returns {Promise<Vocabulary>}
+ */
+export async function loadVocabulary(
+    commandLine: CommandLine,
+    vocabularyFiles: string[] = commandLine.options.get('vocabulary')
+): Promise<Vocabulary> {
+    if (!vocabularyFiles || vocabularyFiles.length === 0) {
+        throw new ReferenceError('Missing required option --vocabulary');
+    }
+
+    const contextFiles = commandLine.options.get('context') || [];
+    const contextUris = commandLine.options.get('context-uri') || [];
+    const contexts = contextFiles.map((file, index) => ({
+        uri: contextUris[index] || pathToFileURL(path.resolve(file)).href,
+        document: readJson(file)
+    }));
+
+    const baseIri = getOption(commandLine, 'base') || getVocab(contexts.map(x => x.document));
+    if (!baseIri) {
+        throw new ReferenceError('Missing required option --base. No @vocab found in the loaded contexts');
+    }
+
+    const vocabulary = new Vocabulary(baseIri, `${baseIri}context`);
+    for (const { uri, document } of contexts) {
+        vocabulary.context.load(uri, document);
+    }
+
+    await vocabulary.load(vocabularyFiles.map(readJson));
+    return vocabulary;
+}
+
+/**
+ * @description Writes command output to the file of the --out option, or the output stream when not specified.
+ * @export
+ * @param {CommandLine} commandLine The parsed command line.
+ * @param {NodeJS.WritableStream} output The output stream.
+ * @param {string} text The text to write.
+ */
+export function writeOutput(commandLine: CommandLine, output: NodeJS.WritableStream, text: string): void {
+    const out = getOption(commandLine, 'out');
+    if (out) {
+        fs.writeFileSync(out, text);
+    } else {
+        output.write(text);
+    }
+}
+
+/**
+ * @description Runs a command and reports failures to stderr with a non-zero exit code.
+ * @export
+ * @param {(argv: string[]) => Promise<number | void>} command The command to run. Resolves with the exit code, if any.
+ * @returns {Promise<void>}
+ */
+export async function main(command: (argv: string[]) => Promise<number | void>): Promise<void> {
+    try {
+        const exitCode = await command(process.argv.slice(2));
+        if (typeof exitCode === 'number') {
+            process.exitCode = exitCode;
+        }
+    } catch (err) {
+        process.stderr.write(`${err.message}\n`);
+        process.exitCode = 1;
+    }
+}
+
+function getVocab(documents: any[]): string {
+    for (const document of documents) {
+        const contexts = [].concat(document['@context'] || []);
+        const context = contexts.find(x => typeof x === 'object' && x['@vocab']);
+        if (context) {
+            return context['@vocab'];
+        }
+    }
+
+    return undefined;
+}
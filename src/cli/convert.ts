@@ -0,0 +1,74 @@
+import Document from '../document';
+import Vocabulary from '../vocabulary';
+import { getOption, loadVocabulary, parseArgs, readJson, vocabularyUsage, writeOutput } from './common';
+
+const vocabularyFormats: { [format: string]: (vocabulary: Vocabulary) => Promise<string> } = {
+    json: async vocabulary => JSON.stringify(await vocabulary.toJson(), null, 2),
+    'json-schema': async vocabulary => JSON.stringify(vocabulary.toJsonSchema(), null, 2),
+    ntriples: async vocabulary => vocabulary.toNTriples(),
+    shacl: async vocabulary => JSON.stringify(vocabulary.toShacl(), null, 2),
+    turtle: async vocabulary => vocabulary.toTurtle(),
+    typescript: async vocabulary => vocabulary.toTypings()
+};
+
+const documentFormats: { [format: string]: (document: Document) => Promise<string> } = {
+    json: async document => {
+        const vocabulary = document.vocabulary;
+        const contexts = vocabulary.context.definitions
+            .map(([uri]) => uri)
+            .filter(uri => uri !== vocabulary.contextUri)
+            .items();
+
+        return JSON.stringify(await document.toJson({ base: vocabulary.baseIri, context: contexts }), null, 2);
+    },
+    ntriples: async document => document.toNTriples(),
+    turtle: async document => document.toTurtle()
+};
+
+const usage = [
+    'Usage: jsonld-vocab convert --vocabulary <file> --to <format> [options] [document files...]',
+    '',
+    'Converts a vocabulary, or the instance documents when specified, to another format.',
+    '',
+    `Vocabulary formats: ${Object.keys(vocabularyFormats).join(', ')}`,
+    `Document formats: ${Object.keys(documentFormats).join(', ')}`,
+    '',
+    'Options:',
+    ...vocabularyUsage,
+    '  --to <format>          The format to convert to.',
+    '  --out <file>           File to write the converted output to. Defaults to stdout.',
+    '  --help                 Shows this help.'
+].join('\n');
+
+/**
+ * @description Runs the convert command.
+ * @export
+ * @param {string[]} argv The command arguments.
+ * @param {NodeJS.WritableStream} [output=process.stdout] Stream the converted output is written to when --out is not specified.
+ * @returns {Promise<void>}
+ */
+export async function run(argv: string[], output: NodeJS.WritableStream = process.stdout): Promise<void> {
+    const commandLine = parseArgs(argv);
+    if (commandLine.options.has('help')) {
+        output.write(`${usage}\n`);
+        return;
+    }
+
+    const format = getOption(commandLine, 'to', true);
+    const formats = commandLine.args.length > 0 ? documentFormats : vocabularyFormats;
+    if (!formats[format]) {
+        throw new ReferenceError(`Unsupported format '${format}'. Supported formats are ${Object.keys(formats).join(', ')}`);
+    }
+
+    const vocabulary = await loadVocabulary(commandLine);
+    let converted: string;
+    if (commandLine.args.length > 0) {
+        const document = new Document(vocabulary);
+        await document.load(commandLine.args.map(readJson));
+        converted = await documentFormats[format](document);
+    } else {
+        converted = await vocabularyFormats[format](vocabulary);
+    }
+
+    writeOutput(commandLine, output, converted.endsWith('\n') ? converted : `${converted}\n`);
+}
@@ -0,0 +1,48 @@
+import { loadVocabulary, parseArgs, vocabularyUsage, writeOutput } from './common';
+
+const usage = [
+    'Usage: jsonld-vocab diff [options] <source vocabulary file> <target vocabulary file>',
+    '',
+    'Lists the changes between two vocabulary definitions and whether they break existing documents.',
+    'Exits with code 1 when the vocabularies differ.',
+    '',
+    'Options:',
+    ...vocabularyUsage.filter(x => !x.includes('--vocabulary')),
+    '  --json                 Writes the changes as JSON.',
+    '  --out <file>           File to write the changes to. Defaults to stdout.',
+    '  --help                 Shows this help.'
+].join('\n');
+
+/**
+ * @description Runs the diff command.
+ * @export
+ * @param {string[]} argv The command arguments.
+ * @param {NodeJS.WritableStream} [output=process.stdout] Stream the differences are written to when --out is not specified.
+ * @returns {Promise<number>} The exit code. 0 if the vocabularies are the same, else 1.
+ */
+export async function run(argv: string[], output: NodeJS.WritableStream = process.stdout): Promise<number> {
+    const commandLine = parseArgs(argv);
+    if (commandLine.options.has('help')) {
+        output.write(`${usage}\n`);
+        return 0;
+    }
+
+    if (commandLine.args.length !== 2) {
+        throw new ReferenceError('Expected a source and a target vocabulary file to compare');
+    }
+
+    const source = await loadVocabulary(commandLine, [commandLine.args[0]]);
+    const target = await loadVocabulary(commandLine, [commandLine.args[1]]);
+    const diff = source.diff(target);
+    if (commandLine.options.has('json')) {
+        const json = { identical: diff.identical, breaking: diff.breaking, changes: diff.changes };
+        writeOutput(commandLine, output, `${JSON.stringify(json, null, 2)}\n`);
+    } else if (diff.identical) {
+        writeOutput(commandLine, output, 'Vocabularies are identical.\n');
+    } else {
+        const lines = diff.changes.map(x => `${x.breaking ? '[breaking]' : '[non-breaking]'} ${x.message}`);
+        writeOutput(commandLine, output, `${lines.join('\n')}\n`);
+    }
+
+    return diff.identical ? 0 : 1;
+}
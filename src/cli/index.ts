@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+import { main } from './common';
+import * as convert from './convert';
+import * as diff from './diff';
+import * as inspect from './inspect';
+import * as typings from './typings';
+import * as validate from './validate';
+
+const commands: {
+    [name: string]: {
+        description: string;
+        run(argv: string[], output: NodeJS.WritableStream): Promise<number | void>;
+    };
+} = {
+    convert: { description: 'Converts a vocabulary or documents to another format.', run: convert.run },
+    diff: { description: 'Lists differences between two vocabulary definitions.', run: diff.run },
+    inspect: { description: 'Lists the classes, class hierarchy and properties of a vocabulary.', run: inspect.run },
+    typings: { description: 'Generates TypeScript declarations for the classes of a vocabulary.', run: typings.run },
+    validate: { description: 'Validates instance documents against a vocabulary.', run: validate.run }
+};
+
+const usage = [
+    'Usage: jsonld-vocab <command> [options]',
+    '',
+    'Commands:',
+    ...Object.keys(commands).map(name => `  ${name.padEnd(22)} ${commands[name].description}`),
+    '',
+    `Run 'jsonld-vocab <command> --help' for the options of a command.`
+].join('\n');
+
+/**
+ * @description Runs a jsonld-vocab command.
+ * @export
+ * @param {string[]} argv The command name followed by the command arguments.
+ * @param {NodeJS.WritableStream} [output=process.stdout] Stream the command output is written to.
+ * @returns {Promise<number | void>} The exit code of the command, if any.
+ */
+export async function run(argv: string[], output: NodeJS.WritableStream = process.stdout): Promise<number | void> {
+    const [name, ...args] = argv;
+    if (!name || name === 'help' || name === '--help') {
+        output.write(`${usage}\n`);
+        return;
+    }
+
+    if (!commands[name]) {
+        throw new ReferenceError(`Unknown command '${name}'. Run 'jsonld-vocab --help' for the list of commands`);
+    }
+
+    return commands[name].run(args, output);
+}
+
+if (require.main === module) {
+    // tslint:disable-next-line: no-floating-promises
+    main(run);
+}
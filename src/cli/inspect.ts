@@ -0,0 +1,103 @@
+import Class from '../class';
+import Vocabulary from '../vocabulary';
+import { loadVocabulary, parseArgs, vocabularyUsage, writeOutput } from './common';
+
+const usage = [
+    'Usage: jsonld-vocab inspect --vocabulary <file> [options]',
+    '',
+    'Lists the classes, class hierarchy and properties of a vocabulary.',
+    '',
+    'Options:',
+    ...vocabularyUsage,
+    '  --json                 Writes the summary as JSON.',
+    '  --out <file>           File to write the summary to. Defaults to stdout.',
+    '  --help                 Shows this help.'
+].join('\n');
+
+/**
+ * @description Runs the inspect command.
+ * @export
+ * @param {string[]} argv The command arguments.
+ * @param {NodeJS.WritableStream} [output=process.stdout] Stream the summary is written to when --out is not specified.
+ * @returns {Promise<void>}
+ */
+export async function run(argv: string[], output: NodeJS.WritableStream = process.stdout): Promise<void> {
+    const commandLine = parseArgs(argv);
+    if (commandLine.options.has('help')) {
+        output.write(`${usage}\n`);
+        return;
+    }
+
+    const vocabulary = await loadVocabulary(commandLine);
+    const summary = commandLine.options.has('json')
+        ? `${JSON.stringify(summarize(vocabulary), null, 2)}\n`
+        : describe(vocabulary);
+
+    writeOutput(commandLine, output, summary);
+}
+
+function describe(vocabulary: Vocabulary): string {
+    const lines = [`Vocabulary ${vocabulary.baseIri}`, '', `Classes (${vocabulary.classes.count()}):`];
+    const roots = vocabulary.classes.filter(classType => classType.parentClasses.count() === 0);
+    for (const root of roots) {
+        lines.push(...describeHierarchy(root, 1, new Set<string>()));
+    }
+
+    lines.push('', `Properties (${vocabulary.properties.count()}):`);
+    for (const property of vocabulary.properties) {
+        const resolved = vocabulary.context.resolveTerm(property.id);
+        const term = resolved ? ` (${resolved.term})` : '';
+        const container = property.container ? ` [${property.container}]` : '';
+        const domains = property.domains.map(x => x.id).items().join(', ') || '*';
+        const range = property.range.filter(x => !!x).map(x => x.id).items().join(' | ') || '*';
+        lines.push(`  ${property.id}${term}${container}: ${domains} -> ${range}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+function describeHierarchy(classType: Class, depth: number, ancestors: Set<string>): string[] {
+    const lines = [`${'  '.repeat(depth)}${classType.id}`];
+    if (ancestors.has(classType.id)) {
+        return lines;
+    }
+
+    const path = new Set<string>(ancestors).add(classType.id);
+    for (const subClass of classType.subClasses) {
+        lines.push(...describeHierarchy(subClass, depth + 1, path));
+    }
+
+    return lines;
+}
+
+function summarize(vocabulary: Vocabulary): any {
+    return {
+        baseIri: vocabulary.baseIri,
+        classes: vocabulary.classes
+            .map(classType => ({
+                id: classType.id,
+                label: classType.label,
+                comment: classType.comment,
+                parentClasses: classType.parentClasses.map(x => x.id).items(),
+                properties: classType.ownProperties.map(x => x.id).items()
+            }))
+            .items(),
+        properties: vocabulary.properties
+            .map(property => {
+                const resolved = vocabulary.context.resolveTerm(property.id);
+                return {
+                    id: property.id,
+                    term: resolved ? resolved.term : undefined,
+                    label: property.label,
+                    comment: property.comment,
+                    container: property.container,
+                    domains: property.domains.map(x => x.id).items(),
+                    range: property.range
+                        .filter(x => !!x)
+                        .map(x => x.id)
+                        .items()
+                };
+            })
+            .items()
+    };
+}
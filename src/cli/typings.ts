@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+import { getOption, loadVocabulary, main, parseArgs, vocabularyUsage, writeOutput } from './common';
+
+const usage = [
+    'Usage: jsonld-vocab-typings --vocabulary <file> [options]',
+    '',
+    'Generates TypeScript declarations for the classes of a vocabulary.',
+    '',
+    'Options:',
+    ...vocabularyUsage,
+    '  --module <name>        Module to import instance types from. Defaults to jsonld-vocab.',
+    '  --out <file>           File to write the declarations to. Defaults to stdout.',
+    '  --help                 Shows this help.'
+].join('\n');
+
+/**
+ * @description Runs the typings command.
+ * @export
+ * @param {string[]} argv The command arguments.
+ * @param {NodeJS.WritableStream} [output=process.stdout] Stream the declarations are written to when --out is not specified.
+ * @returns {Promise<void>}
+ */
+export async function run(argv: string[], output: NodeJS.WritableStream = process.stdout): Promise<void> {
+    const commandLine = parseArgs(argv);
+    if (commandLine.options.has('help')) {
+        output.write(`${usage}\n`);
+        return;
+    }
+
+    const vocabulary = await loadVocabulary(commandLine);
+    writeOutput(commandLine, output, vocabulary.toTypings({ moduleName: getOption(commandLine, 'module') }));
+}
+
+if (require.main === module) {
+    // tslint:disable-next-line: no-floating-promises
+    main(run);
+}
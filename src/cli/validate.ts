@@ -0,0 +1,75 @@
+import Document from '../document';
+import Instance from '../instance';
+import Resource from '../resource';
+import ShapesGraph from '../shapesGraph';
+import { getOption, loadVocabulary, parseArgs, readJson, vocabularyUsage, writeOutput } from './common';
+
+const usage = [
+    'Usage: jsonld-vocab validate --vocabulary <file> [options] <document files...>',
+    '',
+    'Loads instance documents against a vocabulary and reports range and cardinality violations.',
+    'Exits with code 1 when the documents do not conform.',
+    '',
+    'Options:',
+    ...vocabularyUsage,
+    '  --shapes <file>        SHACL shapes graph to additionally validate the documents against.',
+    '  --json                 Writes the report as JSON.',
+    '  --out <file>           File to write the report to. Defaults to stdout.',
+    '  --help                 Shows this help.'
+].join('\n');
+
+/**
+ * @description Runs the validate command.
+ * @export
+ * @param {string[]} argv The command arguments.
+ * @param {NodeJS.WritableStream} [output=process.stdout] Stream the report is written to when --out is not specified.
+ * @returns {Promise<number>} The exit code. 0 if the documents conform, else 1.
+ */
+export async function run(argv: string[], output: NodeJS.WritableStream = process.stdout): Promise<number> {
+    const commandLine = parseArgs(argv);
+    if (commandLine.options.has('help')) {
+        output.write(`${usage}\n`);
+        return 0;
+    }
+
+    if (commandLine.args.length === 0) {
+        throw new ReferenceError('Missing document files to validate');
+    }
+
+    const vocabulary = await loadVocabulary(commandLine);
+    const document = new Document(vocabulary);
+    await document.load(commandLine.args.map(readJson));
+
+    const report = document.validate();
+    let shaclReport;
+    const shapes = getOption(commandLine, 'shapes');
+    if (shapes) {
+        const shapesGraph = new ShapesGraph();
+        await shapesGraph.load(readJson(shapes));
+        shaclReport = shapesGraph.validate(document);
+    }
+
+    const conforms = report.conforms && (!shaclReport || shaclReport.conforms);
+    if (commandLine.options.has('json')) {
+        const json = {
+            conforms,
+            violations: report.violations.map(x => ({
+                ...x,
+                value: x.value instanceof Instance || x.value instanceof Resource ? x.value.id : x.value
+            })),
+            shacl: shaclReport ? shaclReport.toJson() : undefined
+        };
+
+        writeOutput(commandLine, output, `${JSON.stringify(json, null, 2)}\n`);
+    } else {
+        const lines = report.violations.map(x => `${x.instanceId} ${x.propertyId}: ${x.message}`);
+        if (shaclReport) {
+            lines.push(...shaclReport.results.map(x => `${x.focusNode} ${x.resultPath || ''}: ${x.resultMessage} (${x.sourceConstraintComponent})`));
+        }
+
+        lines.push(conforms ? 'Documents conform to the vocabulary.' : `${lines.length} violation(s) found.`);
+        writeOutput(commandLine, output, `${lines.join('\n')}\n`);
+    }
+
+    return conforms ? 0 : 1;
+}
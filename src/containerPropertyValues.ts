@@ -1,12 +1,15 @@
 import LibIterable from 'jsiterable/lib/types';
 import { Vertex } from 'jsonld-graph';
+import ChangeNotifier from './changeNotifier';
 import Class from './class';
 import { ContainerType, ValueType } from './context';
 import * as errors from './errors';
 import * as identity from './identity';
 import Instance from './instance';
+import InverseProperties from './inverseProperties';
 import Property from './property';
 import * as types from './types';
+import Validator from './validator';
 import Iterable from 'jsiterable';
 
 export class ContainerPropertyValues<T> implements LibIterable<any> {
@@ -115,7 +118,18 @@ export class ContainerPropertyValues<T> implements LibIterable<any> {
             );
         }
 
+        if (this._instanceProvider.strict) {
+            Validator.assertInRange(
+                identity.compact(this._vertex.id, this._vocabulary.baseIri),
+                this._property.id,
+                this._property.range,
+                value
+            );
+        }
+
+        const previousValues = [...this];
         this._vertex.addAttributeValue(this._normalizedId, value, language);
+        this._notifyChanged(previousValues);
     }
 
     /**
@@ -132,9 +146,21 @@ export class ContainerPropertyValues<T> implements LibIterable<any> {
             );
         }
 
+        if (this._instanceProvider.strict) {
+            Validator.assertInRange(
+                identity.compact(this._vertex.id, this._vocabulary.baseIri),
+                this._property.id,
+                this._property.range,
+                ref
+            );
+        }
+
+        const previousValues = [...this];
         const identityId = identity.expand(ref.id, this._vocabulary.baseIri);
         const createIfNotExists = this._vocabulary.hasInstance(identityId) || this._vocabulary.hasInstance(identityId);
         this._vertex.setOutgoing(this._normalizedId, identity.expand(ref.id, this._vocabulary.baseIri), createIfNotExists);
+        InverseProperties.link(this._vertex, this._property, identityId, this._vocabulary, this._instanceProvider);
+        this._notifyChanged(previousValues);
     }
 
     /**
@@ -244,7 +270,9 @@ export class ContainerPropertyValues<T> implements LibIterable<any> {
             );
         }
 
+        const previousValues = [...this];
         this._vertex.removeAttributeValue(this._normalizedId, value);
+        this._notifyChanged(previousValues);
     }
 
     /**
@@ -261,8 +289,11 @@ export class ContainerPropertyValues<T> implements LibIterable<any> {
             );
         }
 
-        const referenceId = typeof ref === 'string' ? ref : ref.id;
-        this._vertex.removeOutgoing(this._normalizedId, identity.expand(referenceId, this._vocabulary.baseIri));
+        const previousValues = [...this];
+        const referenceId = identity.expand(typeof ref === 'string' ? ref : ref.id, this._vocabulary.baseIri);
+        InverseProperties.unlink(this._vertex, this._property, referenceId, this._vocabulary, this._instanceProvider);
+        this._vertex.removeOutgoing(this._normalizedId, referenceId);
+        this._notifyChanged(previousValues);
     }
 
     /**
@@ -271,8 +302,24 @@ export class ContainerPropertyValues<T> implements LibIterable<any> {
      * @memberof ContainerPropertyValues
      */
     clear(language?: string): void {
+        const previousValues = [...this];
+        for (const { toVertex } of this._vertex.getOutgoing(this._normalizedId).items()) {
+            InverseProperties.unlink(this._vertex, this._property, toVertex.id, this._vocabulary, this._instanceProvider);
+        }
+
         this._vertex.removeOutgoing(this._normalizedId);
         this._vertex.deleteAttribute(this._normalizedId, language);
+        this._notifyChanged(previousValues);
+    }
+
+    private _notifyChanged(previousValues: any[]): void {
+        ChangeNotifier.notify(
+            this._instanceProvider,
+            identity.compact(this._vertex.id, this._vocabulary.baseIri),
+            'propertyValueChanged',
+            this._property,
+            previousValues
+        );
     }
 }
 
@@ -1,3 +1,94 @@
+const timezonePattern = '(Z|[+-](0\\d|1[0-3]):[0-5]\\d|[+-]14:00)?';
+const datePattern = '-?([1-9]\\d{3,}|0\\d{3})-(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])';
+const timePattern = '(([01]\\d|2[0-3]):[0-5]\\d:[0-5]\\d(\\.\\d+)?|24:00:00(\\.0+)?)';
+const decimalPattern = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const floatingPointPattern = /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|[+-]?INF|NaN)$/;
+const integerPattern = /^[+-]?\d+$/;
+
+/**
+ * @description Creates a validator for lexical forms matching a pattern.
+ * @param {RegExp} pattern The pattern the lexical form should match.
+ * @returns {(value: any) => boolean}
+ */
+function lexical(pattern: RegExp): (value: any) => boolean {
+    return (value: any) => typeof value === 'string' && pattern.test(value);
+}
+
+/**
+ * @description Creates a validator for floating point numbers.
+ * @param {number} max The maximum absolute value of the number.
+ * @returns {(value: any) => boolean}
+ */
+function floatingPoint(max: number): (value: any) => boolean {
+    return (value: any) => {
+        if (typeof value === 'number') {
+            return !Number.isFinite(value) || Math.abs(value) <= max;
+        }
+
+        if (typeof value !== 'string' || !floatingPointPattern.test(value)) {
+            return false;
+        }
+
+        const parsed = Number(value.replace('INF', 'Infinity'));
+        return !Number.isFinite(parsed) || Math.abs(parsed) <= max;
+    };
+}
+
+/**
+ * @description Creates a validator for integers within an inclusive range.
+ * @param {string} [min] The minimum lexical value of the integer. Unbounded if not specified.
+ * @param {string} [max] The maximum lexical value of the integer. Unbounded if not specified.
+ * @returns {(value: any) => boolean}
+ */
+function integer(min?: string, max?: string): (value: any) => boolean {
+    return (value: any) => {
+        let lexicalValue: string;
+        if (typeof value === 'number') {
+            if (!Number.isInteger(value)) {
+                return false;
+            }
+            lexicalValue = value.toFixed(0);
+        } else if (typeof value === 'bigint' || typeof value === 'string') {
+            lexicalValue = `${value}`;
+        } else {
+            return false;
+        }
+
+        if (!integerPattern.test(lexicalValue)) {
+            return false;
+        }
+
+        return (!min || compareIntegers(lexicalValue, min) >= 0) && (!max || compareIntegers(lexicalValue, max) <= 0);
+    };
+}
+
+/**
+ * @description Compares two integers in their lexical form without loss of precision.
+ * @param {string} a The first integer to compare.
+ * @param {string} b The second integer to compare.
+ * @returns {number} A negative number if a is less than b, a positive number if a is greater than b, else 0.
+ */
+function compareIntegers(a: string, b: string): number {
+    const normalize = (lexicalValue: string) => {
+        const negative = lexicalValue.startsWith('-');
+        const digits = lexicalValue.replace(/^[+-]/, '').replace(/^0+(?=\d)/, '');
+        return { negative: negative && digits !== '0', digits };
+    };
+
+    const left = normalize(a);
+    const right = normalize(b);
+    if (left.negative !== right.negative) {
+        return left.negative ? -1 : 1;
+    }
+
+    const magnitude =
+        left.digits.length !== right.digits.length
+            ? left.digits.length - right.digits.length
+            : left.digits.localeCompare(right.digits);
+
+    return left.negative ? -magnitude : magnitude;
+}
+
 /**
  * @description Data type resource in the vocabulary.
  * @export
@@ -5,57 +96,121 @@
  * @implements {Resource}
  */
 export class DataType {
-    static readonly anyURI: DataType = new DataType('xsd:anyURI', 'Any URI', 'URI as defined by RFC 2396.');
+    static readonly anyURI: DataType = new DataType(
+        'xsd:anyURI',
+        'Any URI',
+        'URI as defined by RFC 2396.',
+        value => typeof value === 'string'
+    );
     static readonly base64Binary: DataType = new DataType(
         'xsd:base64Binary',
         'Base64 Binary',
-        'Base64-encoded arbitrary binary data.'
+        'Base64-encoded arbitrary binary data.',
+        lexical(/^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/)
+    );
+    static readonly boolean: DataType = new DataType(
+        'xsd:boolean',
+        'Boolean',
+        'True or False values.',
+        value => typeof value === 'boolean' || lexical(/^(true|false|1|0)$/)(value)
     );
-    static readonly boolean: DataType = new DataType('xsd:boolean', 'Boolean', 'True or False values.');
     static readonly hexBinary: DataType = new DataType(
         'xsd:hexBinary',
         'Hex Binary',
-        'Arbitrary hex-encoded binary data.'
+        'Arbitrary hex-encoded binary data.',
+        lexical(/^([0-9a-fA-F]{2})*$/)
+    );
+    static readonly day: DataType = new DataType(
+        'xsd:gDay',
+        'Day',
+        'Day of the month.',
+        lexical(new RegExp(`^---(0[1-9]|[12]\\d|3[01])${timezonePattern}$`))
+    );
+    static readonly date: DataType = new DataType(
+        'xsd:date',
+        'Date',
+        'Calendar date.',
+        lexical(new RegExp(`^${datePattern}${timezonePattern}$`))
+    );
+    static readonly dateTime: DataType = new DataType(
+        'xsd:dateTime',
+        'Date Time',
+        'Specific instance of time.',
+        lexical(new RegExp(`^${datePattern}T${timePattern}${timezonePattern}$`))
+    );
+    static readonly decimal: DataType = new DataType(
+        'xsd:decimal',
+        'Decimal',
+        'Arbitrary precision numbers.',
+        value => (typeof value === 'number' && Number.isFinite(value)) || lexical(decimalPattern)(value)
     );
-    static readonly day: DataType = new DataType('xsd:gDay', 'Day', 'Day of the month.');
-    static readonly date: DataType = new DataType('xsd:date', 'Date', 'Calendar date.');
-    static readonly dateTime: DataType = new DataType('xsd:dateTime', 'Date Time', 'Specific instance of time.');
-    static readonly decimal: DataType = new DataType('xsd:decimal', 'Decimal', 'Arbitrary precision numbers.');
     static readonly double: DataType = new DataType(
         'xsd:double',
         'Double',
-        'Double-precision 64-bit floating point numbers.'
+        'Double-precision 64-bit floating point numbers.',
+        floatingPoint(Number.MAX_VALUE)
+    );
+    static readonly duration: DataType = new DataType(
+        'xsd:duration',
+        'Duration',
+        'Duration of time.',
+        lexical(/^-?P(?=\d|T\d)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/)
     );
-    static readonly duration: DataType = new DataType('xsd:duration', 'Duration', 'Duration of time.');
     static readonly float: DataType = new DataType(
         'xsd:float',
         'Float',
-        'Single-precision 32-bit floating point numbers.'
+        'Single-precision 32-bit floating point numbers.',
+        floatingPoint(3.4028234663852886e38)
     );
     static readonly int: DataType = new DataType(
         'xsd:int',
         'Int',
-        'Integer with a minimum value of -2147483648 and maximum of 2147483647.'
+        'Integer with a minimum value of -2147483648 and maximum of 2147483647.',
+        integer('-2147483648', '2147483647')
     );
     static readonly integer: DataType = new DataType(
         'xsd:integer',
         'Integer',
-        'Integer with a minimum value of -2147483648 and maximum of 2147483647.'
+        'Integer with a minimum value of -2147483648 and maximum of 2147483647.',
+        integer()
     );
     static readonly long: DataType = new DataType(
         'xsd:long',
         'Long',
-        'Integer with a minimum value of -9223372036854775808 and maximum of 9223372036854775807'
+        'Integer with a minimum value of -9223372036854775808 and maximum of 9223372036854775807',
+        integer('-9223372036854775808', '9223372036854775807')
+    );
+    static readonly month: DataType = new DataType(
+        'xsd:gMonth',
+        'Month',
+        'Month of year.',
+        lexical(new RegExp(`^--(0[1-9]|1[0-2])${timezonePattern}$`))
     );
-    static readonly month: DataType = new DataType('xsd:gMonth', 'Month', 'Month of year.');
     static readonly short: DataType = new DataType(
         'xsd:short',
         'Short',
-        'Integer with a minimum value of -32768 and maximum of 32767.'
+        'Integer with a minimum value of -32768 and maximum of 32767.',
+        integer('-32768', '32767')
+    );
+    static readonly string: DataType = new DataType(
+        'xsd:string',
+        'String',
+        'Character strings.',
+        value => typeof value === 'string'
+    );
+    static readonly time: DataType = new DataType(
+        'xsd:time',
+        'Time',
+        'Instance of time that recurs every day.',
+        lexical(new RegExp(`^${timePattern}${timezonePattern}$`))
+    );
+    static readonly year: DataType = new DataType(
+        'xsd:year',
+        'Year',
+        'Year',
+        value => (typeof value === 'number' && Number.isInteger(value)) ||
+            lexical(new RegExp(`^-?([1-9]\\d{3,}|0\\d{3})${timezonePattern}$`))(value)
     );
-    static readonly string: DataType = new DataType('xsd:string', 'String', 'Character strings.');
-    static readonly time: DataType = new DataType('xsd:time', 'Time', 'Instance of time that recurs every day.');
-    static readonly year: DataType = new DataType('xsd:year', 'Year', 'Year');
 
     private static _all: DataType[];
 
@@ -77,9 +232,29 @@ export class DataType {
      * @param {string} id The id of the data type.
      * @param {string} label The label of the data type.
      * @param {string} comment The comment of the data type.
+     * @param {(value: any) => boolean} validator Validator used to check values of the data type.
      * @memberof DataType
      */
-    private constructor(public readonly id: string, public readonly label: string, public readonly comment: string) { }
+    private constructor(
+        public readonly id: string,
+        public readonly label: string,
+        public readonly comment: string,
+        private readonly _validator: (value: any) => boolean
+    ) { }
+
+    /**
+     * @description Checks if a value is a valid value of the data type.
+     * @param {*} value The native value or lexical form of the value to check.
+     * @returns {boolean} True if the value is valid for the data type, else false.
+     * @memberof DataType
+     */
+    isValid(value: any): boolean {
+        if (value === null || value === undefined) {
+            return false;
+        }
+
+        return this._validator(value);
+    }
 
     /**
      * @description Parses a data type id and returns the represented data type instance.
@@ -1,11 +1,31 @@
 import Iterable from 'jsiterable';
 import JsonldGraph, { Vertex } from 'jsonld-graph';
 import JsonFormatOptions from 'jsonld-graph/lib/formatOptions';
+import BlankNodes from './blankNodes';
+import { ChangeEventEmitter } from './changeEvents';
+import ChangeNotifier from './changeNotifier';
+import ChangeSet from './changeSet';
+import DocumentComparer from './documentComparer';
+import DocumentDiff from './documentDiff';
 import * as errors from './errors';
 import * as identity from './identity';
+import Inference from './inference';
 import Instance from './instance';
 import InstanceProxy from './instanceProxy';
+import JsonPatch from './jsonPatch';
+import { JsonPatchOperation } from './jsonPatchOperation';
+import Merge from './merge';
+import { MergeConflictType, MergeResult } from './mergeResult';
+import NQuads from './nquads';
+import Query from './query';
+import Rdf from './rdf';
+import RdfPatch from './rdfPatch';
+import Sparql from './sparql';
+import { SparqlResults } from './sparqlResults';
+import TransactionLog from './transactionLog';
+import Turtle from './turtle';
 import { ClassReference, InstanceReference, PropertyReference } from './types';
+import ValidationReport from './validationReport';
 import Vocabulary from './vocabulary';
 
 
@@ -15,6 +35,15 @@ import Vocabulary from './vocabulary';
  *  Options used by a Document.
  */
 export interface DocumentOptions {
+    /**
+     * @description True to answer class membership queries with the RDFS entailments of the vocabulary.
+     */
+    inference?: boolean;
+    /**
+     * @description True to reject property values that are not in the range of the property when assigned.
+     * Defaults to the strict mode of the vocabulary.
+     */
+    strict?: boolean;
     blankIdNormalizer?(instance: Instance, document: Document): void;
     blankTypeNormalizer?(instance: Instance, document: Document): void;
     idChangeHandler?(instance: Instance, previousId: string, document: Document): void;
@@ -25,10 +54,12 @@ export interface DocumentOptions {
  * @export
  * @class Document
  */
-export class Document {
+export class Document extends ChangeEventEmitter {
     private readonly _graph: JsonldGraph;
     private readonly _options: DocumentOptions;
     private readonly _instances = new Map<string, Instance & any>();
+    private readonly _transactions: TransactionLog;
+    private _checkpoint: { quads: Rdf.Quad[]; json?: any; options?: JsonFormatOptions } = { quads: [] };
 
     /**
      * Creates an instance of Document.
@@ -36,23 +67,20 @@ export class Document {
      * @memberof Document
      */
     constructor(public readonly vocabulary: Vocabulary, options: DocumentOptions = {}) {
+        super();
         if (!vocabulary) {
             throw new ReferenceError(`Invalid vocabulary. vocabulary is '${vocabulary}'`);
         }
 
         this._options = options;
-        this._graph = new JsonldGraph();
-        this._graph.addPrefix('vocab', vocabulary.baseIri);
-
-        for (const [uri, context] of this.vocabulary.context.definitions) {
-            this._graph.addContext(uri, context);
-        }
-
+        this._graph = this._createGraph();
+        this._transactions = new TransactionLog(this);
         this._graph.on('vertexIdChanged', (vertex, previousId) => {
             if (this._instances.has(previousId)) {
                 const instance = this._instances.get(previousId);
                 this._instances.delete(previousId);
                 this._instances.set(vertex.id, instance);
+                this._transactions.recordRename(instance, previousId);
             }
             if (this._options.idChangeHandler) {
                 const instance: Instance = this._instances.get(vertex.id);
@@ -71,6 +99,101 @@ export class Document {
         return new Iterable(this._instances).map(x => x[1]);
     }
 
+    /**
+     * @description True if there is a committed transaction that can be undone.
+     * @readonly
+     * @type {boolean}
+     * @memberof Document
+     */
+    get canUndo(): boolean {
+        return this._transactions.canUndo;
+    }
+
+    /**
+     * @description True if there is an undone transaction that can be redone.
+     * @readonly
+     * @type {boolean}
+     * @memberof Document
+     */
+    get canRedo(): boolean {
+        return this._transactions.canRedo;
+    }
+
+    /**
+     * @description True if class membership queries are answered with the RDFS entailments of the vocabulary.
+     * @readonly
+     * @type {boolean}
+     * @memberof Document
+     */
+    get inference(): boolean {
+        return !!this._options.inference;
+    }
+
+    /**
+     * @description True if property values are checked against the range of the property when assigned.
+     * @readonly
+     * @type {boolean}
+     * @memberof Document
+     */
+    get strict(): boolean {
+        return this._options.strict !== undefined ? this._options.strict : this.vocabulary.strict;
+    }
+
+    /**
+     * @description Applies JSON Patch operations to the JSON of the document, in the format of the last checkpoint, and applies the
+     * resulting changes to the instances of the document in a single transaction.
+     * @param {JsonPatchOperation[]} operations The JSON Patch operations to apply.
+     * @returns {Promise<void>}
+     * @memberof Document
+     */
+    async applyJsonPatch(operations: JsonPatchOperation[]): Promise<void> {
+        if (!operations) {
+            throw new ReferenceError(`Invalid operations. operations is '${operations}'`);
+        }
+
+        const json = JsonPatch.apply(await this.toJson(this._checkpoint.options), operations);
+        const target = new Document(this.vocabulary);
+        // JSON formatted without a context is expanded, and is loaded with an empty context.
+        await target.load(ChangeSet.skolemize(json['@context'] ? json : { '@context': {}, ...json }));
+        this._applyChanges(ChangeSet.diff(this._quads(), target._quads().map(ChangeSet.deskolemize)));
+    }
+
+    /**
+     * @description Applies the statements added and deleted by an RDF Patch to the instances of the document in a single transaction.
+     * Added types create the instances that do not exist, and instances are removed when all their types are deleted.
+     * @param {string} patch The RDF Patch document to apply.
+     * @memberof Document
+     */
+    applyRdfPatch(patch: string): void {
+        if (!patch) {
+            throw new ReferenceError(`Invalid patch. patch is '${patch}'`);
+        }
+
+        this._applyChanges(RdfPatch.parse(patch));
+    }
+
+    /**
+     * @description Records the current state of the document as the checkpoint changes are reported from.
+     * Until a checkpoint is recorded, changes are reported from an empty document. The checkpoint should be awaited before the document is changed.
+     * @param {JsonFormatOptions} [options] Optional format options, such as the context, of the JSON the JSON Patch changes are reported against.
+     * @returns {Promise<void>}
+     * @memberof Document
+     */
+    async checkpoint(options?: JsonFormatOptions): Promise<void> {
+        const quads = this._quads();
+        // The formatted JSON shares values with the graph, and is copied so later changes are not reflected in the checkpoint.
+        const json = JSON.parse(JSON.stringify(await this.toJson(options)));
+        this._checkpoint = { quads, json, options };
+    }
+
+    /**
+     * @description Commits the transaction started by calling transaction without an action, so its changes can be undone.
+     * @memberof Document
+     */
+    commit(): void {
+        this._transactions.commit();
+    }
+
     /**
      * @description Creates a new instance of a class.
      * @template T
@@ -111,9 +234,36 @@ export class Document {
         const instance = InstanceProxy.proxify<T>(new Instance(this._graph.createVertex(id), this.vocabulary, this));
         instance.setClass(classType);
         this._instances.set(instance.id, instance);
+        ChangeNotifier.notify(this, instance.id, 'instanceCreated');
         return instance;
     }
 
+    /**
+     * @description Compares the document with another document of the same vocabulary.
+     * The documents are compared by their statements: blank nodes are matched by their values rather than their ids,
+     * values of @list properties are compared in order and values of other properties in any order.
+     * @param {Document} other The document to compare to.
+     * @returns {DocumentDiff} The changes from this document to the other document.
+     * @memberof Document
+     */
+    diff(other: Document): DocumentDiff {
+        if (!other) {
+            throw new ReferenceError(`Invalid other. other is '${other}'`);
+        }
+
+        return DocumentComparer.compare(this._quads(), other._quads(), this.vocabulary);
+    }
+
+    /**
+     * @description Checks if the document describes the same instances, classes and property values as another document.
+     * @param {Document} other The document to compare to.
+     * @returns {boolean} True if no changes are found between the documents, else false.
+     * @memberof Document
+     */
+    equals(other: Document): boolean {
+        return this.diff(other).identical;
+    }
+
     /**
      * @description Gets an instance.
      * @template T
@@ -138,6 +288,7 @@ export class Document {
      * @template T
      * @param {ClassReference} classReference The id or class reference to get instances of.
      * @param {boolean} [descendants=false] True to include all instances that are descendants of the specified class, else false. Default is false.
+     * Instances of descendant classes are always included when the document is in inference mode.
      * @returns {(Iterable<T>)}
      * @memberof Document
      */
@@ -154,7 +305,14 @@ export class Document {
             throw new errors.ResourceNotFoundError(classReference as string, 'Class');
         }
 
-        const classV = this._graph.getVertex(identity.expand(classType.id, this.vocabulary.baseIri));
+        const classId = identity.expand(classType.id, this.vocabulary.baseIri);
+        if (this.inference) {
+            return this.instances.filter(instance =>
+                Inference.getClasses(instance.vertex, this.vocabulary).some(x => identity.expand(x.id, this.vocabulary.baseIri) === classId)
+            ) as Iterable<Instance & T>;
+        }
+
+        const classV = this._graph.getVertex(classId);
         if (!descendants) {
             if (!classV) {
                 return Iterable.empty();
@@ -295,6 +453,69 @@ export class Document {
         }
     }
 
+    /**
+     * @description Loads instances from an N-Quads document.
+     * @param {(string | NodeJS.ReadableStream)} input The document text or a stream of the document to load.
+     * @param {string} [graphName] Optional IRI of the graph to load statements from. Statements of all graphs are loaded when not specified.
+     * @returns {Promise<void>}
+     * @memberof Document
+     */
+    async loadNQuads(input: string | NodeJS.ReadableStream, graphName?: string): Promise<void> {
+        if (!input) {
+            throw new ReferenceError(`Invalid input. input is '${input}'`);
+        }
+
+        const quads = await NQuads.read(input, 'N-Quads');
+        await this._loadQuads(graphName ? quads.filter(x => x.graph && x.graph.value === graphName) : quads);
+    }
+
+    /**
+     * @description Loads instances from an N-Triples document.
+     * @param {(string | NodeJS.ReadableStream)} input The document text or a stream of the document to load.
+     * @returns {Promise<void>}
+     * @memberof Document
+     */
+    async loadNTriples(input: string | NodeJS.ReadableStream): Promise<void> {
+        if (!input) {
+            throw new ReferenceError(`Invalid input. input is '${input}'`);
+        }
+
+        await this._loadQuads(await NQuads.read(input, 'N-Triples'));
+    }
+
+    /**
+     * @description Loads instances from a document in the Turtle serialization of RDF.
+     * @param {string} text The Turtle document to load.
+     * @returns {Promise<void>}
+     * @memberof Document
+     */
+    async loadTurtle(text: string): Promise<void> {
+        if (!text) {
+            throw new ReferenceError(`Invalid text. text is '${text}'`);
+        }
+
+        await this._loadQuads(Turtle.parse(text, this.vocabulary.baseIri));
+    }
+
+    /**
+     * @description Creates a query over the instances of the document.
+     * @template T The instance type returned by the query.
+     * @returns {Query<T>}
+     * @memberof Document
+     */
+    query<T = void>(): Query<T> {
+        return new Query<T>(this);
+    }
+
+    /**
+     * @description Reapplies the changes of the last undone transaction.
+     * @returns {boolean} True if a transaction was redone, false if there was no transaction to redo.
+     * @memberof Document
+     */
+    redo(): boolean {
+        return this._transactions.redo();
+    }
+
     /**
      * @description Removes an instance from the model.
      * @param {InstanceReference} instanceReference The id of the instance or instance to remove.
@@ -308,8 +529,11 @@ export class Document {
 
         const instanceId = typeof instanceReference === 'string' ? instanceReference : instanceReference.id;
         if (!recursive) {
+            const instance = this._instances.get(instanceId);
+            this._transactions.recordRemoval(instance);
             this._graph.removeVertex(instanceId);
             this._instances.delete(instanceId);
+            ChangeNotifier.notifyRemoved(this, instance);
         } else {
             const instance = this._graph.getVertex(instanceId);
             if (!instance) {
@@ -317,18 +541,245 @@ export class Document {
             }
 
             this._removeInstanceRecursive(instance);
-            this._instances.delete(instanceId);
         }
     }
 
+    /**
+     * @description Reverts the changes of the transaction started by calling transaction without an action, and ends the transaction.
+     * @memberof Document
+     */
+    rollback(): void {
+        this._transactions.rollback();
+    }
+
+    /**
+     * @description Evaluates a SPARQL SELECT or ASK query against the statements of the document.
+     * The vocab, rdf, rdfs and xsd prefixes are available to the query without being declared.
+     * The RDFS entailments of the document are also queried when the document is in inference mode.
+     * @param {string} query The query to evaluate.
+     * @returns {SparqlResults} The results of the query, in the SPARQL 1.1 JSON results format.
+     * @memberof Document
+     */
+    sparql(query: string): SparqlResults {
+        if (!query) {
+            throw new ReferenceError(`Invalid query. query is '${query}'`);
+        }
+
+        const vertices = this.inference ? this._createInferredGraph().getVertices() : this._graph.getVertices();
+        return Sparql.query(query, Rdf.fromVertices(vertices, this.vocabulary), this._prefixes(), this.vocabulary.baseIri);
+    }
+
     /**
      * @description Gets a JSON representation of the document.
      * @param {JsonFormatOptions} [options] Optional JSON formatting options.
+     * @param {boolean} [inferred=false] True to include the RDFS entailments of the document, else only asserted statements are included.
      * @memberof Document
      */
     // tslint:disable-next-line: promise-function-async
-    toJson(options?: JsonFormatOptions): Promise<any> {
-        return this._graph.toJson(options);
+    toJson(options?: JsonFormatOptions, inferred: boolean = false): Promise<any> {
+        if (!inferred) {
+            return this._graph.toJson(options);
+        }
+
+        return this._createInferredGraph().toJson(options);
+    }
+
+    /**
+     * @description Gets the N-Quads serialization of the document.
+     * @param {string} graphName The IRI of the graph the statements are written to.
+     * @returns {string}
+     * @memberof Document
+     */
+    toNQuads(graphName: string): string {
+        if (!graphName) {
+            throw new ReferenceError(`Invalid graphName. graphName is '${graphName}'`);
+        }
+
+        return NQuads.write(Rdf.toCollections(this._quads(), this.vocabulary), graphName);
+    }
+
+    /**
+     * @description Gets the N-Triples serialization of the document.
+     * @returns {string}
+     * @memberof Document
+     */
+    toNTriples(): string {
+        return NQuads.write(Rdf.toCollections(this._quads(), this.vocabulary));
+    }
+
+    /**
+     * @description Gets the Turtle serialization of the document, with IRIs compacted using the registered prefixes.
+     * @returns {string}
+     * @memberof Document
+     */
+    toTurtle(): string {
+        return Turtle.write(Rdf.toCollections(this._quads(), this.vocabulary), this._prefixes());
+    }
+
+    /**
+     * @description Gets the changes made to the document since the last checkpoint as JSON Patch operations on the JSON of the document.
+     * @returns {Promise<JsonPatchOperation[]>}
+     * @memberof Document
+     */
+    async toJsonPatch(): Promise<JsonPatchOperation[]> {
+        const previous = this._checkpoint.json || await this._createGraph().toJson(this._checkpoint.options);
+        return JsonPatch.diff(previous, await this.toJson(this._checkpoint.options));
+    }
+
+    /**
+     * @description Gets the changes made to the document since the last checkpoint as an RDF Patch of the added and deleted statements.
+     * @returns {string}
+     * @memberof Document
+     */
+    toRdfPatch(): string {
+        return RdfPatch.write(ChangeSet.diff(this._checkpoint.quads, this._quads()));
+    }
+
+    /**
+     * @description Records the changes made to the instances of the document in a transaction that can be undone as a whole.
+     * When an action is specified, the action is run in the transaction and the transaction is committed when the action completes.
+     * The changes of the action are rolled back when the action throws.
+     * When an action is run while another transaction is in progress, its changes are made in the transaction in progress.
+     * When no action is specified, the transaction must be ended by calling commit or rollback.
+     * @param {() => void} [action] Optional action making the changes of the transaction.
+     * @memberof Document
+     */
+    transaction(action?: () => void): void {
+        if (!action) {
+            this._transactions.begin();
+            return;
+        }
+
+        if (this._transactions.active) {
+            action();
+            return;
+        }
+
+        this._transactions.begin();
+        try {
+            action();
+        } catch (err) {
+            this._transactions.rollback();
+            throw err;
+        }
+
+        this._transactions.commit();
+    }
+
+    /**
+     * @description Reverts the changes of the last committed transaction.
+     * @returns {boolean} True if a transaction was undone, false if there was no transaction to undo.
+     * @memberof Document
+     */
+    undo(): boolean {
+        return this._transactions.undo();
+    }
+
+    /**
+     * @description Validates all instances in the document.
+     * @returns {ValidationReport} Report of all violations found in the document instances.
+     * @memberof Document
+     */
+    validate(): ValidationReport {
+        const report = new ValidationReport();
+        for (const instance of this.instances) {
+            report.merge(instance.validate());
+        }
+
+        return report;
+    }
+
+    /**
+     * @description Merges the changes made to a base document by two documents edited independently.
+     * Instances and the values of properties that are not containers are merged as a whole, while the classes of instances and the
+     * entries of container properties are merged entry by entry. Changes made differently on both sides are resolved with our change
+     * and reported as conflicts. Blank nodes are matched by their statements rather than their ids.
+     * @static
+     * @param {Document} base The document both documents were edited from.
+     * @param {Document} ours Our edited document.
+     * @param {Document} theirs Their edited document.
+     * @returns {Promise<MergeResult>} The merged document, based on the vocabulary and options of our document, and the conflicts found.
+     * @memberof Document
+     */
+    static async merge(base: Document, ours: Document, theirs: Document): Promise<MergeResult> {
+        if (!base) {
+            throw new ReferenceError(`Invalid base. base is '${base}'`);
+        }
+
+        if (!ours) {
+            throw new ReferenceError(`Invalid ours. ours is '${ours}'`);
+        }
+
+        if (!theirs) {
+            throw new ReferenceError(`Invalid theirs. theirs is '${theirs}'`);
+        }
+
+        const [baseStatements, ourStatements, theirStatements] = [base, ours, theirs].map(x => BlankNodes.canonicalize(x._quads()));
+        const merged = Merge.merge(baseStatements.quads, ourStatements.quads, theirStatements.quads, ours.vocabulary);
+        const document = new Document(ours.vocabulary, ours._options);
+        await document._loadQuads(merged.quads);
+
+        const valueOf = (source: Document, labels: Map<string, string>, instanceId: string, propertyId: string) => {
+            const label = instanceId.startsWith('_:') ? [...labels].find(([, canonicalLabel]) => `_:${canonicalLabel}` === instanceId) : undefined;
+            const sourceId = label ? `_:${label[0]}` : instanceId;
+            const instance = source.hasInstance(sourceId) ? source.getInstance(sourceId) : undefined;
+            if (!instance || !propertyId) {
+                return instance;
+            }
+
+            const instanceProperty = instance.getProperty(propertyId);
+            return instanceProperty ? instanceProperty.value : undefined;
+        };
+
+        return {
+            document,
+            conflicts: merged.conflicts.map(({ instanceId, propertyId }) => ({
+                type: propertyId ? MergeConflictType.Property : MergeConflictType.Instance,
+                instanceId,
+                propertyId,
+                base: valueOf(base, baseStatements.labels, instanceId, propertyId),
+                ours: valueOf(ours, ourStatements.labels, instanceId, propertyId),
+                theirs: valueOf(theirs, theirStatements.labels, instanceId, propertyId)
+            }))
+        };
+    }
+
+    private _applyChanges(changes: RdfPatch.Changes): void {
+        this.transaction(() => ChangeSet.apply(this, changes));
+    }
+
+    private _createGraph(): JsonldGraph {
+        const graph = new JsonldGraph();
+        graph.addPrefix('vocab', this.vocabulary.baseIri);
+        for (const [uri, context] of this.vocabulary.context.definitions) {
+            graph.addContext(uri, context);
+        }
+
+        return graph;
+    }
+
+    private _createInferredGraph(): JsonldGraph {
+        const graph = this._createGraph();
+        Inference.materialize(this._graph.getVertices(), graph, this.vocabulary);
+        return graph;
+    }
+
+    // tslint:disable-next-line: promise-function-async
+    private _loadQuads(quads: Rdf.Quad[]): Promise<void> {
+        return this.load({ '@context': {}, ...Rdf.toJsonLd(quads) });
+    }
+
+    private _prefixes(): { [prefix: string]: string } {
+        return {
+            vocab: this.vocabulary.baseIri,
+            rdf: Rdf.rdfNamespace,
+            rdfs: Rdf.rdfsNamespace,
+            xsd: Rdf.xsdNamespace
+        };
+    }
+
+    private _quads(): Rdf.Quad[] {
+        return Rdf.fromVertices(this._graph.getVertices(), this.vocabulary);
     }
 
     private _removeInstanceRecursive(instanceV: Vertex, tracker: Set<string> = new Set<string>()): void {
@@ -337,6 +788,7 @@ export class Document {
         }
 
         tracker.add(instanceV.id);
+        this._transactions.recordRemoval(this._instances.get(instanceV.id));
         for (const outgoing of instanceV.getOutgoing().items()) {
             outgoing.toVertex.removeIncoming(outgoing.label, instanceV.id);
             if (outgoing.toVertex.getIncoming().count() === 0) {
@@ -344,8 +796,10 @@ export class Document {
             }
         }
 
+        const instance = this._instances.get(instanceV.id);
         this._graph.removeVertex(instanceV);
         this._instances.delete(instanceV.id);
+        ChangeNotifier.notifyRemoved(this, instance);
     }
 }
 
@@ -0,0 +1,159 @@
+import BlankNodes from './blankNodes';
+import { ContainerType } from './context';
+import DocumentDiff, { DocumentChange, DocumentChangeType } from './documentDiff';
+import * as identity from './identity';
+import Rdf from './rdf';
+import * as types from './types';
+
+type Statements = Map<string, Map<string, Rdf.Quad[]>>;
+
+export namespace DocumentComparer {
+    /**
+     * @description Compares the statements of two documents.
+     * Blank nodes are matched by their statements rather than their labels, so a blank node whose values changed is reported as
+     * removed and added. Values of @list properties are compared in order, including repeated entries, values of other properties
+     * in any order.
+     * @export
+     * @param {Rdf.Quad[]} source The statements of the document to compare from, with the values of lists in order.
+     * @param {Rdf.Quad[]} target The statements of the document to compare to, with the values of lists in order.
+     * @param {types.Vocabulary} vocabulary The vocabulary of the documents.
+     * @returns {DocumentDiff}
+     */
+    export function compare(source: Rdf.Quad[], target: Rdf.Quad[], vocabulary: types.Vocabulary): DocumentDiff {
+        const sourceStatements = BlankNodes.canonicalize(source);
+        const targetStatements = BlankNodes.canonicalize(target);
+        const sourceIds = idResolver(sourceStatements.labels, vocabulary);
+        const targetIds = idResolver(targetStatements.labels, vocabulary);
+        const sourceGroups = group(sourceStatements.quads);
+        const targetGroups = group(targetStatements.quads);
+        const changes: DocumentChange[] = [];
+
+        for (const [subject, sourceValues] of sourceGroups) {
+            const targetValues = targetGroups.get(subject);
+            if (!targetValues) {
+                changes.push({ type: DocumentChangeType.InstanceRemoved, instanceId: sourceIds(subject) });
+                continue;
+            }
+
+            const instanceId = sourceIds(subject);
+            const predicates = new Set<string>([...sourceValues.keys(), ...targetValues.keys()]);
+            for (const predicate of predicates) {
+                const sourceQuads = sourceValues.get(predicate) || [];
+                const targetQuads = targetValues.get(predicate) || [];
+                const { added, removed } = isList(predicate, vocabulary)
+                    ? compareList(sourceQuads, targetQuads)
+                    : compareSet(sourceQuads, targetQuads);
+
+                for (const quad of removed) {
+                    changes.push(valueChange(false, instanceId, quad, sourceIds, vocabulary));
+                }
+
+                for (const quad of added) {
+                    changes.push(valueChange(true, instanceId, quad, targetIds, vocabulary));
+                }
+            }
+        }
+
+        for (const subject of targetGroups.keys()) {
+            if (!sourceGroups.has(subject)) {
+                changes.push({ type: DocumentChangeType.InstanceAdded, instanceId: targetIds(subject) });
+            }
+        }
+
+        return new DocumentDiff(changes);
+    }
+
+    function compareList(source: Rdf.Quad[], target: Rdf.Quad[]): { added: Rdf.Quad[]; removed: Rdf.Quad[] } {
+        // Entries before the first and after the last difference are unchanged, the entries in between are replaced.
+        const sourceKeys = source.map(x => termKey(x.object));
+        const targetKeys = target.map(x => termKey(x.object));
+        let start = 0;
+        while (start < source.length && start < target.length && sourceKeys[start] === targetKeys[start]) {
+            start += 1;
+        }
+
+        let end = 0;
+        while (end < source.length - start && end < target.length - start && sourceKeys[source.length - 1 - end] === targetKeys[target.length - 1 - end]) {
+            end += 1;
+        }
+
+        return {
+            added: target.slice(start, target.length - end),
+            removed: source.slice(start, source.length - end)
+        };
+    }
+
+    function compareSet(source: Rdf.Quad[], target: Rdf.Quad[]): { added: Rdf.Quad[]; removed: Rdf.Quad[] } {
+        const sourceKeys = source.map(x => termKey(x.object));
+        const targetKeys = target.map(x => termKey(x.object));
+        return {
+            added: target.filter((x, index) => sourceKeys.indexOf(targetKeys[index]) < 0 && targetKeys.indexOf(targetKeys[index]) === index),
+            removed: source.filter((x, index) => targetKeys.indexOf(sourceKeys[index]) < 0 && sourceKeys.indexOf(sourceKeys[index]) === index)
+        };
+    }
+
+    function group(quads: Rdf.Quad[]): Statements {
+        const statements: Statements = new Map();
+        for (const quad of quads) {
+            const subject = termKey(quad.subject);
+            if (!statements.has(subject)) {
+                statements.set(subject, new Map());
+            }
+
+            // Values are kept in the order of the statements, so repeated entries and the positions of list values are retained.
+            const values = statements.get(subject);
+            values.set(quad.predicate.value, [...(values.get(quad.predicate.value) || []), quad]);
+        }
+
+        return statements;
+    }
+
+    function idResolver(labels: Map<string, string>, vocabulary: types.Vocabulary): (key: string) => string {
+        const originalLabels = new Map<string, string>([...labels].map(([label, canonicalLabel]) => [canonicalLabel, label] as [string, string]));
+        return (key: string) => key.startsWith('_:')
+            ? `_:${originalLabels.get(key.substring(2)) || key.substring(2)}`
+            : identity.compact(key, vocabulary.baseIri);
+    }
+
+    function isList(predicate: string, vocabulary: types.Vocabulary): boolean {
+        const propertyId = identity.compact(predicate, vocabulary.baseIri);
+        const property = vocabulary.hasResource(propertyId) ? vocabulary.getProperty(propertyId) : undefined;
+        return !!property && property.container === ContainerType.List;
+    }
+
+    function termKey(term: Rdf.Term): string {
+        if (term.termType === 'Literal') {
+            return JSON.stringify([term.value, term.language || '', term.datatype || '']);
+        }
+
+        return term.termType === 'BlankNode' ? `_:${term.value}` : term.value;
+    }
+
+    function valueChange(
+        added: boolean,
+        instanceId: string,
+        quad: Rdf.Quad,
+        ids: (key: string) => string,
+        vocabulary: types.Vocabulary
+    ): DocumentChange {
+        const reference = quad.object.termType === 'Literal' ? undefined : ids(termKey(quad.object));
+        if (quad.predicate.value === `${Rdf.rdfNamespace}type`) {
+            return { type: added ? DocumentChangeType.ClassAdded : DocumentChangeType.ClassRemoved, instanceId, id: reference };
+        }
+
+        const change: DocumentChange = {
+            type: added ? DocumentChangeType.ValueAdded : DocumentChangeType.ValueRemoved,
+            instanceId,
+            id: identity.compact(quad.predicate.value, vocabulary.baseIri),
+            value: reference === undefined ? Rdf.literalValue(quad.object) : reference
+        };
+
+        if (quad.object.language) {
+            change.language = quad.object.language;
+        }
+
+        return change;
+    }
+}
+
+export default DocumentComparer;
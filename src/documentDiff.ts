@@ -0,0 +1,112 @@
+/**
+ * @description The type of a change between two documents.
+ * @export
+ * @enum {string}
+ */
+export enum DocumentChangeType {
+    ClassAdded = 'ClassAdded',
+    ClassRemoved = 'ClassRemoved',
+    InstanceAdded = 'InstanceAdded',
+    InstanceRemoved = 'InstanceRemoved',
+    ValueAdded = 'ValueAdded',
+    ValueRemoved = 'ValueRemoved'
+}
+
+/**
+ * @description A change between two documents.
+ * @export
+ * @interface DocumentChange
+ */
+export interface DocumentChange {
+    /**
+     * @description The type of the change.
+     * @type {DocumentChangeType}
+     * @memberof DocumentChange
+     */
+    type: DocumentChangeType;
+    /**
+     * @description The id of the added, removed or changed instance.
+     * @type {string}
+     * @memberof DocumentChange
+     */
+    instanceId: string;
+    /**
+     * @description The id of the added or removed class, or of the property whose value was added or removed.
+     * Not set for added and removed instances.
+     * @type {string}
+     * @memberof DocumentChange
+     */
+    id?: string;
+    /**
+     * @description The added or removed value. Literal values are returned as is, references as the id of the referenced instance or class.
+     * @type {*}
+     * @memberof DocumentChange
+     */
+    value?: any;
+    /**
+     * @description The language of the added or removed value, if any.
+     * @type {string}
+     * @memberof DocumentChange
+     */
+    language?: string;
+}
+
+/**
+ * @description Changes between two documents.
+ * @export
+ * @class DocumentDiff
+ */
+export class DocumentDiff {
+    private readonly _changes: DocumentChange[];
+
+    /**
+     * Creates an instance of DocumentDiff.
+     * @param {DocumentChange[]} [changes=[]] The changes between the documents.
+     * @memberof DocumentDiff
+     */
+    constructor(changes: DocumentChange[] = []) {
+        this._changes = changes;
+    }
+
+    /**
+     * @description Gets all changes.
+     * @readonly
+     * @type {DocumentChange[]}
+     * @memberof DocumentDiff
+     */
+    get changes(): DocumentChange[] {
+        return [...this._changes];
+    }
+
+    /**
+     * @description True if no changes were found, else false.
+     * @readonly
+     * @type {boolean}
+     * @memberof DocumentDiff
+     */
+    get identical(): boolean {
+        return this._changes.length === 0;
+    }
+
+    /**
+     * @description Gets the ids of all added, removed and changed instances.
+     * @readonly
+     * @type {string[]}
+     * @memberof DocumentDiff
+     */
+    get instanceIds(): string[] {
+        return [...new Set<string>(this._changes.map(x => x.instanceId))];
+    }
+
+    /**
+     * @description Gets the changes of an instance.
+     * @param {string} instanceId The id of the instance.
+     * @returns {DocumentChange[]}
+     * @memberof DocumentDiff
+     */
+    getChanges(instanceId: string): DocumentChange[] {
+        return this._changes.filter(x => x.instanceId === instanceId);
+    }
+}
+
+export default DocumentDiff;
@@ -191,9 +191,17 @@ export class InstancePropertyValueError extends VocabularyError {
      * @param {string} instanceId The id of the instance that generated the error.
      * @param {string} propertyId The id of the property for which this error occurred.
      * @param {string} details
+     * @param {string} [expectedType] The expected type(s) of the value.
+     * @param {string} [actualType] The actual type of the value.
      * @memberof InstancePropertyValueError
      */
-    constructor(public readonly instanceId: string, public readonly propertyId: string, details: string) {
+    constructor(
+        public readonly instanceId: string,
+        public readonly propertyId: string,
+        details: string,
+        public readonly expectedType?: string,
+        public readonly actualType?: string
+    ) {
         super(`Invalid operation on container property ${propertyId} for instance ${instanceId}. Details: ${details}`);
     }
 }
@@ -232,6 +240,24 @@ export class InstanceTypeMismatchError extends VocabularyError {
     }
 }
 
+/**
+ * @description Error thrown when a JSON Patch operation cannot be applied.
+ * @export
+ * @class JsonPatchError
+ * @extends {VocabularyError}
+ */
+export class JsonPatchError extends VocabularyError {
+    /**
+     * Creates an instance of JsonPatchError.
+     * @param {number} index The index of the operation in the patch.
+     * @param {string} details Details of the error.
+     * @memberof JsonPatchError
+     */
+    constructor(public readonly index: number, public readonly details: string) {
+        super(`JSON Patch operation ${index} cannot be applied: ${details}`);
+    }
+}
+
 /**
  * @description Error thrown when operation on a property expected the term of the property to be defined.
  * @export
@@ -249,6 +275,44 @@ export class PropertyTermNotDefinedError extends VocabularyError {
     }
 }
 
+/**
+ * @description Error thrown when a syntax error is found when parsing a property path.
+ * @export
+ * @class PropertyPathSyntaxError
+ * @extends {VocabularyError}
+ */
+export class PropertyPathSyntaxError extends VocabularyError {
+    /**
+     * Creates an instance of PropertyPathSyntaxError.
+     * @param {string} path The property path being parsed.
+     * @param {number} position The position in the path the error was found at.
+     * @param {string} details Details of the syntax error.
+     * @memberof PropertyPathSyntaxError
+     */
+    constructor(public readonly path: string, public readonly position: number, public readonly details: string) {
+        super(`Property path syntax error at position ${position} of '${path}': ${details}`);
+    }
+}
+
+/**
+ * @description Error thrown when a syntax error is found when parsing an RDF serialization.
+ * @export
+ * @class RdfSyntaxError
+ * @extends {VocabularyError}
+ */
+export class RdfSyntaxError extends VocabularyError {
+    /**
+     * Creates an instance of RdfSyntaxError.
+     * @param {string} format The RDF serialization format being parsed.
+     * @param {number} line The line number the error was found on.
+     * @param {string} details Details of the syntax error.
+     * @memberof RdfSyntaxError
+     */
+    constructor(public readonly format: string, public readonly line: number, public readonly details: string) {
+        super(`${format} syntax error on line ${line}: ${details}`);
+    }
+}
+
 /**
  * @description Error thrown when a resource was not found.
  * @export
@@ -290,6 +354,24 @@ export class ResourceTypeMismatchError extends VocabularyError {
     }
 }
 
+/**
+ * @description Error thrown when a transaction operation is performed in an invalid state.
+ * @export
+ * @class TransactionError
+ * @extends {VocabularyError}
+ */
+export class TransactionError extends VocabularyError {
+    /**
+     * Creates an instance of TransactionError.
+     * @param {string} operation The transaction operation that was performed.
+     * @param {string} details Details of the error.
+     * @memberof TransactionError
+     */
+    constructor(public readonly operation: string, details: string) {
+        super(`Invalid transaction operation ${operation}. Details: ${details}`);
+    }
+}
+
 /**
  * @description Error thrown when a resource type is not supported.
  * @export
@@ -3,14 +3,27 @@ import Vocabulary from './vocabulary';
 
 export default Vocabulary;
 
+export * from './changeEvents';
 export * from './class';
 export * from './containerPropertyValues';
 export * from './context';
 export * from './dataType';
 export * from './document';
+export * from './documentDiff';
 export * from './instance';
 export * from './instanceProperty';
+export * from './jsonPatchOperation';
+export * from './mergeResult';
+export * from './migrationReport';
+export * from './migrator';
 export * from './property';
+export * from './query';
+export * from './shaclValidationReport';
+export * from './shapesGraph';
+export * from './sparqlResults';
+export * from './typings';
+export * from './validationReport';
 export * from './vocabulary';
+export * from './vocabularyDiff';
 export { Errors };
 
@@ -0,0 +1,121 @@
+import JsonldGraph, { JsonldKeywords, Vertex } from 'jsonld-graph';
+import Class from './class';
+import * as identity from './identity';
+import Property from './property';
+import * as types from './types';
+
+export namespace Inference {
+    /**
+     * @description Gets the asserted and RDFS entailed classes of an instance.
+     * Classes are entailed from the ancestors of asserted classes, the domain of properties used by the instance and the range of
+     * properties referencing the instance, including the domains and ranges of super-properties. Properties with several domains
+     * or ranges apply to any of them in the vocabulary model and entail no class.
+     * @export
+     * @param {Vertex} vertex The vertex of the instance.
+     * @param {types.Vocabulary} vocabulary The vocabulary defining the classes and properties of the instance.
+     * @returns {Class[]}
+     */
+    export function getClasses(vertex: Vertex, vocabulary: types.Vocabulary): Class[] {
+        const classes = new Map<string, Class>();
+        const addClass = (classType: Class) => {
+            const classId = identity.expand(classType.id, vocabulary.baseIri);
+            if (!classes.has(classId)) {
+                classes.set(classId, classType);
+            }
+        };
+
+        for (const typeV of vertex.types) {
+            const classType = vocabulary.hasResource(typeV.id) ? vocabulary.getClass(typeV.id) : undefined;
+            if (classType) {
+                addClass(classType);
+            }
+        }
+
+        const outgoingIds = [
+            ...vertex.getOutgoing().filter(x => x.label !== JsonldKeywords.type).map(x => x.label),
+            ...[...vertex.attributes].map(([name]) => name)
+        ];
+
+        for (const property of withAncestors(outgoingIds, vocabulary)) {
+            const domains = property.domains.items();
+            if (domains.length === 1 && domains[0] instanceof Class) {
+                addClass(domains[0] as Class);
+            }
+        }
+
+        const incomingIds = vertex.getIncoming().filter(x => x.label !== JsonldKeywords.type).map(x => x.label).items();
+        for (const property of withAncestors(incomingIds, vocabulary)) {
+            const range = property.range.items();
+            if (range.length === 1 && range[0] instanceof Class) {
+                addClass(range[0]);
+            }
+        }
+
+        for (const classType of [...classes.values()]) {
+            for (const ancestor of classType.ancestors) {
+                addClass(ancestor);
+            }
+        }
+
+        return [...classes.values()];
+    }
+
+    /**
+     * @description Copies vertices into a graph along with their RDFS entailments. Each vertex is typed with all of its
+     * asserted and entailed classes, and values of properties are also asserted for all super-properties of the property.
+     * @export
+     * @param {Iterable<Vertex>} vertices The vertices to copy.
+     * @param {JsonldGraph} graph The graph to copy the vertices to.
+     * @param {types.Vocabulary} vocabulary The vocabulary defining the classes and properties of the vertices.
+     */
+    export function materialize(vertices: Iterable<Vertex>, graph: JsonldGraph, vocabulary: types.Vocabulary): void {
+        for (const vertex of vertices) {
+            const targetV = graph.createVertex(vertex.id);
+            for (const typeV of vertex.types) {
+                targetV.setType(typeV.id);
+            }
+
+            for (const classType of getClasses(vertex, vocabulary)) {
+                targetV.setType(identity.expand(classType.id, vocabulary.baseIri));
+            }
+
+            for (const [name, values] of vertex.attributes) {
+                const names = new Set([name, ...withAncestors([name], vocabulary).map(x => identity.expand(x.id, vocabulary.baseIri))]);
+                for (const attributeName of names) {
+                    for (const { value, language } of values) {
+                        if (!targetV.hasAttributeValue(attributeName, value, language)) {
+                            targetV.addAttributeValue(attributeName, value, language);
+                        }
+                    }
+                }
+            }
+
+            for (const { label, toVertex } of vertex.getOutgoing().filter(x => x.label !== JsonldKeywords.type)) {
+                const labels = new Set([label, ...withAncestors([label], vocabulary).map(x => identity.expand(x.id, vocabulary.baseIri))]);
+                for (const edgeLabel of labels) {
+                    if (!targetV.getOutgoing(edgeLabel).some(x => x.toVertex.id === toVertex.id)) {
+                        targetV.setOutgoing(edgeLabel, toVertex.id, true);
+                    }
+                }
+            }
+        }
+    }
+
+    function withAncestors(propertyIds: Iterable<string>, vocabulary: types.Vocabulary): Property[] {
+        const properties = new Map<string, Property>();
+        for (const propertyId of propertyIds) {
+            const resource = vocabulary.hasResource(propertyId) ? vocabulary.getResource(propertyId) : undefined;
+            if (!(resource instanceof Property)) {
+                continue;
+            }
+
+            for (const property of [resource, ...resource.ancestors]) {
+                properties.set(identity.expand(property.id, vocabulary.baseIri), property);
+            }
+        }
+
+        return [...properties.values()];
+    }
+}
+
+export default Inference;
@@ -1,19 +1,27 @@
 import Iterable from 'jsiterable';
 import { Vertex } from 'jsonld-graph';
 import JsonFormatOptions from 'jsonld-graph/lib/formatOptions';
+import { ChangeEventEmitter } from './changeEvents';
+import ChangeNotifier from './changeNotifier';
 import Class from './class';
+import ContainerPropertyValues from './containerPropertyValues';
+import { ContainerType } from './context';
 import * as errors from './errors';
 import * as identity from './identity';
+import Inference from './inference';
 import InstanceProperty from './instanceProperty';
 import Property from './property';
+import PropertyPath from './propertyPath';
 import * as types from './types';
+import ValidationReport from './validationReport';
+import Validator from './validator';
 
 /**
  * @description Represents an vocabulary class instance.
  * @export
  * @class Instance
  */
-export class Instance {
+export class Instance extends ChangeEventEmitter {
     private readonly _instanceProvider: types.InstanceProvider;
     private readonly _classes = new Map<string, Class>();
     private readonly _properties = new Map<string, InstanceProperty>();
@@ -29,6 +37,7 @@ export class Instance {
         public readonly vocabulary: types.Vocabulary,
         instanceProvider: types.InstanceProvider
     ) {
+        super();
         if (!vertex) {
             throw new ReferenceError(`Invalid vertex. vertex is ${vertex}`);
         }
@@ -84,6 +93,17 @@ export class Instance {
         return new Iterable(this._classes).map(x => x[1]);
     }
 
+    /**
+     * @description Gets the asserted classes of the instance along with the classes entailed by the RDFS semantics of the
+     * vocabulary: ancestors of the asserted classes, domains of the properties of the instance and ranges of properties referencing it.
+     * @readonly
+     * @type {Iterable<Class>}
+     * @memberof Instance
+     */
+    get inferredClasses(): Iterable<Class> {
+        return new Iterable(Inference.getClasses(this.vertex, this.vocabulary));
+    }
+
     /**
      * @description Gets all properties in the instance.
      * @readonly
@@ -167,6 +187,51 @@ export class Instance {
             .map(({ fromVertex }) => this._instanceProvider.getInstance(fromVertex.id));
     }
 
+    /**
+     * @description Gets the values and references of a property of the instance.
+     * @param {(string | Property)} propertyReference The property id or property reference whose values should be retrieved.
+     * @param {boolean} [includeSubProperties=false] True to include values asserted through descendant properties of the property.
+     * @returns {Iterable<any>} The values of the property followed by the instances or classes it references.
+     * @memberof Instance
+     */
+    getValues(propertyReference: string | Property, includeSubProperties: boolean = false): Iterable<any> {
+        if (!propertyReference) {
+            throw new ReferenceError(`Invalid property. property is '${propertyReference}'`);
+        }
+
+        const property =
+            typeof propertyReference === 'string' ? this.vocabulary.getProperty(propertyReference) : propertyReference;
+        if (!property) {
+            throw new errors.ResourceNotFoundError(propertyReference as string, 'Property');
+        }
+
+        // tslint:disable-next-line:no-this-assignment
+        const that = this;
+        const properties = includeSubProperties ? [property, ...property.descendants] : [property];
+        return new Iterable((function* propertyValues() {
+            const visited = new Set<string>();
+            for (const valueProperty of properties) {
+                const propertyId = identity.expand(valueProperty.id, that.vocabulary.baseIri);
+                if (visited.has(propertyId)) {
+                    continue;
+                }
+
+                visited.add(propertyId);
+                for (const attributeValue of that.vertex.getAttributeValues<any>(propertyId)) {
+                    // Values of language containers keep their language, as when iterating the container.
+                    yield valueProperty.container === ContainerType.Language ? attributeValue : attributeValue.value;
+                }
+
+                for (const { toVertex } of that.vertex.getOutgoing(propertyId)) {
+                    const reference = that.vocabulary.getEntity(toVertex.id) || that._instanceProvider.getInstance(toVertex.id);
+                    if (reference) {
+                        yield reference;
+                    }
+                }
+            }
+        })());
+    }
+
     /**
      * @description Checks of a property exists on the instance.
      * @param {string} id The id of the property to check.
@@ -184,10 +249,15 @@ export class Instance {
     /**
      * @description Checks if the instance is the type of a class.
      * @param {(string | Class)} classReference The class id or class reference to check.
+     * @param {boolean} [inferred] True to also check the inferred classes of the instance. Defaults to the inference mode of the
+     * document or vocabulary containing the instance.
      * @returns {boolean} True if the instance is an instance of the specified class, else false.
      * @memberof Instance
      */
-    isInstanceOf<T extends Instance = Instance>(classReference: string | Class): this is T {
+    isInstanceOf<T extends Instance = Instance>(
+        classReference: string | Class,
+        inferred: boolean = !!this._instanceProvider.inference
+    ): this is T {
         if (!classReference) {
             throw new ReferenceError(`Invalid classType. classType is '${classReference}'`);
         }
@@ -197,6 +267,10 @@ export class Instance {
                 ? identity.expand(classReference, this.vocabulary.baseIri)
                 : identity.expand(classReference.id, this.vocabulary.baseIri);
 
+        if (inferred && this.inferredClasses.some(x => identity.expand(x.id, this.vocabulary.baseIri) === classId)) {
+            return true;
+        }
+
         return this._classes.has(classId) || this.classes.map(x => x.isDescendantOf(classId)).some(x => x);
     }
 
@@ -220,7 +294,7 @@ export class Instance {
             throw new errors.ResourceTypeMismatchError(classType.id, 'Class', classType.type);
         }
 
-        if (!this.isInstanceOf(classType)) {
+        if (!this.isInstanceOf(classType, false)) {
             return;
         }
 
@@ -234,15 +308,44 @@ export class Instance {
         for (const classProperty of classType.properties) {
             const propertyId = identity.expand(classProperty.id, this.vocabulary.baseIri);
             if (!this.classes.some(x => x.hasProperty(classProperty))) {
+                // Values are cleared through the instance property so the changes are observable.
+                const instanceProperty = this._properties.get(propertyId);
+                const value = instanceProperty ? instanceProperty.value : undefined;
+                if (value instanceof ContainerPropertyValues) {
+                    if (value.count > 0) {
+                        value.clear();
+                    }
+                } else if (value !== undefined && value !== null) {
+                    instanceProperty.value = null;
+                }
+
                 this.vertex.removeOutgoing(propertyId);
                 this.vertex.deleteAttribute(propertyId);
                 this._properties.delete(propertyId);
             }
         }
 
+        ChangeNotifier.notify(this._instanceProvider, this.id, 'classRemoved', classType);
         return this;
     }
 
+    /**
+     * @description Resolves a property path from the instance, such as 'department/^department' or '(manager|project)+'.
+     * Steps are context terms, or property ids enclosed in angle brackets. Steps are separated by '/' and alternatives by '|',
+     * '^' follows references to the instance, '*' and '+' repeat a step zero or more and one or more times.
+     * @template T The type of the reached instances or values.
+     * @param {string} path The property path to resolve.
+     * @returns {Iterable<T>} The distinct instances, classes and values reached through the path.
+     * @memberof Instance
+     */
+    resolvePath<T = any>(path: string): Iterable<T> {
+        if (!path) {
+            throw new ReferenceError(`Invalid path. path is '${path}'`);
+        }
+
+        return new Iterable(PropertyPath.resolve(this, path));
+    }
+
     /**
      * @description Sets the class type of an instance.
      * @param {(string | Class)} classReference The class type of the instance.
@@ -267,6 +370,8 @@ export class Instance {
 
         const classId = identity.expand(classType.id, this.vocabulary.baseIri);
         if (!this._classes.has(classId) && !this.classes.map(x => x.isDescendantOf(classId)).some(x => x)) {
+            // Classes of loaded instances are already asserted by the vertex and are not changes to the instance.
+            const asserted = this.vertex.isType(classId);
             this.vertex.setType(identity.expand(classType.id, this.vocabulary.baseIri));
             this._classes.set(identity.expand(classType.id, this.vocabulary.baseIri), classType);
             for (const property of classType.properties) {
@@ -281,6 +386,10 @@ export class Instance {
                     this._properties.set(propertyId, instanceProperty);
                 }
             }
+
+            if (!asserted) {
+                ChangeNotifier.notify(this._instanceProvider, this.id, 'classAdded', classType);
+            }
         }
 
 
@@ -298,6 +407,15 @@ export class Instance {
         return this.vertex.toJson(options);
     }
 
+    /**
+     * @description Validates the values of all properties of the instance against the range and cardinality of each property.
+     * @returns {ValidationReport} Report of all violations found in the instance.
+     * @memberof Instance
+     */
+    validate(): ValidationReport {
+        return Validator.validateInstance(this);
+    }
+
     /**
      * Checks if an instance is type or descendant of a class.
      *
@@ -1,12 +1,18 @@
+import Iterable from 'jsiterable';
 import { Vertex } from 'jsonld-graph';
+import ChangeNotifier from './changeNotifier';
 import Class from './class';
 import ContainerPropertyValues from './containerPropertyValues';
 import { ContainerType, ValueType } from './context';
+import DataType from './dataType';
 import * as errors from './errors';
 import * as identity from './identity';
 import Instance from './instance';
+import InverseProperties from './inverseProperties';
 import Property from './property';
+import Resource from './resource';
 import * as types from './types';
+import Validator from './validator';
 
 export class InstanceProperty {
     private readonly _vertex: Vertex;
@@ -77,6 +83,16 @@ export class InstanceProperty {
         return this._property.label;
     }
 
+    /**
+     * @description Gets the range of types applicable for the property.
+     * @readonly
+     * @type {(Iterable<Resource | DataType>)}
+     * @memberof InstanceProperty
+     */
+    get range(): Iterable<Resource | DataType> {
+        return this._property.range;
+    }
+
     /**
      * @description Gets the associated context term.
      * @readonly
@@ -135,6 +151,18 @@ export class InstanceProperty {
      * @memberof InstanceProperty
      */
     set value(value: any) {
+        const previousValue = this.value;
+        this._setValue(value);
+        ChangeNotifier.notify(
+            this._instanceProvider,
+            identity.compact(this._vertex.id, this._vocabulary.baseIri),
+            'propertyValueChanged',
+            this._property,
+            previousValue
+        );
+    }
+
+    private _setValue(value: any): void {
         if (this._property.container) {
             throw new errors.InstancePropertyValueError(
                 identity.compact(this._vertex.id, this._vocabulary.baseIri),
@@ -143,44 +171,27 @@ export class InstanceProperty {
             );
         }
 
-        this._vertex.removeOutgoing(this._normalizedId);
-        this._vertex.deleteAttribute(this._normalizedId);
-        if (value === null || value === undefined) {
-            return;
-        }
-
-        if (
-            (this._property.valueType === ValueType.Id || this._property.valueType === ValueType.Vocab) &&
-            (!(value instanceof Instance) && !(value instanceof Class))
-        ) {
-            throw new errors.InstancePropertyValueError(
-                identity.compact(this._vertex.id, this._vocabulary.baseIri),
-                this._property.id,
-                'Value for @id or @vocab properties MUST be a valid Instance or Class reference'
-            );
-        }
-
-        switch (typeof value) {
-            case 'bigint':
-            case 'boolean':
-            case 'number':
-            case 'string': {
-                this._vertex.replaceAttributeValue(this._normalizedId, value);
-                break;
+        if (value !== null && value !== undefined) {
+            // All checks are made before the graph is changed, so the previous value is kept when the value is rejected.
+            if (this._instanceProvider.strict) {
+                Validator.assertInRange(
+                    identity.compact(this._vertex.id, this._vocabulary.baseIri),
+                    this._property.id,
+                    this._property.range,
+                    value
+                );
             }
-            case 'object': {
-                if (value instanceof Instance || value instanceof Class) {
-                    this._vertex.setOutgoing(this._normalizedId, identity.expand(value.id, this._vocabulary.baseIri), true);
-                    return;
-                } else {
-                    throw new errors.InstancePropertyValueError(
-                        identity.compact(this._vertex.id, this._vocabulary.baseIri),
-                        this._property.id,
-                        `Value of type ${typeof value} is not supported.`
-                    );
-                }
+
+            const isReference = value instanceof Instance || value instanceof Class;
+            if ((this._property.valueType === ValueType.Id || this._property.valueType === ValueType.Vocab) && !isReference) {
+                throw new errors.InstancePropertyValueError(
+                    identity.compact(this._vertex.id, this._vocabulary.baseIri),
+                    this._property.id,
+                    'Value for @id or @vocab properties MUST be a valid Instance or Class reference'
+                );
             }
-            default: {
+
+            if (!isReference && ['bigint', 'boolean', 'number', 'string'].indexOf(typeof value) < 0) {
                 throw new errors.InstancePropertyValueError(
                     identity.compact(this._vertex.id, this._vocabulary.baseIri),
                     this._property.id,
@@ -188,6 +199,24 @@ export class InstanceProperty {
                 );
             }
         }
+
+        for (const { toVertex } of this._vertex.getOutgoing(this._normalizedId).items()) {
+            InverseProperties.unlink(this._vertex, this._property, toVertex.id, this._vocabulary, this._instanceProvider);
+        }
+
+        this._vertex.removeOutgoing(this._normalizedId);
+        this._vertex.deleteAttribute(this._normalizedId);
+        if (value === null || value === undefined) {
+            return;
+        }
+
+        if (value instanceof Instance || value instanceof Class) {
+            const referenceId = identity.expand(value.id, this._vocabulary.baseIri);
+            this._vertex.setOutgoing(this._normalizedId, referenceId, true);
+            InverseProperties.link(this._vertex, this._property, referenceId, this._vocabulary, this._instanceProvider);
+        } else {
+            this._vertex.replaceAttributeValue(this._normalizedId, value);
+        }
     }
 }
 
@@ -0,0 +1,112 @@
+import { Vertex } from 'jsonld-graph';
+import ChangeNotifier from './changeNotifier';
+import * as identity from './identity';
+import Property from './property';
+import * as types from './types';
+
+export namespace InverseProperties {
+    /**
+     * @description Asserts the inverse of a reference from an instance to another instance.
+     * When the inverse property is not a container, the previous value of the inverse property is replaced and the reference
+     * from the instance it was the inverse of is removed. propertyValueChanged is raised for each instance changed on the inverse side.
+     * @export
+     * @param {Vertex} vertex The vertex of the instance the reference is from.
+     * @param {Property} property The property of the reference.
+     * @param {string} referenceId The expanded id of the referenced instance.
+     * @param {types.Vocabulary} vocabulary The vocabulary defining the property.
+     * @param {types.InstanceProvider} instanceProvider The vocabulary or document containing the instances.
+     */
+    export function link(
+        vertex: Vertex,
+        property: Property,
+        referenceId: string,
+        vocabulary: types.Vocabulary,
+        instanceProvider: types.InstanceProvider
+    ): void {
+        const inverse = property.inverseOf;
+        const referenceV = getReferenceVertex(vertex, property, referenceId, vocabulary);
+        const inverseId = inverse ? identity.expand(inverse.id, vocabulary.baseIri) : undefined;
+        if (!inverse || !referenceV || referenceV.getOutgoing(inverseId).some(x => x.toVertex.id === vertex.id)) {
+            return;
+        }
+
+        const propertyId = identity.expand(property.id, vocabulary.baseIri);
+        const previousValue = getValue(referenceV, inverse, vocabulary, instanceProvider);
+        if (!inverse.container) {
+            for (const { toVertex } of referenceV.getOutgoing(inverseId).items()) {
+                const displacedValue = getValue(toVertex, property, vocabulary, instanceProvider);
+                toVertex.removeOutgoing(propertyId, referenceV.id);
+                referenceV.removeOutgoing(inverseId, toVertex.id);
+                notifyChanged(toVertex, property, displacedValue, vocabulary, instanceProvider);
+            }
+        }
+
+        referenceV.setOutgoing(inverseId, vertex.id);
+        notifyChanged(referenceV, inverse, previousValue, vocabulary, instanceProvider);
+    }
+
+    /**
+     * @description Retracts the inverse of a reference from an instance to another instance.
+     * propertyValueChanged is raised for the referenced instance when its inverse property changes.
+     * @export
+     * @param {Vertex} vertex The vertex of the instance the reference is from.
+     * @param {Property} property The property of the reference.
+     * @param {string} referenceId The expanded id of the referenced instance.
+     * @param {types.Vocabulary} vocabulary The vocabulary defining the property.
+     * @param {types.InstanceProvider} instanceProvider The vocabulary or document containing the instances.
+     */
+    export function unlink(
+        vertex: Vertex,
+        property: Property,
+        referenceId: string,
+        vocabulary: types.Vocabulary,
+        instanceProvider: types.InstanceProvider
+    ): void {
+        const inverse = property.inverseOf;
+        const referenceV = getReferenceVertex(vertex, property, referenceId, vocabulary);
+        const inverseId = inverse ? identity.expand(inverse.id, vocabulary.baseIri) : undefined;
+        if (!inverse || !referenceV || !referenceV.getOutgoing(inverseId).some(x => x.toVertex.id === vertex.id)) {
+            return;
+        }
+
+        const previousValue = getValue(referenceV, inverse, vocabulary, instanceProvider);
+        referenceV.removeOutgoing(inverseId, vertex.id);
+        notifyChanged(referenceV, inverse, previousValue, vocabulary, instanceProvider);
+    }
+
+    function getReferenceVertex(vertex: Vertex, property: Property, referenceId: string, vocabulary: types.Vocabulary): Vertex {
+        if (vocabulary.hasResource(referenceId)) {
+            // References to classes are not instance relationships.
+            return undefined;
+        }
+
+        const reference = vertex
+            .getOutgoing(identity.expand(property.id, vocabulary.baseIri))
+            .first(({ toVertex }) => toVertex.id === referenceId);
+
+        return reference ? reference.toVertex : undefined;
+    }
+
+    function getValue(vertex: Vertex, property: Property, vocabulary: types.Vocabulary, instanceProvider: types.InstanceProvider): any {
+        // Properties with an inverse are object properties, so their values are references only.
+        const references = vertex
+            .getOutgoing(identity.expand(property.id, vocabulary.baseIri))
+            .map(({ toVertex }) => vocabulary.getInstance(toVertex.id) || instanceProvider.getInstance(toVertex.id))
+            .filter(x => !!x)
+            .items();
+
+        return property.container ? references : references[0];
+    }
+
+    function notifyChanged(
+        vertex: Vertex,
+        property: Property,
+        previousValue: any,
+        vocabulary: types.Vocabulary,
+        instanceProvider: types.InstanceProvider
+    ): void {
+        ChangeNotifier.notify(instanceProvider, identity.compact(vertex.id, vocabulary.baseIri), 'propertyValueChanged', property, previousValue);
+    }
+}
+
+export default InverseProperties;
@@ -0,0 +1,220 @@
+import * as errors from './errors';
+import { JsonPatchOperation } from './jsonPatchOperation';
+
+export namespace JsonPatch {
+    /**
+     * @description Gets the JSON Patch operations that change a JSON document into another.
+     * Nodes of arrays in which all items have an @id are matched by their @id rather than their position.
+     * @export
+     * @param {*} source The document to change.
+     * @param {*} target The changed document.
+     * @returns {JsonPatchOperation[]}
+     */
+    export function diff(source: any, target: any): JsonPatchOperation[] {
+        const operations: JsonPatchOperation[] = [];
+        diffValues(source, target, '', operations);
+        return operations;
+    }
+
+    /**
+     * @description Applies JSON Patch operations to a copy of a JSON document.
+     * @export
+     * @param {*} document The document to apply the operations to. The document is not modified.
+     * @param {JsonPatchOperation[]} operations The operations to apply.
+     * @returns {*} The patched document.
+     */
+    export function apply(document: any, operations: JsonPatchOperation[]): any {
+        let result = clone(document);
+        operations.forEach((operation, index) => {
+            const fail = (details: string) => new errors.JsonPatchError(index, details);
+            switch (operation.op) {
+                case 'add':
+                    result = add(result, parsePointer(operation.path, fail), clone(operation.value), fail);
+                    break;
+                case 'remove':
+                    remove(result, parsePointer(operation.path, fail), fail);
+                    break;
+                case 'replace': {
+                    const path = parsePointer(operation.path, fail);
+                    if (path.length === 0) {
+                        result = clone(operation.value);
+                    } else {
+                        remove(result, path, fail);
+                        result = add(result, path, clone(operation.value), fail);
+                    }
+                    break;
+                }
+                case 'move': {
+                    const from = parsePointer(operation.from, fail);
+                    const value = get(result, from, fail);
+                    remove(result, from, fail);
+                    result = add(result, parsePointer(operation.path, fail), value, fail);
+                    break;
+                }
+                case 'copy': {
+                    const value = clone(get(result, parsePointer(operation.from, fail), fail));
+                    result = add(result, parsePointer(operation.path, fail), value, fail);
+                    break;
+                }
+                case 'test':
+                    if (!equal(get(result, parsePointer(operation.path, fail), fail), operation.value)) {
+                        throw fail(`Value at '${operation.path}' does not match the tested value`);
+                    }
+                    break;
+                default:
+                    throw fail(`Unsupported operation '${(operation as any).op}'`);
+            }
+        });
+
+        return result;
+    }
+
+    function add(document: any, path: string[], value: any, fail: (details: string) => Error): any {
+        if (path.length === 0) {
+            return value;
+        }
+
+        const parent = get(document, path.slice(0, -1), fail);
+        const key = path[path.length - 1];
+        if (Array.isArray(parent)) {
+            const index = key === '-' ? parent.length : toIndex(key, parent.length, fail);
+            parent.splice(index, 0, value);
+        } else if (isObject(parent)) {
+            parent[key] = value;
+        } else {
+            throw fail(`Cannot add '${key}' to a value that is not an object or array`);
+        }
+
+        return document;
+    }
+
+    function clone(value: any): any {
+        return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+    }
+
+    function diffValues(source: any, target: any, path: string, operations: JsonPatchOperation[]): void {
+        if (equal(source, target)) {
+            return;
+        }
+
+        if (Array.isArray(source) && Array.isArray(target)) {
+            if ([...source, ...target].every(x => isObject(x) && typeof x['@id'] === 'string')) {
+                diffNodes(source, target, path, operations);
+                return;
+            }
+
+            const common = Math.min(source.length, target.length);
+            for (let i = 0; i < common; i += 1) {
+                diffValues(source[i], target[i], `${path}/${i}`, operations);
+            }
+
+            for (let i = source.length - 1; i >= common; i -= 1) {
+                operations.push({ op: 'remove', path: `${path}/${i}` });
+            }
+
+            for (let i = common; i < target.length; i += 1) {
+                operations.push({ op: 'add', path: `${path}/${i}`, value: clone(target[i]) });
+            }
+
+            return;
+        }
+
+        if (isObject(source) && isObject(target)) {
+            for (const key of Object.keys(source)) {
+                const keyPath = `${path}/${escapePointer(key)}`;
+                if (!(key in target)) {
+                    operations.push({ op: 'remove', path: keyPath });
+                } else {
+                    diffValues(source[key], target[key], keyPath, operations);
+                }
+            }
+
+            for (const key of Object.keys(target).filter(x => !(x in source))) {
+                operations.push({ op: 'add', path: `${path}/${escapePointer(key)}`, value: clone(target[key]) });
+            }
+
+            return;
+        }
+
+        operations.push({ op: 'replace', path, value: clone(target) });
+    }
+
+    function diffNodes(source: any[], target: any[], path: string, operations: JsonPatchOperation[]): void {
+        const targetNodes = new Map<string, any>(target.map(x => [x['@id'], x] as [string, any]));
+        const sourceIds = new Set<string>(source.map(x => x['@id']));
+        for (let i = source.length - 1; i >= 0; i -= 1) {
+            if (!targetNodes.has(source[i]['@id'])) {
+                operations.push({ op: 'remove', path: `${path}/${i}` });
+            }
+        }
+
+        source
+            .filter(x => targetNodes.has(x['@id']))
+            .forEach((node, index) => diffValues(node, targetNodes.get(node['@id']), `${path}/${index}`, operations));
+
+        for (const node of target.filter(x => !sourceIds.has(x['@id']))) {
+            operations.push({ op: 'add', path: `${path}/-`, value: clone(node) });
+        }
+    }
+
+    function equal(x: any, y: any): boolean {
+        return JSON.stringify(x) === JSON.stringify(y);
+    }
+
+    function escapePointer(key: string): string {
+        return key.replace(/~/g, '~0').replace(/\//g, '~1');
+    }
+
+    function get(document: any, path: string[], fail: (details: string) => Error): any {
+        let value = document;
+        for (const key of path) {
+            if (Array.isArray(value)) {
+                value = value[toIndex(key, value.length - 1, fail)];
+            } else if (isObject(value) && key in value) {
+                value = value[key];
+            } else {
+                throw fail(`Path '/${path.map(escapePointer).join('/')}' does not exist`);
+            }
+        }
+
+        return value;
+    }
+
+    function isObject(value: any): boolean {
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    function parsePointer(pointer: string, fail: (details: string) => Error): string[] {
+        if (pointer === undefined || pointer === null || (pointer !== '' && !pointer.startsWith('/'))) {
+            throw fail(`Invalid JSON Pointer '${pointer}'`);
+        }
+
+        return pointer === '' ? [] : pointer.substring(1).split('/').map(x => x.replace(/~1/g, '/').replace(/~0/g, '~'));
+    }
+
+    function remove(document: any, path: string[], fail: (details: string) => Error): void {
+        if (path.length === 0) {
+            throw fail('Cannot remove the whole document');
+        }
+
+        const parent = get(document, path.slice(0, -1), fail);
+        const key = path[path.length - 1];
+        if (Array.isArray(parent)) {
+            parent.splice(toIndex(key, parent.length - 1, fail), 1);
+        } else if (isObject(parent) && key in parent) {
+            delete parent[key];
+        } else {
+            throw fail(`Path '/${path.map(escapePointer).join('/')}' does not exist`);
+        }
+    }
+
+    function toIndex(key: string, max: number, fail: (details: string) => Error): number {
+        if (!/^(0|[1-9][0-9]*)$/.test(key) || Number(key) > max) {
+            throw fail(`Invalid array index '${key}'`);
+        }
+
+        return Number(key);
+    }
+}
+
+export default JsonPatch;
@@ -0,0 +1,31 @@
+/**
+ * @description An operation of a JSON Patch (RFC 6902) document.
+ * @export
+ * @interface JsonPatchOperation
+ */
+export interface JsonPatchOperation {
+    /**
+     * @description The operation to perform.
+     * @type {('add' | 'remove' | 'replace' | 'move' | 'copy' | 'test')}
+     * @memberof JsonPatchOperation
+     */
+    op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+    /**
+     * @description The JSON Pointer of the target location of the operation.
+     * @type {string}
+     * @memberof JsonPatchOperation
+     */
+    path: string;
+    /**
+     * @description The JSON Pointer of the source location of move and copy operations.
+     * @type {string}
+     * @memberof JsonPatchOperation
+     */
+    from?: string;
+    /**
+     * @description The value of add, replace and test operations.
+     * @type {*}
+     * @memberof JsonPatchOperation
+     */
+    value?: any;
+}
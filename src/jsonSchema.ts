@@ -0,0 +1,225 @@
+import Class, { Cardinality } from './class';
+import { ContainerType, ValueType } from './context';
+import DataType from './dataType';
+import * as identity from './identity';
+import Property from './property';
+import Vocabulary from './types';
+
+export namespace JsonSchema {
+    /**
+     * @description The JSON schema dialect of generated schemas.
+     */
+    export const schemaUri = 'https://json-schema.org/draft/2020-12/schema';
+
+    const dataTypeSchemas: { [id: string]: any } = {
+        'xsd:anyURI': { type: 'string', format: 'uri' },
+        'xsd:boolean': { type: 'boolean' },
+        'xsd:date': { type: 'string', format: 'date' },
+        'xsd:dateTime': { type: 'string', format: 'date-time' },
+        'xsd:decimal': { type: 'number' },
+        'xsd:double': { type: 'number' },
+        'xsd:duration': { type: 'string', format: 'duration' },
+        'xsd:float': { type: 'number' },
+        'xsd:int': { type: 'integer' },
+        'xsd:integer': { type: 'integer' },
+        'xsd:long': { type: 'integer' },
+        'xsd:short': { type: 'integer' },
+        'xsd:time': { type: 'string', format: 'time' }
+    };
+
+    /**
+     * @description Generates a JSON schema for the compacted JSON-LD form of instances of a class.
+     * @export
+     * @param {Class} classType The class to generate the schema for.
+     * @param {Vocabulary} vocabulary The vocabulary of the class.
+     * @returns {*} The JSON schema, with definitions for the class and all classes it references.
+     */
+    export function generate(classType: Class, vocabulary: Vocabulary): any {
+        const definitions = {};
+        const pending = [classType];
+        while (pending.length > 0) {
+            const current = pending.pop();
+            if (!definitions[current.id]) {
+                definitions[current.id] = createClassSchema(current, vocabulary);
+                pending.push(...getReferencedClasses(current));
+            }
+        }
+
+        return {
+            $schema: schemaUri,
+            $id: identity.expand(classType.id, vocabulary.baseIri).replace('vocab:', vocabulary.baseIri),
+            $ref: getRef(classType),
+            $defs: definitions
+        };
+    }
+
+    /**
+     * @description Generates a JSON schema with definitions for the compacted JSON-LD form of instances of each class in a vocabulary.
+     * @export
+     * @param {Vocabulary} vocabulary The vocabulary to generate the schema for.
+     * @returns {*} The JSON schema.
+     */
+    export function generateAll(vocabulary: Vocabulary): any {
+        const definitions = {};
+        for (const classType of vocabulary.classes) {
+            definitions[classType.id] = createClassSchema(classType, vocabulary);
+        }
+
+        return {
+            $schema: schemaUri,
+            $id: vocabulary.baseIri,
+            $defs: definitions
+        };
+    }
+
+    function createClassSchema(classType: Class, vocabulary: Vocabulary): any {
+        const schema: any = {
+            type: 'object'
+        };
+
+        if (classType.label) {
+            schema.title = classType.label;
+        }
+
+        if (classType.comment) {
+            schema.description = classType.comment;
+        }
+
+        const parents = classType.parentClasses.filter(x => !!x).items();
+        if (parents.length > 0) {
+            schema.allOf = parents.map(parent => ({ $ref: getRef(parent) }));
+        }
+
+        schema.properties = {
+            '@context': {},
+            '@id': { type: 'string' },
+            '@type': {
+                anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }]
+            }
+        };
+
+        const required: string[] = [];
+        const tracker = new Set<string>();
+        for (const property of classType.properties) {
+            // Inherited properties are described by the parent schemas unless constrained by this class.
+            if (
+                !property ||
+                tracker.has(property.id) ||
+                (!classType.ownProperties.some(x => x.id === property.id) && !classType.getCardinality(property, false))
+            ) {
+                continue;
+            }
+
+            tracker.add(property.id);
+            const resolved = vocabulary.context.resolveTerm(property.id);
+            const key = resolved ? resolved.term : property.id;
+            const cardinality = classType.getCardinality(property) || {};
+            schema.properties[key] = createPropertySchema(
+                property,
+                resolved ? resolved.definition.type : undefined,
+                resolved ? resolved.definition.container : undefined,
+                cardinality
+            );
+
+            if (cardinality.minCount > 0) {
+                required.push(key);
+            }
+        }
+
+        if (required.length > 0) {
+            schema.required = required;
+        }
+
+        return schema;
+    }
+
+    function createPropertySchema(
+        property: Property,
+        type: string,
+        container: ContainerType,
+        cardinality: Cardinality
+    ): any {
+        const valueSchema = createValueSchema(property, type);
+        let schema: any;
+        switch (container) {
+            case ContainerType.List:
+            case ContainerType.Set:
+                schema = { type: 'array', items: valueSchema };
+                if (cardinality.minCount !== undefined) {
+                    schema.minItems = cardinality.minCount;
+                }
+
+                if (cardinality.maxCount !== undefined) {
+                    schema.maxItems = cardinality.maxCount;
+                }
+
+                break;
+            case ContainerType.Language:
+                schema = { type: 'object', additionalProperties: { type: 'string' } };
+                break;
+            case ContainerType.Id:
+            case ContainerType.Index:
+            case ContainerType.Type:
+                schema = { type: 'object', additionalProperties: valueSchema };
+                break;
+            default:
+                // Compaction produces an array when a property without a container has multiple values.
+                schema =
+                    cardinality.maxCount === 1
+                        ? valueSchema
+                        : { anyOf: [valueSchema, { type: 'array', items: valueSchema }] };
+        }
+
+        if (property.label) {
+            schema.title = property.label;
+        }
+
+        if (property.comment) {
+            schema.description = property.comment;
+        }
+
+        return schema;
+    }
+
+    function createValueSchema(property: Property, type: string): any {
+        const rangeSchemas = property.range
+            .filter(range => !!range)
+            .map(range => {
+                if (range instanceof DataType) {
+                    return { ...(dataTypeSchemas[range.id] || { type: 'string' }) };
+                } else if (range instanceof Class) {
+                    return type === ValueType.Id || type === ValueType.Vocab
+                        ? { anyOf: [{ type: 'string' }, { $ref: getRef(range) }] }
+                        : { $ref: getRef(range) };
+                } else {
+                    return {};
+                }
+            })
+            .items();
+
+        if (rangeSchemas.length === 0) {
+            return {};
+        } else if (rangeSchemas.length === 1) {
+            return rangeSchemas[0];
+        } else {
+            return { anyOf: rangeSchemas };
+        }
+    }
+
+    function getReferencedClasses(classType: Class): Class[] {
+        const referenced = classType.parentClasses.filter(x => !!x).items();
+        for (const property of classType.properties) {
+            if (property) {
+                referenced.push(...property.range.filter(x => x instanceof Class).map(x => x as Class));
+            }
+        }
+
+        return referenced;
+    }
+
+    function getRef(classType: Class): string {
+        return `#/$defs/${classType.id.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    }
+}
+
+export default JsonSchema;
@@ -0,0 +1,168 @@
+import * as identity from './identity';
+import Rdf from './rdf';
+import * as types from './types';
+
+type Statements = Map<string, Map<string, Map<string, Rdf.Quad>>>;
+type Values = Map<string, Rdf.Quad>;
+
+export namespace Merge {
+    /**
+     * @description A conflict found when merging statements.
+     * @export
+     * @interface Conflict
+     */
+    export interface Conflict {
+        instanceId: string;
+        propertyId?: string;
+    }
+
+    /**
+     * @description Merges the changes made to the statements of a base document by two documents.
+     * Instances and the values of non container properties are merged as a whole, while types and container entries are merged
+     * entry by entry. Changes made differently on both sides are resolved with our change and reported as conflicts.
+     * Blank nodes are matched by their labels.
+     * @export
+     * @param {Rdf.Quad[]} base The statements of the base document.
+     * @param {Rdf.Quad[]} ours The statements of our document.
+     * @param {Rdf.Quad[]} theirs The statements of their document.
+     * @param {types.Vocabulary} vocabulary The vocabulary of the documents.
+     * @returns {{ quads: Rdf.Quad[]; conflicts: Conflict[] }} The merged statements and the conflicts found.
+     */
+    export function merge(
+        base: Rdf.Quad[],
+        ours: Rdf.Quad[],
+        theirs: Rdf.Quad[],
+        vocabulary: types.Vocabulary
+    ): { quads: Rdf.Quad[]; conflicts: Conflict[] } {
+        const [baseStatements, ourStatements, theirStatements] = [base, ours, theirs].map(group);
+        const subjects = new Set<string>([...baseStatements.keys(), ...ourStatements.keys(), ...theirStatements.keys()]);
+        const merged: Statements = new Map();
+        const conflicts: Conflict[] = [];
+
+        for (const subject of subjects) {
+            const baseValues = baseStatements.get(subject);
+            const ourValues = ourStatements.get(subject);
+            const theirValues = theirStatements.get(subject);
+            const instanceId = toId(subject, vocabulary);
+            if (!ourValues || !theirValues) {
+                // Removed on one side, or on both. Removing an instance changed on the other side is a conflict.
+                const remaining = ourValues || theirValues;
+                if (remaining && baseValues && !sameStatements(baseValues, remaining)) {
+                    conflicts.push({ instanceId });
+                    if (ourValues) {
+                        merged.set(subject, ourValues);
+                    }
+                } else if (remaining && !baseValues) {
+                    merged.set(subject, remaining);
+                }
+
+                continue;
+            }
+
+            const predicates = new Set<string>([...(baseValues ? baseValues.keys() : []), ...ourValues.keys(), ...theirValues.keys()]);
+            const mergedValues = new Map<string, Values>();
+            for (const predicate of predicates) {
+                const baseSet = (baseValues && baseValues.get(predicate)) || new Map<string, Rdf.Quad>();
+                const ourSet = ourValues.get(predicate) || new Map<string, Rdf.Quad>();
+                const theirSet = theirValues.get(predicate) || new Map<string, Rdf.Quad>();
+                let values: Values;
+                if (mergesEntries(predicate, vocabulary)) {
+                    values = new Map([...ourSet, ...theirSet].filter(([key]) =>
+                        (ourSet.has(key) && theirSet.has(key)) || (!baseSet.has(key) && (ourSet.has(key) || theirSet.has(key)))
+                    ));
+                } else if (sameValues(ourSet, theirSet) || sameValues(theirSet, baseSet)) {
+                    values = ourSet;
+                } else if (sameValues(ourSet, baseSet)) {
+                    values = theirSet;
+                } else {
+                    conflicts.push({ instanceId, propertyId: identity.compact(predicate, vocabulary.baseIri) });
+                    values = ourSet;
+                }
+
+                if (values.size > 0) {
+                    mergedValues.set(predicate, values);
+                }
+            }
+
+            merged.set(subject, mergedValues);
+        }
+
+        // References added to instances removed by the merge are dropped.
+        const quads: Rdf.Quad[] = [];
+        const baseKeys = new Set<string>(base.map(statementKey));
+        for (const values of merged.values()) {
+            for (const quad of [].concat(...[...values.values()].map(x => [...x.values()])) as Rdf.Quad[]) {
+                const objectKey = termKey(quad.object);
+                if (quad.object.termType !== 'Literal' && subjects.has(objectKey) && !merged.has(objectKey)) {
+                    if (!baseKeys.has(statementKey(quad))) {
+                        conflicts.push({
+                            instanceId: toId(termKey(quad.subject), vocabulary),
+                            propertyId: identity.compact(quad.predicate.value, vocabulary.baseIri)
+                        });
+                    }
+
+                    continue;
+                }
+
+                quads.push(quad);
+            }
+        }
+
+        return { quads, conflicts };
+    }
+
+    function group(quads: Rdf.Quad[]): Statements {
+        const statements: Statements = new Map();
+        for (const quad of quads) {
+            const subject = termKey(quad.subject);
+            if (!statements.has(subject)) {
+                statements.set(subject, new Map());
+            }
+
+            const values = statements.get(subject);
+            if (!values.has(quad.predicate.value)) {
+                values.set(quad.predicate.value, new Map());
+            }
+
+            values.get(quad.predicate.value).set(termKey(quad.object), quad);
+        }
+
+        return statements;
+    }
+
+    function mergesEntries(predicate: string, vocabulary: types.Vocabulary): boolean {
+        if (predicate === `${Rdf.rdfNamespace}type`) {
+            return true;
+        }
+
+        const propertyId = identity.compact(predicate, vocabulary.baseIri);
+        const property = vocabulary.hasResource(propertyId) ? vocabulary.getProperty(propertyId) : undefined;
+        return !!property && !!property.container;
+    }
+
+    function sameStatements(x: Map<string, Values>, y: Map<string, Values>): boolean {
+        return x.size === y.size && [...x].every(([predicate, values]) => y.has(predicate) && sameValues(values, y.get(predicate)));
+    }
+
+    function sameValues(x: Values, y: Values): boolean {
+        return x.size === y.size && [...x.keys()].every(key => y.has(key));
+    }
+
+    function statementKey(quad: Rdf.Quad): string {
+        return `${termKey(quad.subject)} ${quad.predicate.value} ${termKey(quad.object)}`;
+    }
+
+    function termKey(term: Rdf.Term): string {
+        if (term.termType === 'Literal') {
+            return JSON.stringify([term.value, term.language || '', term.datatype || '']);
+        }
+
+        return term.termType === 'BlankNode' ? `_:${term.value}` : term.value;
+    }
+
+    function toId(subject: string, vocabulary: types.Vocabulary): string {
+        return subject.startsWith('_:') ? subject : identity.compact(subject, vocabulary.baseIri);
+    }
+}
+
+export default Merge;
@@ -0,0 +1,82 @@
+import Document from './document';
+
+/**
+ * @description The type of a merge conflict.
+ * @export
+ * @enum {string}
+ */
+export enum MergeConflictType {
+    /**
+     * @description The instance was removed on one side and changed on the other.
+     */
+    Instance = 'Instance',
+    /**
+     * @description The property value was changed differently on both sides.
+     */
+    Property = 'Property'
+}
+
+/**
+ * @description A change made differently to the same instance or property value by both sides of a merge.
+ * Conflicts are resolved with the change of our side.
+ * @export
+ * @interface MergeConflict
+ */
+export interface MergeConflict {
+    /**
+     * @description The type of the conflict.
+     * @type {MergeConflictType}
+     * @memberof MergeConflict
+     */
+    type: MergeConflictType;
+    /**
+     * @description The id of the instance in conflict.
+     * @type {string}
+     * @memberof MergeConflict
+     */
+    instanceId: string;
+    /**
+     * @description The id of the property in conflict. Not set for instance conflicts.
+     * @type {string}
+     * @memberof MergeConflict
+     */
+    propertyId?: string;
+    /**
+     * @description The instance, or the property value, in the base document.
+     * @type {*}
+     * @memberof MergeConflict
+     */
+    base: any;
+    /**
+     * @description The instance, or the property value, in our document.
+     * @type {*}
+     * @memberof MergeConflict
+     */
+    ours: any;
+    /**
+     * @description The instance, or the property value, in their document.
+     * @type {*}
+     * @memberof MergeConflict
+     */
+    theirs: any;
+}
+
+/**
+ * @description The result of a three-way merge of documents.
+ * @export
+ * @interface MergeResult
+ */
+export interface MergeResult {
+    /**
+     * @description The merged document.
+     * @type {Document}
+     * @memberof MergeResult
+     */
+    document: Document;
+    /**
+     * @description The conflicts found when merging.
+     * @type {MergeConflict[]}
+     * @memberof MergeResult
+     */
+    conflicts: MergeConflict[];
+}
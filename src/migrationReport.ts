@@ -0,0 +1,95 @@
+/**
+ * @description An instance or instance property value that could not be migrated.
+ * @export
+ * @interface MigrationFailure
+ */
+export interface MigrationFailure {
+    /**
+     * @description The id of the instance that could not be migrated.
+     * @type {string}
+     * @memberof MigrationFailure
+     */
+    instanceId: string;
+    /**
+     * @description The id of the source vocabulary class or property that could not be migrated, if any.
+     * @type {string}
+     * @memberof MigrationFailure
+     */
+    resourceId?: string;
+    /**
+     * @description The value that could not be migrated, if any.
+     * @type {*}
+     * @memberof MigrationFailure
+     */
+    value?: any;
+    /**
+     * @description Details of the failure.
+     * @type {string}
+     * @memberof MigrationFailure
+     */
+    message: string;
+}
+
+/**
+ * @description Report of instances migrated between vocabulary versions.
+ * @export
+ * @class MigrationReport
+ */
+export class MigrationReport {
+    private readonly _failures: MigrationFailure[] = [];
+    private readonly _migrated: string[] = [];
+
+    /**
+     * @description Gets all failures in the report.
+     * @readonly
+     * @type {MigrationFailure[]}
+     * @memberof MigrationReport
+     */
+    get failures(): MigrationFailure[] {
+        return [...this._failures];
+    }
+
+    /**
+     * @description Gets the ids of instances that were migrated. Migrated instances may still have failed property values.
+     * @readonly
+     * @type {string[]}
+     * @memberof MigrationReport
+     */
+    get migrated(): string[] {
+        return [...this._migrated];
+    }
+
+    /**
+     * @description True if all instances and their property values were migrated, else false.
+     * @readonly
+     * @type {boolean}
+     * @memberof MigrationReport
+     */
+    get succeeded(): boolean {
+        return this._failures.length === 0;
+    }
+
+    /**
+     * @description Adds failures to the report.
+     * @param {...MigrationFailure[]} failures The failures to add.
+     * @returns {this}
+     * @memberof MigrationReport
+     */
+    addFailure(...failures: MigrationFailure[]): this {
+        this._failures.push(...failures);
+        return this;
+    }
+
+    /**
+     * @description Adds the id of a migrated instance to the report.
+     * @param {string} instanceId The id of the migrated instance.
+     * @returns {this}
+     * @memberof MigrationReport
+     */
+    addMigrated(instanceId: string): this {
+        this._migrated.push(instanceId);
+        return this;
+    }
+}
+
+export default MigrationReport;
@@ -0,0 +1,263 @@
+import Class from './class';
+import { ContainerType } from './context';
+import Document, { DocumentOptions } from './document';
+import * as identity from './identity';
+import Instance from './instance';
+import InstanceProperty from './instanceProperty';
+import MigrationReport from './migrationReport';
+import Vocabulary from './vocabulary';
+
+/**
+ * @description Mapping of classes and properties between two versions of a vocabulary.
+ * Classes and properties that are not mapped are migrated to the resource with the same id in the target vocabulary.
+ * @export
+ * @interface MigrationMapping
+ */
+export interface MigrationMapping {
+    /**
+     * @description Renamed classes, keyed by the source class id with the target class id as value.
+     * @memberof MigrationMapping
+     */
+    classes?: { [sourceId: string]: string };
+    /**
+     * @description Renamed or moved properties, keyed by the source property id with the target property id as value.
+     * @memberof MigrationMapping
+     */
+    properties?: { [sourceId: string]: string };
+    /**
+     * @description Value transforms, keyed by the source property id. Each value of the property is passed to the transform and
+     * the returned value is migrated instead. Returning undefined drops the value.
+     * @memberof MigrationMapping
+     */
+    transforms?: { [sourceId: string]: (value: any, instance: Instance) => any };
+}
+
+/**
+ * @description The result of a migration.
+ * @export
+ * @interface MigrationResult
+ */
+export interface MigrationResult {
+    /**
+     * @description The document with the migrated instances.
+     * @type {Document}
+     * @memberof MigrationResult
+     */
+    document: Document;
+    /**
+     * @description Report of the migrated instances and the instances or values that could not be migrated.
+     * @type {MigrationReport}
+     * @memberof MigrationResult
+     */
+    report: MigrationReport;
+}
+
+/**
+ * @description Migrates document instances from one version of a vocabulary to another.
+ * @export
+ * @class Migrator
+ */
+export class Migrator {
+    private readonly _classes = new Map<string, string>();
+    private readonly _properties = new Map<string, string>();
+    private readonly _transforms = new Map<string, (value: any, instance: Instance) => any>();
+
+    /**
+     * Creates an instance of Migrator.
+     * @param {Vocabulary} source The vocabulary the documents to migrate are based on.
+     * @param {Vocabulary} target The vocabulary to migrate documents to.
+     * @param {MigrationMapping} [mapping={}] Mapping of renamed or moved classes and properties, and value transforms.
+     * @memberof Migrator
+     */
+    constructor(
+        public readonly source: Vocabulary,
+        public readonly target: Vocabulary,
+        mapping: MigrationMapping = {}
+    ) {
+        if (!source) {
+            throw new ReferenceError(`Invalid source. source is '${source}'`);
+        }
+
+        if (!target) {
+            throw new ReferenceError(`Invalid target. target is '${target}'`);
+        }
+
+        const { classes = {}, properties = {}, transforms = {} } = mapping;
+        for (const sourceId of Object.keys(classes)) {
+            this._classes.set(identity.expand(sourceId, source.baseIri), classes[sourceId]);
+        }
+
+        for (const sourceId of Object.keys(properties)) {
+            this._properties.set(identity.expand(sourceId, source.baseIri), properties[sourceId]);
+        }
+
+        for (const sourceId of Object.keys(transforms)) {
+            this._transforms.set(identity.expand(sourceId, source.baseIri), transforms[sourceId]);
+        }
+    }
+
+    /**
+     * @description Migrates the instances of a document to a new document based on the target vocabulary.
+     * The source document is not modified.
+     * @param {Document} document The document to migrate.
+     * @param {DocumentOptions} [options] Optional options of the migrated document.
+     * @returns {MigrationResult}
+     * @memberof Migrator
+     */
+    migrate(document: Document, options?: DocumentOptions): MigrationResult {
+        if (!document) {
+            throw new ReferenceError(`Invalid document. document is '${document}'`);
+        }
+
+        if (document.vocabulary !== this.source) {
+            throw new ReferenceError('Invalid document. document is not based on the source vocabulary');
+        }
+
+        const report = new MigrationReport();
+        const migrated = new Document(this.target, options);
+
+        // Instances are created before property values are migrated so that references to other instances can be resolved.
+        const instances: [Instance, Instance][] = [];
+        for (const instance of document.instances) {
+            const targetInstance = this._migrateClasses(instance, migrated, report);
+            if (targetInstance) {
+                instances.push([instance, targetInstance]);
+            }
+        }
+
+        for (const [instance, targetInstance] of instances) {
+            for (const property of instance.properties) {
+                this._migrateProperty(instance, property, targetInstance, migrated, report);
+            }
+
+            report.addMigrated(targetInstance.id);
+        }
+
+        return { document: migrated, report };
+    }
+
+    private _getTargetClass(classType: Class): Class {
+        const targetId = this._classes.get(identity.expand(classType.id, this.source.baseIri)) || classType.id;
+        return this.target.getClass(targetId);
+    }
+
+    private _getTargetValue(value: any, migrated: Document): any {
+        if (value instanceof Class) {
+            return this._getTargetClass(value);
+        }
+
+        if (value instanceof Instance) {
+            return migrated.getInstance(value.id) || this.target.getInstance(value.id);
+        }
+
+        return value;
+    }
+
+    private _migrateClasses(instance: Instance, migrated: Document, report: MigrationReport): Instance {
+        const classes: Class[] = [];
+        for (const classType of instance.classes) {
+            const targetClass = this._getTargetClass(classType);
+            if (targetClass) {
+                classes.push(targetClass);
+            } else {
+                report.addFailure({
+                    instanceId: instance.id,
+                    resourceId: classType.id,
+                    message: `Class ${classType.id} of instance ${instance.id} has no matching class in the target vocabulary`
+                });
+            }
+        }
+
+        if (classes.length === 0) {
+            report.addFailure({
+                instanceId: instance.id,
+                message: `Instance ${instance.id} was not migrated. None of its classes could be migrated`
+            });
+
+            return undefined;
+        }
+
+        try {
+            const targetInstance = migrated.createInstance(classes[0], instance.id);
+            for (const classType of classes.slice(1)) {
+                targetInstance.setClass(classType);
+            }
+
+            return targetInstance;
+        } catch (err) {
+            report.addFailure({
+                instanceId: instance.id,
+                message: `Instance ${instance.id} was not migrated. ${err.message}`
+            });
+
+            return undefined;
+        }
+    }
+
+    private _migrateProperty(
+        instance: Instance,
+        property: InstanceProperty,
+        targetInstance: Instance,
+        migrated: Document,
+        report: MigrationReport
+    ): void {
+        const sourceId = identity.expand(property.id, this.source.baseIri);
+        const targetId = this._properties.get(sourceId) || property.id;
+        const transform = this._transforms.get(sourceId);
+        const values: any[] = property.container ? property.value.items.items() : [property.value];
+        if (values.every(x => x === undefined || x === null)) {
+            return;
+        }
+
+        const targetProperty = targetInstance.getProperty(targetId);
+        if (!targetProperty) {
+            report.addFailure({
+                instanceId: instance.id,
+                resourceId: property.id,
+                message: `Property ${property.id} of instance ${instance.id} has no matching property ${targetId} in the target classes`
+            });
+
+            return;
+        }
+
+        for (const value of values) {
+            try {
+                const source = property.container === ContainerType.Language ? value.value : value;
+                const transformed = transform ? transform(source, instance) : source;
+                if (transformed === undefined || transformed === null) {
+                    continue;
+                }
+
+                const targetValue = this._getTargetValue(transformed, migrated);
+                if (targetValue === undefined) {
+                    report.addFailure({
+                        instanceId: instance.id,
+                        resourceId: property.id,
+                        value: transformed.id,
+                        message: `Reference ${transformed.id} of property ${property.id} of instance ${instance.id} was not migrated`
+                    });
+
+                    continue;
+                }
+
+                if (!targetProperty.container) {
+                    targetProperty.value = targetValue;
+                } else if (targetValue instanceof Instance || targetValue instanceof Class) {
+                    targetProperty.value.addReference(targetValue);
+                } else {
+                    const language = property.container === ContainerType.Language ? value.language : undefined;
+                    targetProperty.value.addValue(targetValue, language);
+                }
+            } catch (err) {
+                report.addFailure({
+                    instanceId: instance.id,
+                    resourceId: property.id,
+                    value,
+                    message: `Value of property ${property.id} of instance ${instance.id} was not migrated. ${err.message}`
+                });
+            }
+        }
+    }
+}
+
+export default Migrator;
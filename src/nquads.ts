@@ -0,0 +1,211 @@
+import * as readline from 'readline';
+import { RdfSyntaxError } from './errors';
+import Rdf from './rdf';
+import Turtle from './turtle';
+
+const iriPattern = /^<([^<>"{}|^`\\\x00-\x20]|\\u[0-9A-Fa-f]{4}|\\U[0-9A-Fa-f]{8})*>/;
+const blankNodePattern = /^_:[A-Za-z0-9_]([A-Za-z0-9_\-.]*[A-Za-z0-9_\-])?/;
+const literalPattern = /^"((?:[^"\\\n\r]|\\.)*)"(?:@([a-zA-Z]+(?:-[a-zA-Z0-9]+)*)|\^\^(<[^>]*>))?/;
+const escapes: { [char: string]: string } = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+
+export namespace NQuads {
+    /**
+     * @description The line based RDF serialization formats.
+     */
+    export type Format = 'N-Triples' | 'N-Quads';
+
+    /**
+     * @description Parses an N-Triples or N-Quads document.
+     * @export
+     * @param {string} text The document to parse.
+     * @param {Format} [format='N-Quads'] The format of the document. Graph labels are rejected in N-Triples documents.
+     * @returns {Rdf.Quad[]} The parsed statements.
+     */
+    export function parse(text: string, format: Format = 'N-Quads'): Rdf.Quad[] {
+        const quads: Rdf.Quad[] = [];
+        text.split(/\r?\n|\r/).forEach((line, index) => {
+            const quad = parseLine(line, index + 1, format);
+            if (quad) {
+                quads.push(quad);
+            }
+        });
+
+        return quads;
+    }
+
+    /**
+     * @description Parses an N-Triples or N-Quads document from a stream, one line at a time.
+     * @export
+     * @param {NodeJS.ReadableStream} input The stream to parse.
+     * @param {(quad: Rdf.Quad) => void} onQuad Callback invoked with each parsed statement.
+     * @param {Format} [format='N-Quads'] The format of the document. Graph labels are rejected in N-Triples documents.
+     * @returns {Promise<void>} Promise resolved when the stream has been parsed, or rejected on the first syntax error.
+     */
+    // tslint:disable-next-line: promise-function-async
+    export function parseStream(
+        input: NodeJS.ReadableStream,
+        onQuad: (quad: Rdf.Quad) => void,
+        format: Format = 'N-Quads'
+    ): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const lines = readline.createInterface({ input, crlfDelay: Infinity });
+            let lineNumber = 0;
+            let failed = false;
+            lines.on('line', (line: string) => {
+                lineNumber += 1;
+                if (failed) {
+                    return;
+                }
+
+                try {
+                    const quad = parseLine(line, lineNumber, format);
+                    if (quad) {
+                        onQuad(quad);
+                    }
+                } catch (err) {
+                    failed = true;
+                    lines.close();
+                    reject(err);
+                }
+            });
+
+            lines.on('close', () => {
+                if (!failed) {
+                    resolve();
+                }
+            });
+
+            input.on('error', err => {
+                failed = true;
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * @description Reads all statements of an N-Triples or N-Quads document.
+     * @export
+     * @param {(string | NodeJS.ReadableStream)} input The document text or a stream of the document to read.
+     * @param {Format} [format='N-Quads'] The format of the document.
+     * @returns {Promise<Rdf.Quad[]>}
+     */
+    export async function read(input: string | NodeJS.ReadableStream, format: Format = 'N-Quads'): Promise<Rdf.Quad[]> {
+        if (typeof input === 'string') {
+            return parse(input, format);
+        }
+
+        const quads: Rdf.Quad[] = [];
+        await parseStream(input, quad => quads.push(quad), format);
+        return quads;
+    }
+
+    /**
+     * @description Writes statements as an N-Triples or N-Quads document.
+     * @export
+     * @param {Rdf.Quad[]} quads The statements to write.
+     * @param {string} [graphName] Optional IRI of the graph the statements are written to. Statements are written to the
+     * default graph, or their own graph, when not specified.
+     * @returns {string}
+     */
+    export function write(quads: Rdf.Quad[], graphName?: string): string {
+        const graph = graphName ? Rdf.namedNode(graphName) : undefined;
+        return quads
+            .map(quad => {
+                const terms = [quad.subject, quad.predicate, quad.object, graph || quad.graph].filter(x => !!x);
+                return `${terms.map(formatTerm).join(' ')} .\n`;
+            })
+            .join('');
+    }
+
+    function formatTerm(term: Rdf.Term): string {
+        if (term.termType === 'BlankNode') {
+            return `_:${term.value.replace(/[^A-Za-z0-9_\-]/g, '_')}`;
+        }
+
+        if (term.termType === 'NamedNode') {
+            return `<${term.value.replace(/[\x00-\x20<>"{}|^`\\]/g, x => `\\u${x.charCodeAt(0).toString(16).padStart(4, '0')}`)}>`;
+        }
+
+        if (term.language) {
+            return `${Turtle.formatString(term.value)}@${term.language}`;
+        }
+
+        if (!term.datatype || term.datatype === `${Rdf.xsdNamespace}string`) {
+            return Turtle.formatString(term.value);
+        }
+
+        return `${Turtle.formatString(term.value)}^^${formatTerm(Rdf.namedNode(term.datatype))}`;
+    }
+
+    function parseLine(line: string, lineNumber: number, format: Format): Rdf.Quad {
+        let rest = line.trim();
+        if (!rest || rest.startsWith('#')) {
+            return undefined;
+        }
+
+        const error = (details: string) => new RdfSyntaxError(format, lineNumber, details);
+        const next = (allowLiteral: boolean): Rdf.Term => {
+            rest = rest.trimLeft();
+            let match = iriPattern.exec(rest);
+            if (match) {
+                rest = rest.substring(match[0].length);
+                return Rdf.namedNode(unescape(match[0].slice(1, -1), error));
+            }
+
+            match = blankNodePattern.exec(rest);
+            if (match) {
+                rest = rest.substring(match[0].length);
+                return Rdf.blankNode(match[0].substring(2));
+            }
+
+            match = allowLiteral ? literalPattern.exec(rest) : undefined;
+            if (match) {
+                rest = rest.substring(match[0].length);
+                const datatype = match[3] ? unescape(match[3].slice(1, -1), error) : undefined;
+                return Rdf.literal(unescape(match[1], error), match[2], datatype);
+            }
+
+            throw error(`Unexpected '${rest.substr(0, 10)}'`);
+        };
+
+        const subject = next(false);
+        const predicate = next(false);
+        if (predicate.termType !== 'NamedNode') {
+            throw error('Expected an IRI predicate');
+        }
+
+        const object = next(true);
+        rest = rest.trimLeft();
+        let graph: Rdf.Term;
+        if (!rest.startsWith('.')) {
+            if (format === 'N-Triples') {
+                throw error(`Expected '.' but found '${rest.substr(0, 10)}'`);
+            }
+
+            graph = next(false);
+            rest = rest.trimLeft();
+        }
+
+        if (!rest.startsWith('.') || !/^\.\s*(#.*)?$/.test(rest)) {
+            throw error(`Expected '.' but found '${rest.substr(0, 10)}'`);
+        }
+
+        return graph ? { subject, predicate, object, graph } : { subject, predicate, object };
+    }
+
+    function unescape(text: string, error: (details: string) => RdfSyntaxError): string {
+        return text.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/g, (match, escape: string) => {
+            if (escape.length > 1) {
+                return String.fromCodePoint(parseInt(escape.substring(1), 16));
+            }
+
+            if (escapes[escape] === undefined) {
+                throw error(`Invalid escape sequence '${match}'`);
+            }
+
+            return escapes[escape];
+        });
+    }
+}
+
+export default NQuads;
@@ -5,11 +5,21 @@ import DataType from './dataType';
 import * as errors from './errors';
 import * as identity from './identity';
 import Resource from './resource';
-import Vocabulary from './types';
+import Vocabulary, { PropertyReference } from './types';
 
 type DomainTypes = string | Resource;
 type RangeTypes = string | Resource | DataType;
 
+/**
+ * @description The OWL kind of a property.
+ * @export
+ * @enum {string}
+ */
+export enum PropertyKind {
+    Datatype = 'owl:DatatypeProperty',
+    Object = 'owl:ObjectProperty'
+}
+
 export class Property extends Resource {
     /**
      * Creates an instance of Property.
@@ -21,6 +31,70 @@ export class Property extends Resource {
         super(vertex, vocabulary);
     }
 
+    /**
+     * @description Gets the ancestors of this property.
+     * @readonly
+     * @type {Iterable<Property>}
+     * @memberof Property
+     */
+    get ancestors(): Iterable<Property> {
+        // tslint:disable-next-line:no-this-assignment
+        const that = this;
+        return new Iterable<Property>((function* propertyAncestors() {
+            for (const parent of that.parentProperties) {
+                for (const ancestor of parent.ancestors) {
+                    yield ancestor;
+                }
+                yield parent;
+            }
+        })());
+    }
+
+    /**
+     * @description Gets all descendants of this property.
+     * @readonly
+     * @type {Iterable<Property>}
+     * @memberof Property
+     */
+    get descendants(): Iterable<Property> {
+        // tslint:disable-next-line:no-this-assignment
+        const that = this;
+        return new Iterable<Property>((function* propertyDescendants() {
+            for (const child of that.subProperties) {
+                for (const descendant of child.descendants) {
+                    yield descendant;
+                }
+                yield child;
+            }
+        })());
+    }
+
+    /**
+     * @description Gets all parent properties this property is a sub-property of.
+     * @readonly
+     * @type {Iterable<Property>}
+     * @memberof Property
+     */
+    get parentProperties(): Iterable<Property> {
+        return this.vertex
+            .getOutgoing('rdfs:subPropertyOf')
+            .filter(({ toVertex }) => toVertex.isType('rdf:Property'))
+            .map(({ toVertex }) => this.vocabulary.getProperty(toVertex.id));
+    }
+
+    /**
+     * @description Gets all properties that are sub-properties of this property.
+     * @readonly
+     * @type {Iterable<Property>}
+     * @memberof Property
+     */
+    get subProperties(): Iterable<Property> {
+        return this.vertex
+            .getIncoming('rdfs:subPropertyOf')
+            .filter(({ fromVertex }) => fromVertex.isType('rdf:Property'))
+            .map(({ fromVertex }) => this.vocabulary.getProperty(fromVertex.id));
+    }
+
     /**
      * @description Gets the container type of the property.
      * @type {ContainerType}
@@ -41,6 +115,71 @@ export class Property extends Resource {
         return this.vertex.getOutgoing('rdfs:domain').map(edge => this.vocabulary.getResource(edge.toVertex.id));
     }
 
+    /**
+     * @description Gets the property this property is the inverse of, declared with owl:inverseOf in either direction.
+     * @readonly
+     * @type {Property}
+     * @memberof Property
+     */
+    get inverseOf(): Property {
+        const inverseV =
+            this.vertex.getOutgoing('owl:inverseOf').map(({ toVertex }) => toVertex).first() ||
+            this.vertex.getIncoming('owl:inverseOf').map(({ fromVertex }) => fromVertex).first();
+
+        return inverseV && inverseV.isType('rdf:Property') ? this.vocabulary.getProperty(inverseV.id) : undefined;
+    }
+
+    /**
+     * @description Gets the kind of the property. Properties not typed as an OWL object or datatype property are
+     * object properties when their range only has classes and datatype properties when their range only has data types.
+     * @type {PropertyKind}
+     * @memberof Property
+     */
+    get kind(): PropertyKind {
+        if (this.vertex.isType(PropertyKind.Object)) {
+            return PropertyKind.Object;
+        }
+
+        if (this.vertex.isType(PropertyKind.Datatype)) {
+            return PropertyKind.Datatype;
+        }
+
+        const range = this.range.items();
+        if (range.length > 0 && range.every(x => x instanceof DataType)) {
+            return PropertyKind.Datatype;
+        }
+
+        if (range.length > 0 && range.every(x => !!x && !(x instanceof DataType))) {
+            return PropertyKind.Object;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * @description Sets the kind of the property, typing it as an OWL object or datatype property.
+     * @memberof Property
+     */
+    set kind(value: PropertyKind) {
+        if (value && value !== PropertyKind.Object && value !== PropertyKind.Datatype) {
+            throw new ReferenceError(`Invalid kind. kind is '${value}'`);
+        }
+
+        if (value === PropertyKind.Datatype && this.inverseOf) {
+            throw new errors.InvalidOperationError(
+                'kind',
+                this.id,
+                'Property',
+                `Property is the inverse of ${this.inverseOf.id}. Only object properties can have an inverse`
+            );
+        }
+
+        this.vertex.removeType(PropertyKind.Object, PropertyKind.Datatype);
+        if (value) {
+            this.vertex.setType(value);
+        }
+    }
+
     /**
      * @description Gets the range of types applicable for the property.
      * @readonly
@@ -104,6 +243,56 @@ export class Property extends Resource {
         return this.vertex.getOutgoing('rdfs:range').some(edge => edge.toVertex.id === resourceId);
     }
 
+    /**
+     * @description Checks if this property is a sub-property of another property.
+     * @param {PropertyReference} propertyReference The property id or property reference to check.
+     * @returns {boolean} True if this property is a sub-property of the specified property, else false.
+     * @memberof Property
+     */
+    isSubPropertyOf(propertyReference: PropertyReference): boolean {
+        if (!propertyReference) {
+            throw new ReferenceError(`Invalid propertyReference. propertyReference is '${propertyReference}'`);
+        }
+
+        const propertyId = typeof propertyReference === 'string'
+            ? identity.expand(propertyReference, this.vocabulary.baseIri, true)
+            : identity.expand(propertyReference.id, this.vocabulary.baseIri);
+
+        return this.vertex.getOutgoing('rdfs:subPropertyOf').some(x => x.toVertex.id === propertyId);
+    }
+
+    /**
+     * @description Makes this property a sub-property of another property.
+     * @param {PropertyReference} propertyReference The property id or property reference to make this property a sub-property of.
+     * @returns {this}
+     * @memberof Property
+     */
+    makeSubPropertyOf(propertyReference: PropertyReference): this {
+        if (!propertyReference) {
+            throw new ReferenceError(`Invalid propertyReference. propertyReference is '${propertyReference}'`);
+        }
+
+        const property = typeof propertyReference === 'string'
+            ? this.vocabulary.getProperty(propertyReference)
+            : propertyReference;
+
+        if (!property) {
+            throw new errors.ResourceNotFoundError(propertyReference as string, 'Property');
+        }
+
+        if (property.id === this.id || this.descendants.some(x => x.id === property.id)) {
+            throw new errors.InvalidOperationError(
+                'makeSubPropertyOf',
+                this.id,
+                'Property',
+                `Property ${property.id} is a sub-property of ${this.id}. Property hierarchies cannot be circular`
+            );
+        }
+
+        this.vertex.setOutgoing('rdfs:subPropertyOf', identity.expand(property.id, this.vocabulary.baseIri), false);
+        return this;
+    }
+
     /**
      * @description Sets the domain of the property to a specific resource.
      * @param {(string | Resource)} resources The resource id or resource reference.
@@ -134,6 +323,47 @@ export class Property extends Resource {
         return this;
     }
 
+    /**
+     * @description Declares this property the inverse of another property, replacing any previously declared inverse of both properties.
+     * @param {PropertyReference} propertyReference The property id or property reference this property is the inverse of.
+     * @returns {this}
+     * @memberof Property
+     */
+    setInverseOf(propertyReference: PropertyReference): this {
+        if (!propertyReference) {
+            throw new ReferenceError(`Invalid propertyReference. propertyReference is '${propertyReference}'`);
+        }
+
+        const property = typeof propertyReference === 'string'
+            ? this.vocabulary.getProperty(propertyReference)
+            : propertyReference;
+
+        if (!property) {
+            throw new errors.ResourceNotFoundError(propertyReference as string, 'Property');
+        }
+
+        for (const target of [this, property]) {
+            if (target.kind === PropertyKind.Datatype) {
+                throw new errors.InvalidOperationError(
+                    'setInverseOf',
+                    this.id,
+                    'Property',
+                    `Property ${target.id} is a datatype property. Only object properties can have an inverse`
+                );
+            }
+        }
+
+        const inverse = this.inverseOf;
+        if (inverse && inverse.id === property.id) {
+            return this;
+        }
+
+        this.removeInverseOf();
+        property.removeInverseOf();
+        this.vertex.setOutgoing('owl:inverseOf', identity.expand(property.id, this.vocabulary.baseIri), false);
+        return this;
+    }
+
     /**
      * @description Sets the range of a property to a specific resource.
      * @param {(string | Resource)} resource The resource id or resource reference.
@@ -182,6 +412,40 @@ export class Property extends Resource {
         this.vertex.removeOutgoing('rdfs:domain', resourceV => resourceV.id === resourceId);
     }
 
+    /**
+     * @description Removes the inverse declaration of the property, on both this property and its inverse.
+     * @returns {this}
+     * @memberof Property
+     */
+    removeInverseOf(): this {
+        this.vertex.removeOutgoing('owl:inverseOf');
+        this.vertex.removeIncoming('owl:inverseOf');
+        return this;
+    }
+
+    /**
+     * @description Removes a sub-property reference from this property.
+     * @param {PropertyReference} propertyReference The property id or property reference to remove this property as a sub-property of.
+     * @returns {this}
+     * @memberof Property
+     */
+    removeSubPropertyOf(propertyReference: PropertyReference): this {
+        if (!propertyReference) {
+            throw new ReferenceError(`Invalid propertyReference. propertyReference is '${propertyReference}'`);
+        }
+
+        const property = typeof propertyReference === 'string'
+            ? this.vocabulary.getProperty(propertyReference)
+            : propertyReference;
+
+        if (!property) {
+            throw new errors.ResourceNotFoundError(propertyReference as string, 'Property');
+        }
+
+        this.vertex.removeOutgoing('rdfs:subPropertyOf', identity.expand(property.id, this.vocabulary.baseIri));
+        return this;
+    }
+
     /**
      * @description Removes a resource from the range of the property.
      * @param {(string | Resource)} resource The resource to remove.
@@ -219,6 +483,14 @@ export class Property extends Resource {
                 Domain: {
                     '@embed': '@never',
                     '@omitDefault': true
+                },
+                InverseOf: {
+                    '@embed': '@never',
+                    '@omitDefault': true
+                },
+                SubPropertyOf: {
+                    '@embed': '@never',
+                    '@omitDefault': true
                 }
             }
         });
@@ -0,0 +1,208 @@
+import Class from './class';
+import ContainerPropertyValues from './containerPropertyValues';
+import * as errors from './errors';
+import Instance from './instance';
+import * as types from './types';
+
+type PathExpression =
+    | { type: 'property'; propertyId: string; inverse: boolean }
+    | { type: 'sequence'; paths: PathExpression[] }
+    | { type: 'alternative'; paths: PathExpression[] }
+    | { type: 'repeat'; path: PathExpression; min: number };
+
+function invert(expression: PathExpression): PathExpression {
+    switch (expression.type) {
+        case 'property':
+            return { ...expression, inverse: !expression.inverse };
+        case 'sequence':
+            return { type: 'sequence', paths: [...expression.paths].reverse().map(invert) };
+        case 'alternative':
+            return { type: 'alternative', paths: expression.paths.map(invert) };
+        case 'repeat':
+            return { ...expression, path: invert(expression.path) };
+    }
+}
+
+/**
+ * @description Parses property paths. Path elements are context terms, or property ids enclosed in angle brackets.
+ */
+class PropertyPathParser {
+    private _position = 0;
+
+    constructor(private readonly _path: string, private readonly _vocabulary: types.Vocabulary) {}
+
+    parse(): PathExpression {
+        const expression = this._parseAlternative();
+        this._skipWhitespace();
+        if (this._position < this._path.length) {
+            throw this._error(`Unexpected '${this._path[this._position]}'`);
+        }
+
+        return expression;
+    }
+
+    private _error(details: string): errors.PropertyPathSyntaxError {
+        return new errors.PropertyPathSyntaxError(this._path, this._position, details);
+    }
+
+    private _parseAlternative(): PathExpression {
+        const paths = [this._parseSequence()];
+        while (this._tryConsume('|')) {
+            paths.push(this._parseSequence());
+        }
+
+        return paths.length === 1 ? paths[0] : { type: 'alternative', paths };
+    }
+
+    private _parseElement(): PathExpression {
+        const inverse = this._tryConsume('^');
+        let expression: PathExpression;
+        if (this._tryConsume('(')) {
+            expression = this._parseAlternative();
+            if (!this._tryConsume(')')) {
+                throw this._error("Expected ')'");
+            }
+        } else {
+            expression = { type: 'property', propertyId: this._parseProperty(), inverse: false };
+        }
+
+        if (this._tryConsume('*')) {
+            expression = { type: 'repeat', path: expression, min: 0 };
+        } else if (this._tryConsume('+')) {
+            expression = { type: 'repeat', path: expression, min: 1 };
+        }
+
+        return inverse ? invert(expression) : expression;
+    }
+
+    private _parseProperty(): string {
+        this._skipWhitespace();
+        let name: string;
+        if (this._path[this._position] === '<') {
+            const end = this._path.indexOf('>', this._position);
+            if (end < 0) {
+                throw this._error('Unterminated property id');
+            }
+
+            name = this._path.substring(this._position + 1, end);
+            this._position = end + 1;
+        } else {
+            const match = /^[^\s\/|^*+()<>]+/.exec(this._path.substring(this._position));
+            if (!match) {
+                throw this._error(`Expected a property but found '${this._path.substring(this._position) || 'end of path'}'`);
+            }
+
+            name = match[0];
+            this._position += name.length;
+        }
+
+        const term = this._vocabulary.context.isDefined(name) ? this._vocabulary.context.getTerm(name) : undefined;
+        const propertyId = term ? term.id : name;
+        const property = propertyId && this._vocabulary.hasResource(propertyId) ? this._vocabulary.getProperty(propertyId) : undefined;
+        if (!property) {
+            throw new errors.ResourceNotFoundError(name, 'Property');
+        }
+
+        return property.id;
+    }
+
+    private _parseSequence(): PathExpression {
+        const paths = [this._parseElement()];
+        while (this._tryConsume('/')) {
+            paths.push(this._parseElement());
+        }
+
+        return paths.length === 1 ? paths[0] : { type: 'sequence', paths };
+    }
+
+    private _skipWhitespace(): void {
+        while (/\s/.test(this._path[this._position] || '')) {
+            this._position += 1;
+        }
+    }
+
+    private _tryConsume(token: string): boolean {
+        this._skipWhitespace();
+        if (this._path[this._position] === token) {
+            this._position += 1;
+            return true;
+        }
+
+        return false;
+    }
+}
+
+export namespace PropertyPath {
+    /**
+     * @description Gets the instances and values reached from an instance through a property path.
+     * Paths follow the SPARQL property path syntax: '/' separates a sequence of steps, '|' separates alternatives, '^' follows a
+     * step from the referencing instances, and '*' and '+' repeat a step zero or more and one or more times. Parentheses group steps.
+     * @export
+     * @param {Instance} instance The instance the path starts from.
+     * @param {string} path The property path to resolve.
+     * @returns {any[]} The distinct instances, classes and values reached, in the order they were reached.
+     */
+    export function resolve(instance: Instance, path: string): any[] {
+        return evaluate(new PropertyPathParser(path, instance.vocabulary).parse(), [instance]);
+    }
+
+    function evaluate(expression: PathExpression, nodes: any[]): any[] {
+        switch (expression.type) {
+            case 'property':
+                return distinct(nodes.filter(x => x instanceof Instance).map(x => step(x, expression.propertyId, expression.inverse)));
+            case 'sequence':
+                return expression.paths.reduce((current, path) => evaluate(path, current), nodes);
+            case 'alternative':
+                return distinct(expression.paths.map(path => evaluate(path, nodes)));
+            case 'repeat': {
+                const reached = new Map<string, any>(expression.min === 0 ? nodes.map(x => [key(x), x] as [string, any]) : []);
+                let frontier = nodes;
+                while (frontier.length > 0) {
+                    frontier = evaluate(expression.path, frontier).filter(x => !reached.has(key(x)));
+                    frontier.forEach(x => reached.set(key(x), x));
+                }
+
+                return [...reached.values()];
+            }
+        }
+    }
+
+    function distinct(nodeLists: any[][]): any[] {
+        const nodes = new Map<string, any>();
+        for (const node of [].concat(...nodeLists)) {
+            if (!nodes.has(key(node))) {
+                nodes.set(key(node), node);
+            }
+        }
+
+        return [...nodes.values()];
+    }
+
+    function key(node: any): string {
+        if (node instanceof Instance) {
+            return `instance:${node.vertex.id}`;
+        }
+
+        if (node instanceof Class) {
+            return `class:${node.id}`;
+        }
+
+        return typeof node === 'object' ? `object:${JSON.stringify(node)}` : `${typeof node}:${node}`;
+    }
+
+    function step(instance: Instance, propertyId: string, inverse: boolean): any[] {
+        if (inverse) {
+            return instance.getReferrers(propertyId).filter(x => !!x).items();
+        }
+
+        const property = instance.getProperty(propertyId);
+        const value = property ? property.value : undefined;
+        if (value instanceof ContainerPropertyValues) {
+            return value.items.items();
+        }
+
+        return value === undefined || value === null ? [] : [value];
+    }
+}
+
+export default PropertyPath;
@@ -0,0 +1,203 @@
+import Iterable from 'jsiterable';
+import Class from './class';
+import Document from './document';
+import * as errors from './errors';
+import * as identity from './identity';
+import Instance from './instance';
+import { ClassReference } from './types';
+
+type QueryStep = (instances: Iterable<Instance>) => Iterable<Instance>;
+
+/**
+ * @description Fluent query over the instances of a document.
+ * Property names are resolved through the terms of the vocabulary context, or used as property ids when no term is defined.
+ * Queries are immutable and evaluated lazily each time they are executed.
+ * @export
+ * @class Query
+ * @template T The instance type returned by the query.
+ */
+export class Query<T = void> {
+    private readonly _document: Document;
+    private readonly _steps: QueryStep[] = [];
+
+    /**
+     * Creates an instance of Query.
+     * @param {Document} document The document to query.
+     * @memberof Query
+     */
+    constructor(document: Document) {
+        if (!document) {
+            throw new ReferenceError(`Invalid document. document is '${document}'`);
+        }
+
+        this._document = document;
+    }
+
+    /**
+     * @description Gets the number of instances matched by the query.
+     * @returns {number}
+     * @memberof Query
+     */
+    count(): number {
+        return this.execute().count();
+    }
+
+    /**
+     * @description Executes the query.
+     * @returns {(Iterable<Instance & T>)} The distinct instances matched by the query.
+     * @memberof Query
+     */
+    execute(): Iterable<Instance & T> {
+        let instances = this._document.instances;
+        for (const step of this._steps) {
+            instances = step(instances);
+        }
+
+        return instances as Iterable<Instance & T>;
+    }
+
+    /**
+     * @description Filters instances with a predicate.
+     * @param {(instance: Instance & T) => boolean} predicate The predicate instances must satisfy.
+     * @returns {Query<T>}
+     * @memberof Query
+     */
+    filter(predicate: (instance: Instance & T) => boolean): Query<T> {
+        if (!predicate) {
+            throw new ReferenceError(`Invalid predicate. predicate is '${predicate}'`);
+        }
+
+        return this._next(instances => instances.filter(instance => predicate(instance as Instance & T)));
+    }
+
+    /**
+     * @description Gets the first instance matched by the query.
+     * @returns {(Instance & T)} The first instance, or undefined if no instance matched the query.
+     * @memberof Query
+     */
+    first(): Instance & T {
+        return this.execute().first();
+    }
+
+    /**
+     * @description Filters instances of a class or any of its descendants. Inferred classes are included when the document is in inference mode.
+     * @template C The instance type of the class.
+     * @param {ClassReference} classReference The class id or class reference.
+     * @returns {Query<C>}
+     * @memberof Query
+     */
+    ofClass<C = T>(classReference: ClassReference): Query<C> {
+        if (!classReference) {
+            throw new ReferenceError(`Invalid classReference. classReference is '${classReference}'`);
+        }
+
+        const classType = typeof classReference === 'string'
+            ? this._document.vocabulary.getClass(classReference)
+            : classReference;
+
+        if (!classType) {
+            throw new errors.ResourceNotFoundError(classReference as string, 'Class');
+        }
+
+        return this._next<C>(instances => instances.filter(instance => instance.isInstanceOf(classType)));
+    }
+
+    /**
+     * @description Projects the instances matched by the query.
+     * @template R The projected type.
+     * @param {(instance: Instance & T) => R} selector The projection of each instance.
+     * @returns {Iterable<R>}
+     * @memberof Query
+     */
+    select<R>(selector: (instance: Instance & T) => R): Iterable<R> {
+        if (!selector) {
+            throw new ReferenceError(`Invalid selector. selector is '${selector}'`);
+        }
+
+        return this.execute().map(selector);
+    }
+
+    /**
+     * @description Follows the references of a property, replacing each instance with the instances it references.
+     * @template R The instance type of the referenced instances.
+     * @param {string} property The context term or id of the property to follow.
+     * @returns {Query<R>}
+     * @memberof Query
+     */
+    traverse<R = void>(property: string): Query<R> {
+        const propertyId = this._resolveProperty(property);
+        const document = this._document;
+        const vocabulary = this._document.vocabulary;
+        return this._next<R>(instances => new Iterable((function* traverseReferences() {
+            const visited = new Set<string>();
+            for (const instance of instances) {
+                for (const { toVertex } of instance.vertex.getOutgoing(propertyId)) {
+                    if (visited.has(toVertex.id)) {
+                        continue;
+                    }
+
+                    // References to instances defined in the vocabulary are resolved through the vocabulary.
+                    const target = vocabulary.hasInstance(toVertex.id)
+                        ? vocabulary.getInstance(toVertex.id)
+                        : document.hasInstance(toVertex.id) ? document.getInstance(toVertex.id) : undefined;
+
+                    if (target) {
+                        visited.add(toVertex.id);
+                        yield target;
+                    }
+                }
+            }
+        })()));
+    }
+
+    /**
+     * @description Filters instances with at least one value of a property satisfying a condition.
+     * @param {string} property The context term or id of the property.
+     * @param {*} [condition] A predicate the value must satisfy, or a value or instance the value must equal.
+     * Instances with any value of the property are matched when not specified.
+     * @returns {Query<T>}
+     * @memberof Query
+     */
+    where(property: string, condition?: ((value: any) => boolean) | any): Query<T> {
+        const propertyId = this._resolveProperty(property);
+        const matches = (value: any): boolean => {
+            if (condition === undefined) {
+                return true;
+            }
+
+            if (typeof condition === 'function') {
+                return !!condition(value);
+            }
+
+            if (condition instanceof Instance || condition instanceof Class) {
+                return (value instanceof Instance || value instanceof Class) && value.id === condition.id;
+            }
+
+            return value === condition;
+        };
+
+        return this._next(instances => instances.filter(instance => instance.getValues(propertyId).some(matches)));
+    }
+
+    private _next<R>(step: QueryStep): Query<R> {
+        const query = new Query<R>(this._document);
+        query._steps.push(...this._steps, step);
+        return query;
+    }
+
+    private _resolveProperty(property: string): string {
+        if (!property) {
+            throw new ReferenceError(`Invalid property. property is '${property}'`);
+        }
+
+        const term = this._document.vocabulary.context.getTerm(property);
+        const propertyId = term ? term.id : property;
+        if (!this._document.vocabulary.hasResource(propertyId) || !this._document.vocabulary.getProperty(propertyId)) {
+            throw new errors.ResourceNotFoundError(property, 'Property');
+        }
+
+        return identity.expand(propertyId, this._document.vocabulary.baseIri);
+    }
+}
+
+export default Query;
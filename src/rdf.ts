@@ -0,0 +1,446 @@
+import { Vertex } from 'jsonld-graph';
+import { ContainerType } from './context';
+import DataType from './dataType';
+import * as identity from './identity';
+import Property from './property';
+import * as types from './types';
+
+export namespace Rdf {
+    /**
+     * @description Standard RDF namespace.
+     */
+    export const rdfNamespace = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+
+    /**
+     * @description Standard RDF schema namespace.
+     */
+    export const rdfsNamespace = 'http://www.w3.org/2000/01/rdf-schema#';
+
+    /**
+     * @description Standard XML schema namespace.
+     */
+    export const xsdNamespace = 'http://www.w3.org/2001/XMLSchema#';
+
+    /**
+     * @description Standard OWL namespace.
+     */
+    export const owlNamespace = 'http://www.w3.org/2002/07/owl#';
+
+    /**
+     * @description Standard SHACL namespace.
+     */
+    export const shNamespace = 'http://www.w3.org/ns/shacl#';
+
+    /**
+     * @description Prefixes registered with vocabulary and document graphs, mapped to their standard namespaces.
+     */
+    export const prefixes: { [prefix: string]: string } = {
+        rdf: rdfNamespace,
+        rdfs: rdfsNamespace,
+        xsd: xsdNamespace,
+        sh: shNamespace,
+        owl: owlNamespace
+    };
+
+    /**
+     * @description An RDF term.
+     * @export
+     * @interface Term
+     */
+    export interface Term {
+        /**
+         * @description The type of the term.
+         * @type {('NamedNode' | 'BlankNode' | 'Literal')}
+         * @memberof Term
+         */
+        termType: 'NamedNode' | 'BlankNode' | 'Literal';
+        /**
+         * @description The IRI of a named node, the label of a blank node or the lexical form of a literal.
+         * @type {string}
+         * @memberof Term
+         */
+        value: string;
+        /**
+         * @description The language of a language tagged literal.
+         * @type {string}
+         * @memberof Term
+         */
+        language?: string;
+        /**
+         * @description The datatype IRI of a literal.
+         * @type {string}
+         * @memberof Term
+         */
+        datatype?: string;
+    }
+
+    /**
+     * @description An RDF statement. Statements without a graph belong to the default graph.
+     * @export
+     * @interface Quad
+     */
+    export interface Quad {
+        subject: Term;
+        predicate: Term;
+        object: Term;
+        graph?: Term;
+    }
+
+    /**
+     * @description Creates a named node term.
+     * @export
+     * @param {string} iri The IRI of the node.
+     * @returns {Term}
+     */
+    export function namedNode(iri: string): Term {
+        return { termType: 'NamedNode', value: iri };
+    }
+
+    /**
+     * @description Creates a blank node term.
+     * @export
+     * @param {string} label The label of the blank node, without the _: prefix.
+     * @returns {Term}
+     */
+    export function blankNode(label: string): Term {
+        return { termType: 'BlankNode', value: label };
+    }
+
+    /**
+     * @description Creates a literal term.
+     * @export
+     * @param {string} value The lexical form of the literal.
+     * @param {string} [language] Optional language of the literal.
+     * @param {string} [datatype] Optional datatype IRI of the literal. Defaults to xsd:string, or rdf:langString when a language is specified.
+     * @returns {Term}
+     */
+    export function literal(value: string, language?: string, datatype?: string): Term {
+        if (language) {
+            return { termType: 'Literal', value, language, datatype: `${rdfNamespace}langString` };
+        }
+
+        return { termType: 'Literal', value, datatype: datatype || `${xsdNamespace}string` };
+    }
+
+    /**
+     * @description Gets the statements described by graph vertices.
+     * Literals of vocabulary properties are typed with the first data type in the range of the property that accepts the value.
+     * @export
+     * @param {Iterable<Vertex>} vertices The vertices whose attributes and outgoing edges are converted to statements.
+     * @param {types.Vocabulary} vocabulary The vocabulary the vocab prefix of vertex ids and property ranges are resolved from.
+     * @returns {Quad[]}
+     */
+    export function fromVertices(vertices: Iterable<Vertex>, vocabulary: types.Vocabulary): Quad[] {
+        const quads: Quad[] = [];
+        for (const vertex of vertices) {
+            const subject = toTerm(vertex.id, vocabulary.baseIri);
+            for (const { label, toVertex } of vertex.getOutgoing()) {
+                const predicate = label === '@type' ? namedNode(`${rdfNamespace}type`) : toTerm(label, vocabulary.baseIri);
+                quads.push({ subject, predicate, object: toTerm(toVertex.id, vocabulary.baseIri) });
+            }
+
+            for (const [name, values] of vertex.attributes) {
+                const predicate = toTerm(name, vocabulary.baseIri);
+                const property = getProperty(name, vocabulary);
+                for (const { value, language } of values) {
+                    const dataType = property && !language
+                        ? (property.range.first(x => x instanceof DataType && x.isValid(value)) as DataType)
+                        : undefined;
+
+                    quads.push({
+                        subject,
+                        predicate,
+                        object: dataType
+                            ? literal(`${value}`, undefined, toTerm(dataType.id, vocabulary.baseIri).value)
+                            : toLiteral(value, language)
+                    });
+                }
+            }
+        }
+
+        return quads;
+    }
+
+    /**
+     * @description Replaces the values of @list properties with RDF collections, so serializations of the statements retain the
+     * order and the repeated entries of the lists. Each collection is written in place of the first value of its list.
+     * @export
+     * @param {Quad[]} quads The statements of the vertices, in the order of the values of their lists.
+     * @param {types.Vocabulary} vocabulary The vocabulary the containers of properties are resolved from.
+     * @returns {Quad[]}
+     */
+    export function toCollections(quads: Quad[], vocabulary: types.Vocabulary): Quad[] {
+        const labels = new Set<string>();
+        const lists = new Map<string, Quad[]>();
+        const listKey = ({ subject, predicate }: Quad) => {
+            const property = getProperty(predicate.value, vocabulary);
+            return property && property.container === ContainerType.List
+                ? JSON.stringify([subject.termType, subject.value, predicate.value])
+                : undefined;
+        };
+
+        for (const quad of quads) {
+            [quad.subject, quad.object].filter(x => x.termType === 'BlankNode').forEach(x => labels.add(x.value));
+            const key = listKey(quad);
+            if (key) {
+                lists.set(key, [...(lists.get(key) || []), quad]);
+            }
+        }
+
+        let count = 0;
+        const newBlankNode = (): Term => {
+            while (labels.has(`l${count}`)) {
+                count += 1;
+            }
+
+            labels.add(`l${count}`);
+            return blankNode(`l${count}`);
+        };
+
+        const statements: Quad[] = [];
+        for (const quad of quads) {
+            const key = listKey(quad);
+            if (!key) {
+                statements.push(quad);
+                continue;
+            }
+
+            if (lists.get(key)[0] !== quad) {
+                continue;
+            }
+
+            const { subject, predicate, graph } = quad;
+            let node = newBlankNode();
+            statements.push({ subject, predicate, object: node, graph });
+            lists.get(key).forEach(({ object }, index, values) => {
+                const rest = index === values.length - 1 ? namedNode(`${rdfNamespace}nil`) : newBlankNode();
+                statements.push({ subject: node, predicate: namedNode(`${rdfNamespace}first`), object, graph });
+                statements.push({ subject: node, predicate: namedNode(`${rdfNamespace}rest`), object: rest, graph });
+                node = rest;
+            });
+        }
+
+        return statements;
+    }
+
+    /**
+     * @description Gets the statements describing the RDFS and OWL classes and properties of an ontology, in the form loaded by
+     * vocabularies. Only the types, class and property hierarchies, equivalent classes, inverse properties, domains, ranges,
+     * labels and comments of named classes and properties are retained.
+     * @export
+     * @param {Quad[]} quads The statements of the ontology.
+     * @returns {Quad[]}
+     */
+    export function schemaStatements(quads: Quad[]): Quad[] {
+        const classTypes = [`${rdfsNamespace}Class`, `${owlNamespace}Class`];
+        const propertyTypes = [`${rdfNamespace}Property`, `${owlNamespace}ObjectProperty`, `${owlNamespace}DatatypeProperty`];
+        const classes = new Set<string>();
+        const properties = new Set<string>();
+        for (const { subject, predicate, object } of quads) {
+            if (subject.termType === 'NamedNode' && predicate.value === `${rdfNamespace}type`) {
+                if (classTypes.includes(object.value)) {
+                    classes.add(subject.value);
+                } else if (propertyTypes.includes(object.value)) {
+                    properties.add(subject.value);
+                }
+            }
+        }
+
+        const statements: Quad[] = [];
+        for (const { subject, predicate, object } of quads) {
+            const isClass = classes.has(subject.value) && subject.termType === 'NamedNode';
+            const isProperty = properties.has(subject.value) && subject.termType === 'NamedNode';
+            switch (predicate.value) {
+                case `${rdfNamespace}type`:
+                    if ((isClass && classTypes.includes(object.value)) || (isProperty && propertyTypes.includes(object.value))) {
+                        statements.push({ subject, predicate, object });
+                    }
+                    break;
+                case `${rdfsNamespace}subClassOf`:
+                case `${owlNamespace}equivalentClass`:
+                    if (isClass && object.termType === 'NamedNode') {
+                        statements.push({ subject, predicate, object });
+                    }
+                    break;
+                case `${rdfsNamespace}subPropertyOf`:
+                case `${rdfsNamespace}domain`:
+                case `${rdfsNamespace}range`:
+                case `${owlNamespace}inverseOf`:
+                    if (isProperty && object.termType === 'NamedNode') {
+                        statements.push({ subject, predicate, object });
+                    }
+                    break;
+                case `${rdfsNamespace}label`:
+                case `${rdfsNamespace}comment`:
+                    if ((isClass || isProperty) && object.termType === 'Literal') {
+                        statements.push({ subject, predicate, object });
+                    }
+                    break;
+            }
+        }
+
+        return statements;
+    }
+
+    /**
+     * @description Converts statements to a JSON-LD document that can be loaded into vocabulary and document graphs.
+     * IRIs in the rdf, rdfs, xsd, sh and owl namespaces are compacted to the prefixes registered with the graphs.
+     * All nodes are returned in a single document, as blank node labels are scoped to the document they are loaded from.
+     * Well-formed RDF collections are converted to @list values, and their blank nodes are not returned.
+     * @export
+     * @param {Quad[]} quads The statements to convert.
+     * @returns {*}
+     */
+    export function toJsonLd(quads: Quad[]): any {
+        const nodes = new Map<string, any>();
+        const references = new Map<string, number>();
+        for (const { subject, predicate, object } of quads) {
+            const subjectId = toJsonLdId(subject);
+            if (!nodes.has(subjectId)) {
+                nodes.set(subjectId, { '@id': subjectId });
+            }
+
+            if (object.termType === 'BlankNode') {
+                references.set(toJsonLdId(object), (references.get(toJsonLdId(object)) || 0) + 1);
+            }
+
+            const node = nodes.get(subjectId);
+            if (predicate.value === `${rdfNamespace}type` && object.termType !== 'Literal') {
+                node['@type'] = [...(node['@type'] || []), toJsonLdId(object)];
+                continue;
+            }
+
+            const key = compactIri(predicate.value);
+            node[key] = [...(node[key] || []), toJsonLdValue(object)];
+        }
+
+        // A list node is a blank node referenced once, with a single rdf:first and rdf:rest and no other statements.
+        const isListNode = (id: string) => {
+            const node = id.startsWith('_:') && references.get(id) === 1 ? nodes.get(id) : undefined;
+            return !!node && Object.keys(node).length === 3 &&
+                (node['rdf:first'] || []).length === 1 && (node['rdf:rest'] || []).length === 1;
+        };
+
+        const listNodes = new Set<string>();
+        for (const node of nodes.values()) {
+            if (isListNode(node['@id'])) {
+                continue;
+            }
+
+            for (const key of Object.keys(node).filter(x => x !== '@id' && x !== '@type')) {
+                node[key] = node[key].map((value: any) => {
+                    const ids: string[] = [];
+                    let rest = value;
+                    while (rest['@id'] && isListNode(rest['@id']) && ids.indexOf(rest['@id']) < 0) {
+                        ids.push(rest['@id']);
+                        rest = nodes.get(rest['@id'])['rdf:rest'][0];
+                    }
+
+                    if (ids.length === 0 || rest['@id'] !== 'rdf:nil') {
+                        return value;
+                    }
+
+                    ids.forEach(x => listNodes.add(x));
+                    return { '@list': ids.map(x => nodes.get(x)['rdf:first'][0]) };
+                });
+            }
+        }
+
+        return { '@graph': [...nodes.values()].filter(x => !listNodes.has(x['@id'])) };
+    }
+
+    /**
+     * @description Compacts an IRI in the rdf, rdfs, xsd, sh or owl namespace to a prefixed name.
+     * @export
+     * @param {string} iri The IRI to compact.
+     * @returns {string}
+     */
+    export function compactIri(iri: string): string {
+        for (const prefix of Object.keys(prefixes)) {
+            if (iri.startsWith(prefixes[prefix]) && iri.length > prefixes[prefix].length) {
+                return `${prefix}:${iri.substring(prefixes[prefix].length)}`;
+            }
+        }
+
+        return iri;
+    }
+
+    /**
+     * @description Gets the value of a literal, as the boolean, number or string the literal is read into by documents.
+     * @export
+     * @param {Term} term The literal.
+     * @returns {*}
+     */
+    export function literalValue(term: Term): any {
+        return toJsonLdValue(term)['@value'];
+    }
+
+    function getProperty(id: string, vocabulary: types.Vocabulary): Property {
+        const propertyV = vocabulary.graph.getVertex(identity.expand(id, vocabulary.baseIri));
+        return propertyV && propertyV.isType('rdf:Property') ? vocabulary.getProperty(propertyV.id) : undefined;
+    }
+
+    function toTerm(id: string, baseIri: string): Term {
+        if (id.startsWith('_:')) {
+            return blankNode(id.substring(2));
+        }
+
+        if (id.startsWith('vocab:')) {
+            return namedNode(`${baseIri}${id.substring('vocab:'.length)}`);
+        }
+
+        const prefix = id.substring(0, id.indexOf(':'));
+        if (prefixes[prefix] && !id.startsWith(`${prefix}://`)) {
+            return namedNode(`${prefixes[prefix]}${id.substring(prefix.length + 1)}`);
+        }
+
+        return namedNode(id);
+    }
+
+    function toLiteral(value: any, language?: string): Term {
+        switch (typeof value) {
+            case 'boolean':
+                return literal(`${value}`, undefined, `${xsdNamespace}boolean`);
+            case 'number':
+                return Number.isInteger(value)
+                    ? literal(`${value}`, undefined, `${xsdNamespace}integer`)
+                    : literal(`${value}`, undefined, `${xsdNamespace}double`);
+            default:
+                return literal(`${value}`, language);
+        }
+    }
+
+    function toJsonLdId(term: Term): string {
+        return term.termType === 'BlankNode' ? `_:${term.value}` : compactIri(term.value);
+    }
+
+    function toJsonLdValue(term: Term): any {
+        if (term.termType !== 'Literal') {
+            return { '@id': toJsonLdId(term) };
+        }
+
+        if (term.language) {
+            return { '@value': term.value, '@language': term.language };
+        }
+
+        switch (term.datatype) {
+            case undefined:
+            case `${xsdNamespace}string`:
+                return { '@value': term.value };
+            case `${xsdNamespace}boolean`:
+                return { '@value': term.value === 'true' || term.value === '1' };
+            case `${xsdNamespace}decimal`:
+            case `${xsdNamespace}double`:
+            case `${xsdNamespace}float`:
+            case `${xsdNamespace}int`:
+            case `${xsdNamespace}integer`:
+            case `${xsdNamespace}long`:
+            case `${xsdNamespace}short`:
+                return { '@value': Number(term.value) };
+            default:
+                return { '@value': term.value, '@type': compactIri(term.datatype) };
+        }
+    }
+}
+
+export default Rdf;
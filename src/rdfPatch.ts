@@ -0,0 +1,84 @@
+import { RdfSyntaxError } from './errors';
+import NQuads from './nquads';
+import Rdf from './rdf';
+
+export namespace RdfPatch {
+    /**
+     * @description Statements added to and deleted from a graph.
+     * @export
+     * @interface Changes
+     */
+    export interface Changes {
+        added: Rdf.Quad[];
+        deleted: Rdf.Quad[];
+    }
+
+    /**
+     * @description Parses an RDF Patch document. Header, transaction and comment lines are ignored.
+     * Prefixed names are not supported, terms must be written as in N-Triples.
+     * @export
+     * @param {string} text The patch to parse.
+     * @returns {Changes} The statements added and deleted by the patch, in the order they appear in the patch.
+     */
+    export function parse(text: string): Changes {
+        const changes: Changes = { added: [], deleted: [] };
+        text.split(/\r?\n|\r/).forEach((line, index) => {
+            const trimmed = line.trim();
+            if (!trimmed || trimmed.startsWith('#')) {
+                return;
+            }
+
+            const [code] = trimmed.split(/\s/, 1);
+            const rest = trimmed.substring(code.length);
+            switch (code) {
+                case 'A':
+                    changes.added.push(parseQuad(rest, index + 1));
+                    break;
+                case 'D':
+                    changes.deleted.push(parseQuad(rest, index + 1));
+                    break;
+                case 'H':
+                case 'TX':
+                case 'TC':
+                case 'TA':
+                    break;
+                default:
+                    throw new RdfSyntaxError('RDF Patch', index + 1, `Unsupported row '${code}'`);
+            }
+        });
+
+        return changes;
+    }
+
+    /**
+     * @description Writes statement changes as an RDF Patch document containing a single transaction.
+     * @export
+     * @param {Changes} changes The statements to delete and add.
+     * @returns {string}
+     */
+    export function write(changes: Changes): string {
+        const rows = [
+            ...changes.deleted.map(x => `D ${NQuads.write([x])}`),
+            ...changes.added.map(x => `A ${NQuads.write([x])}`)
+        ];
+
+        return `TX .\n${rows.join('')}TC .\n`;
+    }
+
+    function parseQuad(text: string, line: number): Rdf.Quad {
+        let quads: Rdf.Quad[];
+        try {
+            quads = NQuads.parse(text, 'N-Quads');
+        } catch (err) {
+            throw err instanceof RdfSyntaxError ? new RdfSyntaxError('RDF Patch', line, err.details) : err;
+        }
+
+        if (quads.length !== 1) {
+            throw new RdfSyntaxError('RDF Patch', line, 'Expected a statement');
+        }
+
+        return quads[0];
+    }
+}
+
+export default RdfPatch;
@@ -0,0 +1,425 @@
+import { RdfSyntaxError } from './errors';
+import Rdf from './rdf';
+
+const xmlNamespace = 'http://www.w3.org/XML/1998/namespace';
+const syntaxAttributes = ['about', 'ID', 'nodeID', 'resource', 'datatype', 'parseType', 'bagID', 'aboutEach', 'aboutEachPrefix'];
+const predefinedEntities: { [name: string]: string } = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * @description An XML element with resolved namespaces.
+ */
+interface XmlElement {
+    iri: string;
+    attributes: { iri: string; value: string }[];
+    children: (XmlElement | string)[];
+    base: string;
+    language: string;
+    line: number;
+}
+
+/**
+ * @description Parses the subset of XML used by RDF/XML documents into elements with namespace resolved names.
+ */
+class XmlParser {
+    private readonly _entities: { [name: string]: string } = { ...predefinedEntities };
+    private _position = 0;
+
+    constructor(private readonly _text: string) {}
+
+    parse(base: string): XmlElement {
+        let root: XmlElement;
+        while (this._position < this._text.length) {
+            if (this._text.startsWith('<?', this._position)) {
+                this._skipPast('?>');
+            } else if (this._text.startsWith('<!--', this._position)) {
+                this._skipPast('-->');
+            } else if (this._text.startsWith('<!DOCTYPE', this._position)) {
+                this._parseDoctype();
+            } else if (this._text[this._position] === '<') {
+                if (root) {
+                    throw this._error('Only one root element is allowed');
+                }
+
+                root = this._parseElement({ xml: xmlNamespace }, base, undefined);
+            } else if (/\s/.test(this._text[this._position])) {
+                this._position += 1;
+            } else {
+                throw this._error('Unexpected text outside of the root element');
+            }
+        }
+
+        if (!root) {
+            throw this._error('Missing root element');
+        }
+
+        return root;
+    }
+
+    error(details: string, line: number): RdfSyntaxError {
+        return new RdfSyntaxError('RDF/XML', line, details);
+    }
+
+    private _decode(text: string): string {
+        return text.replace(/&(#x[0-9A-Fa-f]+|#[0-9]+|[A-Za-z_][\w.\-]*);/g, (match, entity: string) => {
+            if (entity.startsWith('#x')) {
+                return String.fromCodePoint(parseInt(entity.substring(2), 16));
+            }
+
+            if (entity.startsWith('#')) {
+                return String.fromCodePoint(parseInt(entity.substring(1), 10));
+            }
+
+            if (this._entities[entity] === undefined) {
+                throw this._error(`Undefined entity '${match}'`);
+            }
+
+            return this._entities[entity];
+        });
+    }
+
+    private _error(details: string): RdfSyntaxError {
+        return this.error(details, this._line());
+    }
+
+    private _line(): number {
+        return this._text.substring(0, this._position).split('\n').length;
+    }
+
+    private _parseDoctype(): void {
+        const subsetStart = this._text.indexOf('[', this._position);
+        const end = this._text.indexOf('>', this._position);
+        if (subsetStart >= 0 && subsetStart < end) {
+            const subsetEnd = this._text.indexOf(']', subsetStart);
+            if (subsetEnd < 0) {
+                throw this._error('Unterminated DOCTYPE');
+            }
+
+            const entityPattern = /<!ENTITY\s+([A-Za-z_][\w.\-]*)\s+("([^"]*)"|'([^']*)')\s*>/g;
+            const subset = this._text.substring(subsetStart, subsetEnd);
+            let match = entityPattern.exec(subset);
+            while (match) {
+                this._entities[match[1]] = this._decode(match[3] !== undefined ? match[3] : match[4]);
+                match = entityPattern.exec(subset);
+            }
+
+            this._position = subsetEnd;
+        }
+
+        this._skipPast('>');
+    }
+
+    private _parseElement(namespaces: { [prefix: string]: string }, base: string, language: string): XmlElement {
+        const line = this._line();
+        const match = /^<([A-Za-z_][\w.\-]*(:[A-Za-z_][\w.\-]*)?)/.exec(this._text.substring(this._position));
+        if (!match) {
+            throw this._error('Invalid element name');
+        }
+
+        this._position += match[0].length;
+        const name = match[1];
+        const rawAttributes: [string, string][] = [];
+        const attributePattern = /^\s+([A-Za-z_][\w.\-]*(:[A-Za-z_][\w.\-]*)?)\s*=\s*("([^"]*)"|'([^']*)')/;
+        let attributeMatch = attributePattern.exec(this._text.substring(this._position));
+        while (attributeMatch) {
+            const value = attributeMatch[4] !== undefined ? attributeMatch[4] : attributeMatch[5];
+            rawAttributes.push([attributeMatch[1], this._decode(value)]);
+            this._position += attributeMatch[0].length;
+            attributeMatch = attributePattern.exec(this._text.substring(this._position));
+        }
+
+        const scope = { ...namespaces };
+        for (const [attribute, value] of rawAttributes) {
+            if (attribute === 'xmlns') {
+                scope[''] = value;
+            } else if (attribute.startsWith('xmlns:')) {
+                scope[attribute.substring(6)] = value;
+            }
+        }
+
+        const element: XmlElement = {
+            iri: this._resolveName(name, scope, true),
+            attributes: [],
+            children: [],
+            base,
+            language,
+            line
+        };
+
+        for (const [attribute, value] of rawAttributes) {
+            if (attribute === 'xmlns' || attribute.startsWith('xmlns:')) {
+                continue;
+            }
+
+            const iri = this._resolveName(attribute, scope, false);
+            if (iri === `${xmlNamespace}base`) {
+                element.base = resolve(value, base);
+            } else if (iri === `${xmlNamespace}lang`) {
+                element.language = value || undefined;
+            } else if (!iri.startsWith(xmlNamespace)) {
+                element.attributes.push({ iri, value });
+            }
+        }
+
+        const tagEnd = /^\s*(\/?)>/.exec(this._text.substring(this._position));
+        if (!tagEnd) {
+            throw this._error(`Invalid start tag of element '${name}'`);
+        }
+
+        this._position += tagEnd[0].length;
+        if (tagEnd[1]) {
+            return element;
+        }
+
+        while (!this._text.startsWith(`</`, this._position)) {
+            if (this._position >= this._text.length) {
+                throw this._error(`Unterminated element '${name}'`);
+            }
+
+            if (this._text.startsWith('<!--', this._position)) {
+                this._skipPast('-->');
+            } else if (this._text.startsWith('<![CDATA[', this._position)) {
+                const end = this._text.indexOf(']]>', this._position);
+                if (end < 0) {
+                    throw this._error('Unterminated CDATA section');
+                }
+
+                element.children.push(this._text.substring(this._position + 9, end));
+                this._position = end + 3;
+            } else if (this._text.startsWith('<?', this._position)) {
+                this._skipPast('?>');
+            } else if (this._text[this._position] === '<') {
+                element.children.push(this._parseElement(scope, element.base, element.language));
+            } else {
+                const end = this._text.indexOf('<', this._position);
+                const text = this._text.substring(this._position, end < 0 ? this._text.length : end);
+                element.children.push(this._decode(text));
+                this._position += text.length;
+            }
+        }
+
+        const endTag = /^<\/([^\s>]+)\s*>/.exec(this._text.substring(this._position));
+        if (!endTag || endTag[1] !== name) {
+            throw this._error(`Expected end tag of element '${name}'`);
+        }
+
+        this._position += endTag[0].length;
+        return element;
+    }
+
+    private _resolveName(name: string, namespaces: { [prefix: string]: string }, useDefault: boolean): string {
+        const separator = name.indexOf(':');
+        const prefix = separator < 0 ? (useDefault ? '' : undefined) : name.substring(0, separator);
+        const localName = name.substring(separator + 1);
+        if (prefix === undefined) {
+            // Unqualified attributes are only allowed for RDF syntax attributes, which are interpreted in the RDF namespace.
+            return syntaxAttributes.includes(localName) ? `${Rdf.rdfNamespace}${localName}` : localName;
+        }
+
+        if (namespaces[prefix] === undefined) {
+            throw this._error(`Undefined namespace prefix '${prefix}'`);
+        }
+
+        return `${namespaces[prefix]}${localName}`;
+    }
+
+    private _skipPast(token: string): void {
+        const end = this._text.indexOf(token, this._position);
+        if (end < 0) {
+            throw this._error(`Expected '${token}'`);
+        }
+
+        this._position = end + token.length;
+    }
+}
+
+/**
+ * @description Resolves a possibly relative IRI reference against a base IRI.
+ * @param {string} reference The reference to resolve.
+ * @param {string} base The base IRI.
+ * @returns {string}
+ */
+function resolve(reference: string, base: string): string {
+    if (!base || /^[a-zA-Z][a-zA-Z0-9+.\-]*:/.test(reference)) {
+        return reference;
+    }
+
+    return new URL(reference, base).href;
+}
+
+/**
+ * @description Converts RDF/XML elements into statements.
+ */
+class RdfXmlReader {
+    private readonly _quads: Rdf.Quad[] = [];
+    private _blankNodeCount = 0;
+
+    constructor(private readonly _parser: XmlParser) {}
+
+    read(root: XmlElement): Rdf.Quad[] {
+        if (root.iri === rdf('RDF')) {
+            for (const child of this._elements(root)) {
+                this._readNode(child);
+            }
+        } else {
+            this._readNode(root);
+        }
+
+        return this._quads;
+    }
+
+    private _attribute(element: XmlElement, name: string): string {
+        const attribute = element.attributes.find(x => x.iri === rdf(name));
+        return attribute ? attribute.value : undefined;
+    }
+
+    private _elements(element: XmlElement): XmlElement[] {
+        for (const child of element.children) {
+            if (typeof child === 'string' && child.trim()) {
+                throw this._parser.error(`Unexpected text '${child.trim().substr(0, 10)}'`, element.line);
+            }
+        }
+
+        return element.children.filter(x => typeof x !== 'string') as XmlElement[];
+    }
+
+    private _emit(subject: Rdf.Term, predicate: string, object: Rdf.Term): void {
+        this._quads.push({ subject, predicate: Rdf.namedNode(predicate), object });
+    }
+
+    private _newBlankNode(): Rdf.Term {
+        this._blankNodeCount += 1;
+        return Rdf.blankNode(`genid${this._blankNodeCount}`);
+    }
+
+    private _propertyAttributes(element: XmlElement): { iri: string; value: string }[] {
+        return element.attributes.filter(x => !syntaxAttributes.some(name => x.iri === rdf(name)));
+    }
+
+    private _readNode(element: XmlElement): Rdf.Term {
+        const about = this._attribute(element, 'about');
+        const id = this._attribute(element, 'ID');
+        const nodeId = this._attribute(element, 'nodeID');
+        const subject = about !== undefined
+            ? Rdf.namedNode(resolve(about, element.base))
+            : id !== undefined
+            ? Rdf.namedNode(`${(element.base || '').split('#')[0]}#${id}`)
+            : nodeId !== undefined
+            ? Rdf.blankNode(nodeId)
+            : this._newBlankNode();
+
+        if (element.iri !== rdf('Description')) {
+            this._emit(subject, rdf('type'), Rdf.namedNode(element.iri));
+        }
+
+        this._readPropertyAttributes(element, subject);
+        let index = 0;
+        for (const child of this._elements(element)) {
+            if (child.iri === rdf('li')) {
+                index += 1;
+                child.iri = rdf(`_${index}`);
+            }
+
+            this._readProperty(child, subject);
+        }
+
+        return subject;
+    }
+
+    private _readProperty(element: XmlElement, subject: Rdf.Term): void {
+        const parseType = this._attribute(element, 'parseType');
+        if (parseType === 'Resource') {
+            const object = this._newBlankNode();
+            this._emit(subject, element.iri, object);
+            for (const child of this._elements(element)) {
+                this._readProperty(child, object);
+            }
+
+            return;
+        }
+
+        if (parseType === 'Collection') {
+            const items = this._elements(element).map(x => this._readNode(x));
+            let next = Rdf.namedNode(rdf('nil'));
+            for (const item of items.reverse()) {
+                const node = this._newBlankNode();
+                this._emit(node, rdf('first'), item);
+                this._emit(node, rdf('rest'), next);
+                next = node;
+            }
+
+            this._emit(subject, element.iri, next);
+            return;
+        }
+
+        if (parseType === 'Literal') {
+            this._emit(subject, element.iri, Rdf.literal(textOf(element), undefined, rdf('XMLLiteral')));
+            return;
+        }
+
+        const children = element.children.filter(x => typeof x !== 'string') as XmlElement[];
+        if (children.length > 0) {
+            if (children.length > 1) {
+                throw this._parser.error('A property element can only contain one node element', element.line);
+            }
+
+            this._emit(subject, element.iri, this._readNode(this._elements(element)[0]));
+            return;
+        }
+
+        const resource = this._attribute(element, 'resource');
+        const nodeId = this._attribute(element, 'nodeID');
+        const propertyAttributes = this._propertyAttributes(element);
+        if (resource !== undefined || nodeId !== undefined || propertyAttributes.length > 0) {
+            const object = resource !== undefined
+                ? Rdf.namedNode(resolve(resource, element.base))
+                : nodeId !== undefined
+                ? Rdf.blankNode(nodeId)
+                : this._newBlankNode();
+
+            this._emit(subject, element.iri, object);
+            this._readPropertyAttributes(element, object);
+            return;
+        }
+
+        const datatype = this._attribute(element, 'datatype');
+        const literal = datatype
+            ? Rdf.literal(textOf(element), undefined, resolve(datatype, element.base))
+            : Rdf.literal(textOf(element), element.language);
+
+        this._emit(subject, element.iri, literal);
+    }
+
+    private _readPropertyAttributes(element: XmlElement, subject: Rdf.Term): void {
+        for (const { iri, value } of this._propertyAttributes(element)) {
+            if (iri === rdf('type')) {
+                this._emit(subject, iri, Rdf.namedNode(resolve(value, element.base)));
+            } else {
+                this._emit(subject, iri, Rdf.literal(value, element.language));
+            }
+        }
+    }
+}
+
+function rdf(localName: string): string {
+    return `${Rdf.rdfNamespace}${localName}`;
+}
+
+function textOf(element: XmlElement): string {
+    return element.children.map(x => (typeof x === 'string' ? x : textOf(x))).join('');
+}
+
+export namespace RdfXml {
+    /**
+     * @description Parses an RDF/XML document.
+     * @export
+     * @param {string} xml The RDF/XML document to parse.
+     * @param {string} [base] Optional base IRI used to resolve relative IRIs when the document does not declare xml:base.
+     * @returns {Rdf.Quad[]} The parsed statements.
+     */
+    export function parse(xml: string, base?: string): Rdf.Quad[] {
+        const parser = new XmlParser(xml);
+        return new RdfXmlReader(parser).read(parser.parse(base));
+    }
+}
+
+export default RdfXml;
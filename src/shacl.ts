@@ -0,0 +1,100 @@
+import Class from './class';
+import DataType from './dataType';
+import * as identity from './identity';
+import Property from './property';
+import Rdf from './rdf';
+import Vocabulary from './types';
+
+export namespace Shacl {
+    /**
+     * @description Generates a SHACL shapes graph from the classes of a vocabulary.
+     * @export
+     * @param {Vocabulary} vocabulary The vocabulary to generate the shapes graph from.
+     * @returns {*} The shapes graph in JSON-LD form.
+     */
+    export function generate(vocabulary: Vocabulary): any {
+        return {
+            '@context': {
+                vocab: vocabulary.baseIri,
+                rdfs: Rdf.rdfsNamespace,
+                sh: Rdf.shNamespace,
+                xsd: Rdf.xsdNamespace
+            },
+            '@graph': vocabulary.classes.map(classType => createNodeShape(classType, vocabulary)).items()
+        };
+    }
+
+    function createNodeShape(classType: Class, vocabulary: Vocabulary): any {
+        const classId = identity.expand(classType.id, vocabulary.baseIri);
+        const shape: any = {
+            '@id': `${classId}Shape`,
+            '@type': 'sh:NodeShape',
+            'sh:targetClass': { '@id': classId }
+        };
+
+        if (classType.label) {
+            shape['rdfs:label'] = classType.label;
+        }
+
+        if (classType.comment) {
+            shape['rdfs:comment'] = classType.comment;
+        }
+
+        const propertyShapes = [];
+        const tracker = new Set<string>();
+        for (const property of classType.properties) {
+            if (property && !tracker.has(property.id)) {
+                tracker.add(property.id);
+                propertyShapes.push(createPropertyShape(classType, property, vocabulary));
+            }
+        }
+
+        if (propertyShapes.length > 0) {
+            shape['sh:property'] = propertyShapes;
+        }
+
+        return shape;
+    }
+
+    function createPropertyShape(classType: Class, property: Property, vocabulary: Vocabulary): any {
+        const shape: any = {
+            'sh:path': { '@id': identity.expand(property.id, vocabulary.baseIri) }
+        };
+
+        if (property.label) {
+            shape['sh:name'] = property.label;
+        }
+
+        if (property.comment) {
+            shape['sh:description'] = property.comment;
+        }
+
+        const rangeConstraints = property.range
+            .filter(range => !!range)
+            .map(range =>
+                range instanceof DataType
+                    ? { 'sh:datatype': { '@id': range.id } }
+                    : { 'sh:class': { '@id': identity.expand(range.id, vocabulary.baseIri) } }
+            )
+            .items();
+
+        if (rangeConstraints.length === 1) {
+            Object.assign(shape, rangeConstraints[0]);
+        } else if (rangeConstraints.length > 1) {
+            shape['sh:or'] = { '@list': rangeConstraints };
+        }
+
+        const cardinality = classType.getCardinality(property);
+        if (cardinality && cardinality.minCount !== undefined) {
+            shape['sh:minCount'] = cardinality.minCount;
+        }
+
+        if (cardinality && cardinality.maxCount !== undefined) {
+            shape['sh:maxCount'] = cardinality.maxCount;
+        }
+
+        return shape;
+    }
+}
+
+export default Shacl;
@@ -0,0 +1,133 @@
+import * as identity from './identity';
+import Rdf from './rdf';
+
+/**
+ * @description A result of validating a focus node against a SHACL shape.
+ * @export
+ * @interface ShaclValidationResult
+ */
+export interface ShaclValidationResult {
+    /**
+     * @description The id of the instance that was validated.
+     * @type {string}
+     * @memberof ShaclValidationResult
+     */
+    focusNode: string;
+    /**
+     * @description The id of the property whose values were validated, if any.
+     * @type {string}
+     * @memberof ShaclValidationResult
+     */
+    resultPath?: string;
+    /**
+     * @description The JSON-LD node reference or value object that caused the result, if any.
+     * @type {*}
+     * @memberof ShaclValidationResult
+     */
+    value?: any;
+    /**
+     * @description The id of the shape that produced the result.
+     * @type {string}
+     * @memberof ShaclValidationResult
+     */
+    sourceShape: string;
+    /**
+     * @description The constraint component that produced the result. e.g. sh:MinCountConstraintComponent.
+     * @type {string}
+     * @memberof ShaclValidationResult
+     */
+    sourceConstraintComponent: string;
+    /**
+     * @description The severity of the result. e.g. sh:Violation.
+     * @type {string}
+     * @memberof ShaclValidationResult
+     */
+    resultSeverity: string;
+    /**
+     * @description Details of the result.
+     * @type {string}
+     * @memberof ShaclValidationResult
+     */
+    resultMessage: string;
+}
+
+/**
+ * @description Report of validating a document against a SHACL shapes graph.
+ * @export
+ * @class ShaclValidationReport
+ */
+export class ShaclValidationReport {
+    private readonly _results: ShaclValidationResult[];
+
+    /**
+     * Creates an instance of ShaclValidationReport.
+     * @param {string} baseIri The base IRI of the vocabulary used by the validated document.
+     * @param {ShaclValidationResult[]} [results=[]] The validation results.
+     * @memberof ShaclValidationReport
+     */
+    constructor(private readonly _baseIri: string, results: ShaclValidationResult[] = []) {
+        if (!_baseIri) {
+            throw new ReferenceError(`Invalid baseIri. baseIri is '${_baseIri}'`);
+        }
+
+        this._results = results;
+    }
+
+    /**
+     * @description True if the validation did not produce any results, else false.
+     * @readonly
+     * @type {boolean}
+     * @memberof ShaclValidationReport
+     */
+    get conforms(): boolean {
+        return this._results.length === 0;
+    }
+
+    /**
+     * @description Gets all validation results.
+     * @readonly
+     * @type {ShaclValidationResult[]}
+     * @memberof ShaclValidationReport
+     */
+    get results(): ShaclValidationResult[] {
+        return [...this._results];
+    }
+
+    /**
+     * @description Gets a sh:ValidationReport JSON-LD representation of the report.
+     * @returns {*}
+     * @memberof ShaclValidationReport
+     */
+    toJson(): any {
+        return {
+            '@context': {
+                vocab: this._baseIri,
+                sh: Rdf.shNamespace
+            },
+            '@type': 'sh:ValidationReport',
+            'sh:conforms': this.conforms,
+            'sh:result': this._results.map(result => {
+                const json: any = {
+                    '@type': 'sh:ValidationResult',
+                    'sh:focusNode': { '@id': identity.expand(result.focusNode, this._baseIri) },
+                    'sh:sourceShape': { '@id': result.sourceShape },
+                    'sh:sourceConstraintComponent': { '@id': result.sourceConstraintComponent },
+                    'sh:resultSeverity': { '@id': result.resultSeverity },
+                    'sh:resultMessage': result.resultMessage
+                };
+
+                if (result.resultPath) {
+                    json['sh:resultPath'] = { '@id': identity.expand(result.resultPath, this._baseIri) };
+                }
+
+                if (result.value !== undefined) {
+                    json['sh:value'] = result.value;
+                }
+
+                return json;
+            })
+        };
+    }
+}
+
+export default ShaclValidationReport;
@@ -0,0 +1,370 @@
+import Iterable from 'jsiterable';
+import JsonldGraph, { Vertex } from 'jsonld-graph';
+import DataType from './dataType';
+import Document from './document';
+import * as identity from './identity';
+import Instance from './instance';
+import Rdf from './rdf';
+import ShaclValidationReport, { ShaclValidationResult } from './shaclValidationReport';
+
+const targetPredicates = ['sh:targetClass', 'sh:targetNode', 'sh:targetSubjectsOf', 'sh:targetObjectsOf'];
+
+/**
+ * @description A value node of a focus node.
+ */
+interface ValueNode {
+    value?: any;
+    language?: string;
+    vertex?: Vertex;
+}
+
+/**
+ * @description A SHACL shapes graph used to validate documents.
+ * @export
+ * @class ShapesGraph
+ */
+export class ShapesGraph {
+    private readonly _graph: JsonldGraph;
+
+    /**
+     * Creates an instance of ShapesGraph.
+     * @memberof ShapesGraph
+     */
+    constructor() {
+        this._graph = new JsonldGraph();
+        this._graph.addPrefix('rdf', Rdf.rdfNamespace);
+        this._graph.addPrefix('rdfs', Rdf.rdfsNamespace);
+        this._graph.addPrefix('sh', Rdf.shNamespace);
+        this._graph.addPrefix('xsd', Rdf.xsdNamespace);
+    }
+
+    /**
+     * @description Gets the ids of all shapes that have targets in the shapes graph.
+     * @readonly
+     * @type {Iterable<string>}
+     * @memberof ShapesGraph
+     */
+    get shapes(): Iterable<string> {
+        return this._getTargetedShapes().map(x => x.id);
+    }
+
+    /**
+     * @description Loads a SHACL shapes graph definition.
+     * @param {(object | object[])} definition The shapes graph definitions in JSON-LD form to load.
+     * @returns {Promise<void>}
+     * @memberof ShapesGraph
+     */
+    async load(definition: object | object[]): Promise<void> {
+        if (!definition) {
+            throw new ReferenceError(`Invalid definition. definition is '${definition}'`);
+        }
+
+        await this._graph.load(definition);
+    }
+
+    /**
+     * @description Validates the instances of a document against the shapes of the shapes graph.
+     * Supports targets, nested property shapes with predicate or inverse paths and the minCount, maxCount,
+     * datatype, class, pattern, in and nodeKind SHACL core constraints.
+     * @param {Document} document The document to validate.
+     * @returns {ShaclValidationReport}
+     * @memberof ShapesGraph
+     */
+    validate(document: Document): ShaclValidationReport {
+        if (!document) {
+            throw new ReferenceError(`Invalid document. document is '${document}'`);
+        }
+
+        const results: ShaclValidationResult[] = [];
+        for (const shapeV of this._getTargetedShapes()) {
+            for (const focusNode of this._getFocusNodes(shapeV, document)) {
+                results.push(...this._validateShape(shapeV, focusNode, document));
+            }
+        }
+
+        return new ShaclValidationReport(document.vocabulary.baseIri, results);
+    }
+
+    private _getTargetedShapes(): Iterable<Vertex> {
+        return this._graph
+            .getVertices()
+            .filter(vertex =>
+                !this._isDeactivated(vertex) &&
+                (targetPredicates.some(x => vertex.getOutgoing(x).count() > 0) ||
+                    (vertex.isType('rdfs:Class') && (vertex.isType('sh:NodeShape') || vertex.isType('sh:PropertyShape'))))
+            );
+    }
+
+    private _getFocusNodes(shapeV: Vertex, document: Document): Instance[] {
+        const baseIri = document.vocabulary.baseIri;
+        const focusNodes = new Map<string, Instance>();
+        const addFocusNode = (instance: Instance) => {
+            if (instance) {
+                focusNodes.set(instance.id, instance);
+            }
+        };
+
+        const targetClasses = shapeV.getOutgoing('sh:targetClass').map(x => x.toVertex.id).items();
+        if (shapeV.isType('rdfs:Class')) {
+            targetClasses.push(shapeV.id);
+        }
+
+        for (const targetClass of targetClasses) {
+            const classId = identity.expand(targetClass, baseIri);
+            for (const instance of document.instances) {
+                if (this._isInstanceOf(instance.vertex, classId, document)) {
+                    addFocusNode(instance);
+                }
+            }
+        }
+
+        for (const { toVertex } of shapeV.getOutgoing('sh:targetNode')) {
+            const instanceId = identity.compact(toVertex.id, baseIri);
+            if (document.hasInstance(instanceId)) {
+                addFocusNode(document.getInstance(instanceId));
+            }
+        }
+
+        for (const { toVertex } of shapeV.getOutgoing('sh:targetSubjectsOf')) {
+            const predicate = identity.expand(toVertex.id, baseIri);
+            for (const instance of document.instances) {
+                if (instance.vertex.hasAttribute(predicate) || instance.vertex.getOutgoing(predicate).count() > 0) {
+                    addFocusNode(instance);
+                }
+            }
+        }
+
+        for (const { toVertex } of shapeV.getOutgoing('sh:targetObjectsOf')) {
+            const predicate = identity.expand(toVertex.id, baseIri);
+            for (const instance of document.instances) {
+                for (const { toVertex: objectV } of instance.vertex.getOutgoing(predicate)) {
+                    const objectId = identity.compact(objectV.id, baseIri);
+                    if (document.hasInstance(objectId)) {
+                        addFocusNode(document.getInstance(objectId));
+                    }
+                }
+            }
+        }
+
+        return [...focusNodes.values()];
+    }
+
+    private _validateShape(shapeV: Vertex, focusNode: Instance, document: Document): ShaclValidationResult[] {
+        if (this._isDeactivated(shapeV)) {
+            return [];
+        }
+
+        const baseIri = document.vocabulary.baseIri;
+        const results: ShaclValidationResult[] = [];
+        const pathV = shapeV.getOutgoing('sh:path').map(x => x.toVertex).first();
+        let resultPath: string;
+        let valueNodes: ValueNode[];
+        if (!pathV) {
+            valueNodes = [{ vertex: focusNode.vertex }];
+        } else if (pathV.getOutgoing('sh:inversePath').count() > 0) {
+            // Only predicate and inverse predicate paths are supported.
+            resultPath = identity.compact(pathV.getOutgoing('sh:inversePath').first().toVertex.id, baseIri);
+            valueNodes = focusNode.vertex
+                .getIncoming(identity.expand(resultPath, baseIri))
+                .map(x => ({ vertex: x.fromVertex }))
+                .items();
+        } else if (!pathV.isBlankNode) {
+            resultPath = identity.compact(pathV.id, baseIri);
+            const predicate = identity.expand(pathV.id, baseIri);
+            valueNodes = [
+                ...focusNode.vertex.getAttributeValues(predicate).map(x => ({ value: x.value, language: x.language })),
+                ...focusNode.vertex.getOutgoing(predicate).map(x => ({ vertex: x.toVertex }))
+            ];
+        } else {
+            return [];
+        }
+
+        const report = (component: string, message: string, valueNode?: ValueNode) => {
+            const result: ShaclValidationResult = {
+                focusNode: focusNode.id,
+                sourceShape: shapeV.id,
+                sourceConstraintComponent: `sh:${component}ConstraintComponent`,
+                resultSeverity: shapeV.getOutgoing('sh:severity').map(x => x.toVertex.id).first() || 'sh:Violation',
+                resultMessage: shapeV.getAttributeValue('sh:message') || message
+            };
+
+            if (resultPath) {
+                result.resultPath = resultPath;
+            }
+
+            if (valueNode) {
+                result.value = this._toTerm(valueNode, baseIri);
+            }
+
+            results.push(result);
+        };
+
+        const minCount = this._getNumber(shapeV, 'sh:minCount');
+        if (pathV && minCount !== undefined && valueNodes.length < minCount) {
+            report('MinCount', `Less than ${minCount} values on ${focusNode.id}->${resultPath}`);
+        }
+
+        const maxCount = this._getNumber(shapeV, 'sh:maxCount');
+        if (pathV && maxCount !== undefined && valueNodes.length > maxCount) {
+            report('MaxCount', `More than ${maxCount} values on ${focusNode.id}->${resultPath}`);
+        }
+
+        const datatypes = shapeV.getOutgoing('sh:datatype').map(x => x.toVertex.id).items();
+        const classes = shapeV.getOutgoing('sh:class').map(x => identity.expand(x.toVertex.id, baseIri)).items();
+        const nodeKind = shapeV.getOutgoing('sh:nodeKind').map(x => x.toVertex.id).first();
+        const pattern = shapeV.hasAttribute('sh:pattern')
+            ? new RegExp(shapeV.getAttributeValue('sh:pattern'), shapeV.getAttributeValue('sh:flags') || '')
+            : undefined;
+        const allowedValues = shapeV.hasAttribute('sh:in') || shapeV.getOutgoing('sh:in').count() > 0
+            ? this._getList(shapeV, 'sh:in')
+            : undefined;
+
+        for (const valueNode of valueNodes) {
+            const description = this._describe(valueNode, baseIri);
+            for (const datatype of datatypes) {
+                if (!this._hasDatatype(valueNode, datatype)) {
+                    report('Datatype', `Value ${description} does not have datatype ${datatype}`, valueNode);
+                }
+            }
+
+            for (const classId of classes) {
+                if (!valueNode.vertex || !this._isInstanceOf(valueNode.vertex, classId, document)) {
+                    report('Class', `Value ${description} is not an instance of ${classId}`, valueNode);
+                }
+            }
+
+            if (nodeKind && !this._hasNodeKind(valueNode, nodeKind)) {
+                report('NodeKind', `Value ${description} does not have node kind ${nodeKind}`, valueNode);
+            }
+
+            if (pattern && (this._isBlank(valueNode) || !pattern.test(this._lexicalForm(valueNode, baseIri)))) {
+                report('Pattern', `Value ${description} does not match pattern ${pattern.source}`, valueNode);
+            }
+
+            if (allowedValues && !allowedValues.some(x => this._isSameTerm(x, valueNode, baseIri))) {
+                report('In', `Value ${description} is not one of the allowed values`, valueNode);
+            }
+        }
+
+        for (const { toVertex: propertyShapeV } of shapeV.getOutgoing('sh:property')) {
+            results.push(...this._validateShape(propertyShapeV, focusNode, document));
+        }
+
+        return results;
+    }
+
+    private _describe(valueNode: ValueNode, baseIri: string): string {
+        return valueNode.vertex ? identity.compact(valueNode.vertex.id, baseIri) : JSON.stringify(valueNode.value);
+    }
+
+    private _getList(shapeV: Vertex, predicate: string): ValueNode[] {
+        const items: ValueNode[] = shapeV.getAttributeValues(predicate).map(x => ({ value: x.value, language: x.language }));
+        for (const { toVertex } of shapeV.getOutgoing(predicate)) {
+            let listV = toVertex;
+            if (!listV.hasAttribute('rdf:first') && listV.getOutgoing('rdf:first').count() === 0) {
+                items.push({ vertex: listV });
+                continue;
+            }
+
+            // Lists expressed as rdf:first / rdf:rest chains.
+            while (listV && listV.id !== 'rdf:nil') {
+                items.push(...listV.getAttributeValues('rdf:first').map(x => ({ value: x.value, language: x.language })));
+                items.push(...listV.getOutgoing('rdf:first').map(x => ({ vertex: x.toVertex })));
+                listV = listV.getOutgoing('rdf:rest').map(x => x.toVertex).first();
+            }
+        }
+
+        return items;
+    }
+
+    private _getNumber(shapeV: Vertex, predicate: string): number {
+        return shapeV.hasAttribute(predicate) ? Number(shapeV.getAttributeValue(predicate)) : undefined;
+    }
+
+    private _hasDatatype(valueNode: ValueNode, datatype: string): boolean {
+        if (valueNode.vertex) {
+            return false;
+        }
+
+        if (datatype === 'rdf:langString') {
+            return !!valueNode.language;
+        }
+
+        if (valueNode.language) {
+            // Literal data types are not retained by the document graph, so language tagged values are treated as strings.
+            return datatype === 'xsd:string';
+        }
+
+        const dataType = DataType.parse(datatype);
+        return dataType ? dataType.isValid(valueNode.value) : true;
+    }
+
+    private _hasNodeKind(valueNode: ValueNode, nodeKind: string): boolean {
+        const kind = !valueNode.vertex ? 'Literal' : valueNode.vertex.isBlankNode ? 'BlankNode' : 'IRI';
+        switch (nodeKind) {
+            case 'sh:IRI':
+                return kind === 'IRI';
+            case 'sh:BlankNode':
+                return kind === 'BlankNode';
+            case 'sh:Literal':
+                return kind === 'Literal';
+            case 'sh:BlankNodeOrIRI':
+                return kind !== 'Literal';
+            case 'sh:BlankNodeOrLiteral':
+                return kind !== 'IRI';
+            case 'sh:IRIOrLiteral':
+                return kind !== 'BlankNode';
+            default:
+                return true;
+        }
+    }
+
+    private _isBlank(valueNode: ValueNode): boolean {
+        return !!valueNode.vertex && valueNode.vertex.isBlankNode;
+    }
+
+    private _isDeactivated(shapeV: Vertex): boolean {
+        const deactivated = shapeV.getAttributeValue<any>('sh:deactivated');
+        return deactivated === true || deactivated === 'true';
+    }
+
+    private _isInstanceOf(vertex: Vertex, classId: string, document: Document): boolean {
+        const vocabulary = document.vocabulary;
+        const instance = vocabulary.hasInstance(vertex.id) ? vocabulary.getInstance(vertex.id) : undefined;
+        const types = instance ? instance.vertex.types : vertex.types;
+        return types.some(typeV => {
+            const typeId = identity.expand(typeV.id, vocabulary.baseIri);
+            if (typeId === classId) {
+                return true;
+            }
+
+            const classType = vocabulary.getClass(typeId);
+            return !!classType && vocabulary.hasResource(classId) && classType.isDescendantOf(classId);
+        });
+    }
+
+    private _isSameTerm(expected: ValueNode, actual: ValueNode, baseIri: string): boolean {
+        if (expected.vertex || actual.vertex) {
+            return !!expected.vertex && !!actual.vertex &&
+                identity.expand(expected.vertex.id, baseIri) === identity.expand(actual.vertex.id, baseIri);
+        }
+
+        return expected.value === actual.value && (expected.language || undefined) === (actual.language || undefined);
+    }
+
+    private _lexicalForm(valueNode: ValueNode, baseIri: string): string {
+        return valueNode.vertex ? identity.expand(valueNode.vertex.id, baseIri).replace('vocab:', baseIri) : `${valueNode.value}`;
+    }
+
+    private _toTerm(valueNode: ValueNode, baseIri: string): any {
+        if (valueNode.vertex) {
+            return { '@id': identity.expand(valueNode.vertex.id, baseIri) };
+        }
+
+        return valueNode.language
+            ? { '@value': valueNode.value, '@language': valueNode.language }
+            : { '@value': valueNode.value };
+    }
+}
+
+export default ShapesGraph;
@@ -0,0 +1,986 @@
+import { RdfSyntaxError } from './errors';
+import Rdf from './rdf';
+import { SparqlResults, SparqlTerm } from './sparqlResults';
+
+const rdfType = `${Rdf.rdfNamespace}type`;
+const xsdString = `${Rdf.xsdNamespace}string`;
+const xsdBoolean = `${Rdf.xsdNamespace}boolean`;
+const xsdInteger = `${Rdf.xsdNamespace}integer`;
+const numberPattern = /^[+-]?(\d+\.\d*[eE][+-]?\d+|\.?\d+[eE][+-]?\d+|\d*\.\d+|\d+)/;
+const variablePattern = /^[?$]([A-Za-z0-9_·À-￿]+)/;
+const localNameCharPattern = /[A-Za-z0-9_\-.:%\\·À-￿]/;
+const escapes: { [char: string]: string } = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+const binaryOperators = [['||'], ['&&'], ['=', '!=', '<=', '>=', '<', '>'], ['+', '-'], ['*', '/']];
+const integerTypes = [
+    'integer', 'int', 'long', 'short', 'byte', 'nonNegativeInteger', 'nonPositiveInteger', 'positiveInteger',
+    'negativeInteger', 'unsignedInt', 'unsignedLong', 'unsignedShort', 'unsignedByte'
+].map(x => `${Rdf.xsdNamespace}${x}`);
+const numericTypes = [...integerTypes, ...['decimal', 'double', 'float'].map(x => `${Rdf.xsdNamespace}${x}`)];
+
+// Supported functions, mapped to their minimum and maximum number of arguments.
+const functions: { [name: string]: [number, number] } = {
+    BOUND: [1, 1],
+    CONTAINS: [2, 2],
+    DATATYPE: [1, 1],
+    ISBLANK: [1, 1],
+    ISIRI: [1, 1],
+    ISLITERAL: [1, 1],
+    ISNUMERIC: [1, 1],
+    ISURI: [1, 1],
+    LANG: [1, 1],
+    LANGMATCHES: [2, 2],
+    LCASE: [1, 1],
+    REGEX: [2, 3],
+    SAMETERM: [2, 2],
+    STR: [1, 1],
+    STRENDS: [2, 2],
+    STRLEN: [1, 1],
+    STRSTARTS: [2, 2],
+    UCASE: [1, 1]
+};
+
+interface Variable {
+    termType: 'Variable';
+    value: string;
+}
+
+type PatternTerm = Rdf.Term | Variable;
+
+interface TriplePattern {
+    subject: PatternTerm;
+    predicate: PatternTerm;
+    object: PatternTerm;
+}
+
+type Expression = { type: 'term'; term: PatternTerm } | { type: 'call'; name: string; args: Expression[] };
+
+type GroupElement =
+    | { type: 'triples'; patterns: TriplePattern[] }
+    | { type: 'filter'; expression: Expression }
+    | { type: 'optional'; elements: GroupElement[] }
+    | { type: 'union'; branches: GroupElement[][] };
+
+interface OrderCondition {
+    expression: Expression;
+    descending: boolean;
+}
+
+interface ParsedQuery {
+    type: 'SELECT' | 'ASK';
+    distinct: boolean;
+    variables: string[];
+    where: GroupElement[];
+    order: OrderCondition[];
+    limit?: number;
+    offset: number;
+}
+
+type Solution = Map<string, Rdf.Term>;
+
+/**
+ * @description Parses SELECT and ASK queries of the SPARQL query language.
+ * Blank nodes of query patterns are parsed as variables that are not projected by SELECT *.
+ */
+class SparqlParser {
+    private readonly _prefixes: { [prefix: string]: string };
+    private _base: string;
+    private _blankNodeCount = 0;
+    private _position = 0;
+
+    constructor(private readonly _text: string, prefixes: { [prefix: string]: string }, base?: string) {
+        this._prefixes = { ...prefixes };
+        this._base = base;
+    }
+
+    parse(): ParsedQuery {
+        this._parsePrologue();
+        let query: ParsedQuery;
+        if (this._tryKeyword('SELECT')) {
+            const distinct = this._tryKeyword('DISTINCT');
+            if (!distinct) {
+                // REDUCED permits but does not require eliminating duplicate solutions.
+                this._tryKeyword('REDUCED');
+            }
+
+            let variables: string[];
+            if (!this._tryConsume('*')) {
+                variables = [];
+                this._skipWhitespace();
+                while (variablePattern.test(this._rest())) {
+                    variables.push(this._parseVariable().value);
+                    this._skipWhitespace();
+                }
+
+                if (variables.length === 0) {
+                    throw this._error('Expected variables or * in SELECT clause');
+                }
+            }
+
+            query = { type: 'SELECT', distinct, variables, where: this._parseWhere(), order: [], offset: 0 };
+        } else if (this._tryKeyword('ASK')) {
+            query = { type: 'ASK', distinct: false, variables: [], where: this._parseWhere(), order: [], offset: 0 };
+        } else {
+            throw this._error('Expected a SELECT or ASK query');
+        }
+
+        this._parseSolutionModifiers(query);
+        this._skipWhitespace();
+        if (this._position < this._text.length) {
+            throw this._error(`Unexpected '${this._text.substr(this._position, 10)}'`);
+        }
+
+        return query;
+    }
+
+    private _error(details: string): RdfSyntaxError {
+        const line = this._text.substring(0, this._position).split('\n').length;
+        return new RdfSyntaxError('SPARQL', line, details);
+    }
+
+    private _expect(token: string): void {
+        this._skipWhitespace();
+        if (!this._text.startsWith(token, this._position)) {
+            throw this._error(`Expected '${token}' but found '${this._text.substr(this._position, 10)}'`);
+        }
+
+        this._position += token.length;
+    }
+
+    private _newBlankNode(): Variable {
+        this._blankNodeCount += 1;
+        return { termType: 'Variable', value: `_:genid${this._blankNodeCount}` };
+    }
+
+    private _parseBlankNodePropertyList(patterns: TriplePattern[]): Variable {
+        this._expect('[');
+        const node = this._newBlankNode();
+        this._skipWhitespace();
+        if (this._peek() !== ']') {
+            this._parsePredicateObjectList(node, patterns);
+        }
+
+        this._expect(']');
+        return node;
+    }
+
+    private _parseBinaryExpression(level: number): Expression {
+        if (level === binaryOperators.length) {
+            return this._parseUnaryExpression();
+        }
+
+        let expression = this._parseBinaryExpression(level + 1);
+        let operator = this._tryOperator(binaryOperators[level]);
+        while (operator) {
+            expression = { type: 'call', name: operator, args: [expression, this._parseBinaryExpression(level + 1)] };
+            operator = this._tryOperator(binaryOperators[level]);
+        }
+
+        return expression;
+    }
+
+    private _parseGroup(): GroupElement[] {
+        this._expect('{');
+        const elements: GroupElement[] = [];
+        while (!this._tryConsume('}')) {
+            if (this._position >= this._text.length) {
+                throw this._error('Unterminated group pattern');
+            }
+
+            if (this._tryKeyword('OPTIONAL')) {
+                elements.push({ type: 'optional', elements: this._parseGroup() });
+            } else if (this._tryKeyword('FILTER')) {
+                elements.push({ type: 'filter', expression: this._parsePrimaryExpression() });
+            } else if (this._peek() === '{') {
+                const branches = [this._parseGroup()];
+                while (this._tryKeyword('UNION')) {
+                    branches.push(this._parseGroup());
+                }
+
+                elements.push({ type: 'union', branches });
+            } else {
+                const patterns: TriplePattern[] = [];
+                this._parseTriples(patterns);
+                elements.push({ type: 'triples', patterns });
+            }
+
+            this._tryConsume('.');
+        }
+
+        return elements;
+    }
+
+    private _parseIri(): string {
+        this._skipWhitespace();
+        if (this._peek() === '<') {
+            const end = this._text.indexOf('>', this._position);
+            if (end < 0) {
+                throw this._error('Unterminated IRI');
+            }
+
+            const iri = this._unescape(this._text.substring(this._position + 1, end));
+            this._position = end + 1;
+            return this._resolve(iri);
+        }
+
+        const match = /^([A-Za-z][A-Za-z0-9_\-.]*)?:/.exec(this._rest());
+        if (!match) {
+            throw this._error(`Expected an IRI or prefixed name but found '${this._text.substr(this._position, 10)}'`);
+        }
+
+        const prefix = match[1] || '';
+        if (this._prefixes[prefix] === undefined) {
+            throw this._error(`Undefined prefix '${prefix}'`);
+        }
+
+        this._position += match[0].length;
+        const start = this._position;
+        while (this._position < this._text.length && localNameCharPattern.test(this._text[this._position])) {
+            this._position += this._text[this._position] === '\\' ? 2 : 1;
+        }
+
+        // A local name never ends with a '.', which terminates the triple pattern instead.
+        while (this._position > start && this._text[this._position - 1] === '.') {
+            this._position -= 1;
+        }
+
+        return `${this._prefixes[prefix]}${this._text.substring(start, this._position).replace(/\\(.)/g, '$1')}`;
+    }
+
+    private _parseLiteral(): Rdf.Term {
+        const value = this._parseString();
+        if (this._peek() === '@') {
+            const match = /^@([a-zA-Z]+(-[a-zA-Z0-9]+)*)/.exec(this._rest());
+            if (!match) {
+                throw this._error('Invalid language tag');
+            }
+
+            this._position += match[0].length;
+            return Rdf.literal(value, match[1]);
+        }
+
+        if (this._text.startsWith('^^', this._position)) {
+            this._position += 2;
+            return Rdf.literal(value, undefined, this._parseIri());
+        }
+
+        return Rdf.literal(value);
+    }
+
+    private _parseObject(patterns: TriplePattern[]): PatternTerm {
+        this._skipWhitespace();
+        const char = this._peek();
+        if (char === '[') {
+            return this._parseBlankNodePropertyList(patterns);
+        }
+
+        if (char === '"' || char === "'") {
+            return this._parseLiteral();
+        }
+
+        return this._tryParseNumberOrBoolean() || this._parseTerm();
+    }
+
+    private _parseObjectList(subject: PatternTerm, predicate: PatternTerm, patterns: TriplePattern[]): void {
+        do {
+            patterns.push({ subject, predicate, object: this._parseObject(patterns) });
+        } while (this._tryConsume(','));
+    }
+
+    private _parseOrderCondition(): OrderCondition {
+        const descending = this._tryKeyword('DESC');
+        if (descending || this._tryKeyword('ASC')) {
+            this._skipWhitespace();
+            if (this._peek() !== '(') {
+                throw this._error(`Expected '(' after ${descending ? 'DESC' : 'ASC'}`);
+            }
+        }
+
+        return { descending, expression: this._parsePrimaryExpression() };
+    }
+
+    private _parsePredicateObjectList(subject: PatternTerm, patterns: TriplePattern[]): void {
+        this._parseObjectList(subject, this._parseVerb(), patterns);
+        while (this._tryConsume(';')) {
+            this._skipWhitespace();
+            const char = this._peek();
+            if (char === '.' || char === ']' || char === '}' || char === ';' || char === undefined) {
+                continue;
+            }
+
+            this._parseObjectList(subject, this._parseVerb(), patterns);
+        }
+    }
+
+    private _parsePrimaryExpression(): Expression {
+        this._skipWhitespace();
+        const char = this._peek();
+        if (char === '(') {
+            this._position += 1;
+            const expression = this._parseBinaryExpression(0);
+            this._expect(')');
+            return expression;
+        }
+
+        if (char === '?' || char === '$') {
+            return { type: 'term', term: this._parseVariable() };
+        }
+
+        if (char === '"' || char === "'") {
+            return { type: 'term', term: this._parseLiteral() };
+        }
+
+        const literal = this._tryParseNumberOrBoolean();
+        if (literal) {
+            return { type: 'term', term: literal };
+        }
+
+        const call = /^([A-Za-z_]+)\s*\(/.exec(this._rest());
+        if (call) {
+            const name = call[1].toUpperCase();
+            if (!functions[name]) {
+                throw this._error(`Unsupported function '${call[1]}'`);
+            }
+
+            this._position += call[0].length;
+            const args: Expression[] = [];
+            if (!this._tryConsume(')')) {
+                do {
+                    args.push(this._parseBinaryExpression(0));
+                } while (this._tryConsume(','));
+
+                this._expect(')');
+            }
+
+            const [min, max] = functions[name];
+            if (args.length < min || args.length > max) {
+                throw this._error(`Invalid number of arguments for function '${call[1]}'`);
+            }
+
+            if (name === 'BOUND' && (args[0].type !== 'term' || args[0].term.termType !== 'Variable')) {
+                throw this._error('Expected a variable as argument of BOUND');
+            }
+
+            return { type: 'call', name, args };
+        }
+
+        return { type: 'term', term: Rdf.namedNode(this._parseIri()) };
+    }
+
+    private _parsePrologue(): void {
+        let parsing = true;
+        while (parsing) {
+            if (this._tryKeyword('PREFIX')) {
+                this._skipWhitespace();
+                const match = /^([A-Za-z][A-Za-z0-9_\-.]*)?:/.exec(this._rest());
+                if (!match) {
+                    throw this._error('Invalid prefix declaration');
+                }
+
+                this._position += match[0].length;
+                this._skipWhitespace();
+                if (this._peek() !== '<') {
+                    throw this._error('Expected an IRI in prefix declaration');
+                }
+
+                this._prefixes[match[1] || ''] = this._parseIri();
+            } else if (this._tryKeyword('BASE')) {
+                this._skipWhitespace();
+                if (this._peek() !== '<') {
+                    throw this._error('Expected an IRI in base declaration');
+                }
+
+                this._base = this._parseIri();
+            } else {
+                parsing = false;
+            }
+        }
+    }
+
+    private _parseSolutionModifiers(query: ParsedQuery): void {
+        if (this._tryKeyword('ORDER')) {
+            if (!this._tryKeyword('BY')) {
+                throw this._error("Expected 'BY' after ORDER");
+            }
+
+            do {
+                query.order.push(this._parseOrderCondition());
+                this._skipWhitespace();
+            } while (/^([?$(]|[A-Za-z_]+\s*\()/.test(this._rest()));
+        }
+
+        for (let index = 0; index < 2; index += 1) {
+            if (query.limit === undefined && this._tryKeyword('LIMIT')) {
+                query.limit = this._parseUnsignedInteger();
+            } else if (query.offset === 0 && this._tryKeyword('OFFSET')) {
+                query.offset = this._parseUnsignedInteger();
+            }
+        }
+    }
+
+    private _parseString(): string {
+        const quote = this._peek();
+        const long = this._text.startsWith(quote.repeat(3), this._position);
+        const delimiter = long ? quote.repeat(3) : quote;
+        this._position += delimiter.length;
+
+        let value = '';
+        while (!this._text.startsWith(delimiter, this._position)) {
+            if (this._position >= this._text.length || (!long && /[\r\n]/.test(this._text[this._position]))) {
+                throw this._error('Unterminated string');
+            }
+
+            if (this._text[this._position] === '\\') {
+                const match = /^\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/.exec(this._rest());
+                value += this._unescape(match[0]);
+                this._position += match[0].length;
+            } else {
+                value += this._text[this._position];
+                this._position += 1;
+            }
+        }
+
+        this._position += delimiter.length;
+        return value;
+    }
+
+    private _parseTerm(): PatternTerm {
+        this._skipWhitespace();
+        const char = this._peek();
+        if (char === '?' || char === '$') {
+            return this._parseVariable();
+        }
+
+        if (this._text.startsWith('_:', this._position)) {
+            const match = /^_:([A-Za-z0-9_]([A-Za-z0-9_\-.]*[A-Za-z0-9_\-])?)/.exec(this._rest());
+            if (!match) {
+                throw this._error('Invalid blank node label');
+            }
+
+            this._position += match[0].length;
+            return { termType: 'Variable', value: match[0] };
+        }
+
+        return Rdf.namedNode(this._parseIri());
+    }
+
+    private _parseTriples(patterns: TriplePattern[]): void {
+        if (this._peek() === '[') {
+            const subject = this._parseBlankNodePropertyList(patterns);
+            this._skipWhitespace();
+            if (this._peek() !== '.' && this._peek() !== '}') {
+                this._parsePredicateObjectList(subject, patterns);
+            }
+
+            return;
+        }
+
+        this._parsePredicateObjectList(this._parseTerm(), patterns);
+    }
+
+    private _parseUnaryExpression(): Expression {
+        this._skipWhitespace();
+        for (const operator of ['!', '-', '+']) {
+            if (this._peek() === operator) {
+                this._position += 1;
+                return { type: 'call', name: operator, args: [this._parseUnaryExpression()] };
+            }
+        }
+
+        return this._parsePrimaryExpression();
+    }
+
+    private _parseUnsignedInteger(): number {
+        this._skipWhitespace();
+        const match = /^\d+/.exec(this._rest());
+        if (!match) {
+            throw this._error('Expected an integer');
+        }
+
+        this._position += match[0].length;
+        return Number(match[0]);
+    }
+
+    private _parseVariable(): Variable {
+        const match = variablePattern.exec(this._rest());
+        if (!match) {
+            throw this._error(`Expected a variable but found '${this._text.substr(this._position, 10)}'`);
+        }
+
+        this._position += match[0].length;
+        return { termType: 'Variable', value: match[1] };
+    }
+
+    private _parseVerb(): PatternTerm {
+        this._skipWhitespace();
+        if (/^a(?=[\s?$<\[("'_])/.test(this._text.substr(this._position, 2))) {
+            this._position += 1;
+            return Rdf.namedNode(rdfType);
+        }
+
+        return this._peek() === '?' || this._peek() === '$' ? this._parseVariable() : Rdf.namedNode(this._parseIri());
+    }
+
+    private _parseWhere(): GroupElement[] {
+        this._tryKeyword('WHERE');
+        return this._parseGroup();
+    }
+
+    private _peek(): string {
+        return this._text[this._position];
+    }
+
+    private _resolve(iri: string): string {
+        if (!this._base || /^[a-zA-Z][a-zA-Z0-9+.\-]*:/.test(iri)) {
+            return iri;
+        }
+
+        return new URL(iri, this._base).href;
+    }
+
+    private _rest(): string {
+        return this._text.substring(this._position);
+    }
+
+    private _skipWhitespace(): void {
+        while (this._position < this._text.length) {
+            const char = this._text[this._position];
+            if (char === '#') {
+                const end = this._text.indexOf('\n', this._position);
+                this._position = end < 0 ? this._text.length : end + 1;
+            } else if (/\s/.test(char)) {
+                this._position += 1;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private _tryConsume(token: string): boolean {
+        this._skipWhitespace();
+        if (this._text.startsWith(token, this._position)) {
+            this._position += token.length;
+            return true;
+        }
+
+        return false;
+    }
+
+    private _tryKeyword(keyword: string): boolean {
+        this._skipWhitespace();
+        const text = this._text.substr(this._position, keyword.length);
+        if (text.toUpperCase() !== keyword || /[A-Za-z0-9_:]/.test(this._text[this._position + keyword.length] || '')) {
+            return false;
+        }
+
+        this._position += keyword.length;
+        return true;
+    }
+
+    private _tryOperator(operators: string[]): string {
+        this._skipWhitespace();
+        const operator = operators.find(x => this._text.startsWith(x, this._position));
+        if (operator) {
+            this._position += operator.length;
+        }
+
+        return operator;
+    }
+
+    private _tryParseNumberOrBoolean(): Rdf.Term {
+        const numberMatch = numberPattern.exec(this._rest());
+        if (numberMatch) {
+            this._position += numberMatch[0].length;
+            const datatype = /[eE]/.test(numberMatch[0]) ? 'double' : numberMatch[0].includes('.') ? 'decimal' : 'integer';
+            return Rdf.literal(numberMatch[0], undefined, `${Rdf.xsdNamespace}${datatype}`);
+        }
+
+        const booleanMatch = /^(true|false)(?![A-Za-z0-9_:\-])/.exec(this._rest());
+        if (booleanMatch) {
+            this._position += booleanMatch[0].length;
+            return Rdf.literal(booleanMatch[1], undefined, xsdBoolean);
+        }
+
+        return undefined;
+    }
+
+    private _unescape(text: string): string {
+        return text.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/g, (match, escape: string) => {
+            if (escape.length > 1) {
+                return String.fromCodePoint(parseInt(escape.substring(1), 16));
+            }
+
+            if (escapes[escape] === undefined) {
+                throw this._error(`Invalid escape sequence '${match}'`);
+            }
+
+            return escapes[escape];
+        });
+    }
+}
+
+export namespace Sparql {
+    /**
+     * @description Evaluates a SPARQL SELECT or ASK query against statements.
+     * Basic graph patterns, OPTIONAL, FILTER, UNION, DISTINCT, ORDER BY, LIMIT and OFFSET are supported.
+     * Filters are evaluated with the bindings of the group they appear in, including bindings of enclosing groups.
+     * @export
+     * @param {string} text The query to evaluate.
+     * @param {Rdf.Quad[]} quads The statements the query is evaluated against.
+     * @param {{ [prefix: string]: string }} prefixes Prefixes available to the query in addition to the ones it declares.
+     * @param {string} [base] Optional base IRI used to resolve relative IRIs.
+     * @returns {SparqlResults}
+     */
+    export function query(text: string, quads: Rdf.Quad[], prefixes: { [prefix: string]: string }, base?: string): SparqlResults {
+        const parsed = new SparqlParser(text, prefixes, base).parse();
+        const index = new Map<string, Rdf.Quad[]>();
+        for (const quad of quads) {
+            index.set(quad.predicate.value, [...(index.get(quad.predicate.value) || []), quad]);
+        }
+
+        let solutions = evaluateGroup(parsed.where, [new Map<string, Rdf.Term>()], quads, index);
+        if (parsed.order.length > 0) {
+            solutions = [...solutions].sort((x, y) => {
+                for (const { expression, descending } of parsed.order) {
+                    const order = orderTerms(evaluate(expression, x), evaluate(expression, y));
+                    if (order !== 0) {
+                        return descending ? -order : order;
+                    }
+                }
+
+                return 0;
+            });
+        }
+
+        if (parsed.type === 'ASK') {
+            return { head: { vars: [] }, boolean: solutions.length > parsed.offset && parsed.limit !== 0 };
+        }
+
+        const variables = parsed.variables || [...patternVariables(parsed.where)];
+        const keys = new Set<string>();
+        const bindings: { [variable: string]: SparqlTerm }[] = [];
+        for (const solution of solutions) {
+            const binding: { [variable: string]: SparqlTerm } = {};
+            for (const variable of variables.filter(x => solution.has(x))) {
+                binding[variable] = toSparqlTerm(solution.get(variable));
+            }
+
+            if (parsed.distinct) {
+                const key = variables.map(x => (solution.has(x) ? termKey(solution.get(x)) : '')).join('\n');
+                if (keys.has(key)) {
+                    continue;
+                }
+
+                keys.add(key);
+            }
+
+            bindings.push(binding);
+        }
+
+        const end = parsed.limit === undefined ? undefined : parsed.offset + parsed.limit;
+        return { head: { vars: variables }, results: { bindings: bindings.slice(parsed.offset, end) } };
+    }
+
+    function bind(term: PatternTerm, value: Rdf.Term, solution: Solution): Solution {
+        if (!solution) {
+            return undefined;
+        }
+
+        if (term.termType !== 'Variable') {
+            return termKey(term) === termKey(value) ? solution : undefined;
+        }
+
+        if (solution.has(term.value)) {
+            return termKey(solution.get(term.value)) === termKey(value) ? solution : undefined;
+        }
+
+        return new Map(solution).set(term.value, value);
+    }
+
+    function booleanTerm(value: boolean): Rdf.Term {
+        return value === undefined ? undefined : Rdf.literal(`${value}`, undefined, xsdBoolean);
+    }
+
+    function compare(x: Rdf.Term, y: Rdf.Term): number {
+        if (isNumeric(x) && isNumeric(y)) {
+            return Math.sign(Number(x.value) - Number(y.value));
+        }
+
+        const comparable = x.termType === 'Literal' && y.termType === 'Literal' &&
+            ((isString(x) && isString(y)) || (!isString(x) && !isString(y) && x.datatype === y.datatype));
+
+        if (!comparable) {
+            return undefined;
+        }
+
+        return x.value < y.value ? -1 : x.value > y.value ? 1 : 0;
+    }
+
+    function effectiveBooleanValue(term: Rdf.Term): boolean {
+        if (!term || term.termType !== 'Literal') {
+            return undefined;
+        }
+
+        if (term.datatype === xsdBoolean) {
+            return term.value === 'true' || term.value === '1';
+        }
+
+        if (isNumeric(term)) {
+            const value = Number(term.value);
+            return !isNaN(value) && value !== 0;
+        }
+
+        return isString(term) ? term.value.length > 0 : undefined;
+    }
+
+    function evaluate(expression: Expression, solution: Solution): Rdf.Term {
+        if (expression.type === 'term') {
+            return expression.term.termType === 'Variable' ? solution.get(expression.term.value) : expression.term;
+        }
+
+        const { name, args } = expression;
+        switch (name) {
+            case 'BOUND':
+                return booleanTerm(solution.has((args[0] as { term: Variable }).term.value));
+            case '||': {
+                const [x, y] = args.map(arg => effectiveBooleanValue(evaluate(arg, solution)));
+                return booleanTerm(x || y ? true : x === undefined || y === undefined ? undefined : false);
+            }
+            case '&&': {
+                const [x, y] = args.map(arg => effectiveBooleanValue(evaluate(arg, solution)));
+                const isFalse = (value: boolean) => value !== undefined && !value;
+                return booleanTerm(isFalse(x) || isFalse(y) ? false : x === undefined || y === undefined ? undefined : true);
+            }
+        }
+
+        const values = args.map(arg => evaluate(arg, solution));
+        if (values.some(x => x === undefined)) {
+            return undefined;
+        }
+
+        const [x, y, z] = values;
+        switch (name) {
+            case '!': {
+                const value = effectiveBooleanValue(x);
+                return booleanTerm(value === undefined ? undefined : !value);
+            }
+            case '=':
+            case '!=': {
+                const equal = isNumeric(x) && isNumeric(y) ? Number(x.value) === Number(y.value) : termKey(x) === termKey(y);
+                return booleanTerm(name === '=' ? equal : !equal);
+            }
+            case '<':
+            case '>':
+            case '<=':
+            case '>=': {
+                const order = compare(x, y);
+                if (order === undefined) {
+                    return undefined;
+                }
+
+                return booleanTerm(name === '<' ? order < 0 : name === '>' ? order > 0 : name === '<=' ? order <= 0 : order >= 0);
+            }
+            case '+':
+            case '-':
+            case '*':
+            case '/':
+                return evaluateArithmetic(name, values);
+            case 'CONTAINS':
+            case 'STRSTARTS':
+            case 'STRENDS':
+                if (!isString(x) || !isString(y)) {
+                    return undefined;
+                }
+
+                return booleanTerm(
+                    name === 'CONTAINS' ? x.value.includes(y.value) : name === 'STRSTARTS' ? x.value.startsWith(y.value) : x.value.endsWith(y.value)
+                );
+            case 'DATATYPE':
+                return x.termType === 'Literal' ? Rdf.namedNode(x.datatype || xsdString) : undefined;
+            case 'ISBLANK':
+                return booleanTerm(x.termType === 'BlankNode');
+            case 'ISIRI':
+            case 'ISURI':
+                return booleanTerm(x.termType === 'NamedNode');
+            case 'ISLITERAL':
+                return booleanTerm(x.termType === 'Literal');
+            case 'ISNUMERIC':
+                return booleanTerm(isNumeric(x));
+            case 'LANG':
+                return x.termType === 'Literal' ? Rdf.literal(x.language || '') : undefined;
+            case 'LANGMATCHES': {
+                const tag = x.value.toLowerCase();
+                const range = y.value.toLowerCase();
+                return booleanTerm(range === '*' ? tag.length > 0 : tag === range || tag.startsWith(`${range}-`));
+            }
+            case 'LCASE':
+            case 'UCASE':
+                if (!isString(x)) {
+                    return undefined;
+                }
+
+                return Rdf.literal(name === 'LCASE' ? x.value.toLowerCase() : x.value.toUpperCase(), x.language);
+            case 'REGEX':
+                if (!isString(x)) {
+                    return undefined;
+                }
+
+                try {
+                    return booleanTerm(new RegExp(y.value, z ? z.value.replace(/[^ims]/g, '') : '').test(x.value));
+                } catch {
+                    return undefined;
+                }
+            case 'SAMETERM':
+                return booleanTerm(termKey(x) === termKey(y));
+            case 'STR':
+                return x.termType === 'BlankNode' ? undefined : Rdf.literal(x.value);
+            case 'STRLEN':
+                return isString(x) ? Rdf.literal(`${[...x.value].length}`, undefined, xsdInteger) : undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    function evaluateArithmetic(operator: string, operands: Rdf.Term[]): Rdf.Term {
+        if (!operands.every(isNumeric)) {
+            return undefined;
+        }
+
+        const [x, y] = operands.map(term => Number(term.value));
+        if (operands.length === 1) {
+            return Rdf.literal(`${operator === '-' ? -x : x}`, undefined, operands[0].datatype);
+        }
+
+        if (operator === '/' && y === 0) {
+            return undefined;
+        }
+
+        const result = operator === '+' ? x + y : operator === '-' ? x - y : operator === '*' ? x * y : x / y;
+        const datatype = operator !== '/' && operands.every(term => integerTypes.includes(term.datatype))
+            ? 'integer'
+            : operands.some(term => term.datatype.endsWith('#double') || term.datatype.endsWith('#float')) ? 'double' : 'decimal';
+
+        return Rdf.literal(`${result}`, undefined, `${Rdf.xsdNamespace}${datatype}`);
+    }
+
+    function evaluateGroup(elements: GroupElement[], input: Solution[], quads: Rdf.Quad[], index: Map<string, Rdf.Quad[]>): Solution[] {
+        let solutions = input;
+        const filters: Expression[] = [];
+        for (const element of elements) {
+            const results: Solution[] = [];
+            switch (element.type) {
+                case 'filter':
+                    filters.push(element.expression);
+                    continue;
+                case 'optional':
+                    for (const solution of solutions) {
+                        const matches = evaluateGroup(element.elements, [solution], quads, index);
+                        results.push(...(matches.length > 0 ? matches : [solution]));
+                    }
+
+                    break;
+                case 'triples':
+                    results.push(...element.patterns.reduce((current, pattern) => match(pattern, current, quads, index), solutions));
+                    break;
+                case 'union':
+                    for (const branch of element.branches) {
+                        results.push(...evaluateGroup(branch, solutions, quads, index));
+                    }
+
+                    break;
+            }
+
+            solutions = results;
+        }
+
+        return solutions.filter(solution => filters.every(filter => !!effectiveBooleanValue(evaluate(filter, solution))));
+    }
+
+    function isNumeric(term: Rdf.Term): boolean {
+        return term.termType === 'Literal' && numericTypes.includes(term.datatype) && !isNaN(Number(term.value));
+    }
+
+    function isString(term: Rdf.Term): boolean {
+        return term.termType === 'Literal' && (!!term.language || !term.datatype || term.datatype === xsdString);
+    }
+
+    function match(pattern: TriplePattern, solutions: Solution[], quads: Rdf.Quad[], index: Map<string, Rdf.Quad[]>): Solution[] {
+        const results: Solution[] = [];
+        for (const solution of solutions) {
+            const predicate = pattern.predicate.termType === 'Variable' ? solution.get(pattern.predicate.value) : pattern.predicate;
+            for (const quad of predicate ? index.get(predicate.value) || [] : quads) {
+                const result = bind(
+                    pattern.object,
+                    quad.object,
+                    bind(pattern.predicate, quad.predicate, bind(pattern.subject, quad.subject, solution))
+                );
+
+                if (result) {
+                    results.push(result);
+                }
+            }
+        }
+
+        return results;
+    }
+
+    function orderTerms(x: Rdf.Term, y: Rdf.Term): number {
+        if (!x || !y) {
+            return x === y ? 0 : !x ? -1 : 1;
+        }
+
+        const ranks = ['BlankNode', 'NamedNode', 'Literal'];
+        if (x.termType !== y.termType) {
+            return ranks.indexOf(x.termType) - ranks.indexOf(y.termType);
+        }
+
+        const order = x.termType === 'Literal' ? compare(x, y) : undefined;
+        if (order !== undefined) {
+            return order;
+        }
+
+        return x.value < y.value ? -1 : x.value > y.value ? 1 : 0;
+    }
+
+    function patternVariables(elements: GroupElement[], variables: Set<string> = new Set<string>()): Set<string> {
+        for (const element of elements) {
+            if (element.type === 'triples') {
+                for (const { subject, predicate, object } of element.patterns) {
+                    for (const term of [subject, predicate, object]) {
+                        if (term.termType === 'Variable' && !term.value.startsWith('_:')) {
+                            variables.add(term.value);
+                        }
+                    }
+                }
+            } else if (element.type === 'optional') {
+                patternVariables(element.elements, variables);
+            } else if (element.type === 'union') {
+                element.branches.forEach(branch => patternVariables(branch, variables));
+            }
+        }
+
+        return variables;
+    }
+
+    function termKey(term: Rdf.Term): string {
+        return `${term.termType}|${term.value}|${term.language || ''}|${term.datatype || ''}`;
+    }
+
+    function toSparqlTerm(term: Rdf.Term): SparqlTerm {
+        switch (term.termType) {
+            case 'NamedNode':
+                return { type: 'uri', value: term.value };
+            case 'BlankNode':
+                return { type: 'bnode', value: term.value };
+            default:
+                if (term.language) {
+                    return { type: 'literal', value: term.value, 'xml:lang': term.language };
+                }
+
+                return term.datatype && term.datatype !== xsdString
+                    ? { type: 'literal', value: term.value, datatype: term.datatype }
+                    : { type: 'literal', value: term.value };
+        }
+    }
+}
+
+export default Sparql;
@@ -0,0 +1,58 @@
+/**
+ * @description An RDF term bound to a variable of a SPARQL query solution, in the SPARQL 1.1 JSON results format.
+ * @export
+ * @interface SparqlTerm
+ */
+export interface SparqlTerm {
+    /**
+     * @description The type of the term.
+     * @type {('uri' | 'bnode' | 'literal')}
+     * @memberof SparqlTerm
+     */
+    type: 'uri' | 'bnode' | 'literal';
+    /**
+     * @description The IRI of a named node, the label of a blank node or the lexical form of a literal.
+     * @type {string}
+     * @memberof SparqlTerm
+     */
+    value: string;
+    /**
+     * @description The language of a language tagged literal.
+     * @type {string}
+     * @memberof SparqlTerm
+     */
+    'xml:lang'?: string;
+    /**
+     * @description The datatype IRI of a literal without a language.
+     * @type {string}
+     * @memberof SparqlTerm
+     */
+    datatype?: string;
+}
+
+/**
+ * @description The results of a SPARQL query, in the SPARQL 1.1 JSON results format.
+ * SELECT queries return the solutions in results, ASK queries return the answer in boolean.
+ * @export
+ * @interface SparqlResults
+ */
+export interface SparqlResults {
+    /**
+     * @description The variables projected by a SELECT query, without the leading '?'. Empty for ASK queries.
+     * @type {{ vars: string[] }}
+     * @memberof SparqlResults
+     */
+    head: { vars: string[] };
+    /**
+     * @description The solutions of a SELECT query. Variables that are not bound in a solution are omitted from its bindings.
+     * @type {{ bindings: { [variable: string]: SparqlTerm }[] }}
+     * @memberof SparqlResults
+     */
+    results?: { bindings: { [variable: string]: SparqlTerm }[] };
+    /**
+     * @description The answer of an ASK query.
+     * @type {boolean}
+     * @memberof SparqlResults
+     */
+    boolean?: boolean;
+}
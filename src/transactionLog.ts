@@ -0,0 +1,357 @@
+import Class from './class';
+import ContainerPropertyValues from './containerPropertyValues';
+import Document from './document';
+import * as errors from './errors';
+import * as identity from './identity';
+import Instance from './instance';
+import Property from './property';
+
+/**
+ * @description A reversible change to a document.
+ */
+interface Operation {
+    undo(): void;
+    redo(): void;
+}
+
+/**
+ * @description A property value or container item recorded independently of the instances it references,
+ * so that it can be restored after the referenced instances have been removed and recreated.
+ */
+interface RecordedValue {
+    value?: any;
+    language?: string;
+    reference?: string;
+    isClass?: boolean;
+}
+
+/**
+ * @description Records the changes made to a document in transactions, and undoes and redoes committed transactions.
+ * Changes made outside of a transaction are not recorded.
+ * @export
+ * @class TransactionLog
+ */
+export class TransactionLog {
+    private readonly _document: Document;
+    private readonly _undoStack: Operation[][] = [];
+    private readonly _redoStack: Operation[][] = [];
+    private _transaction: Operation[];
+    private _applying = false;
+
+    /**
+     * Creates an instance of TransactionLog.
+     * @param {Document} document The document whose changes are recorded.
+     * @memberof TransactionLog
+     */
+    constructor(document: Document) {
+        this._document = document;
+        document.on('instanceCreated', instance => this._onInstanceCreated(instance));
+        document.on('classAdded', (instance, classType) => this._onClassChanged(instance, classType, true));
+        document.on('classRemoved', (instance, classType) => this._onClassChanged(instance, classType, false));
+        document.on('propertyValueChanged', (instance, property, previousValue) =>
+            this._onPropertyValueChanged(instance, property, previousValue)
+        );
+    }
+
+    /**
+     * @description True if a transaction is in progress.
+     * @readonly
+     * @type {boolean}
+     * @memberof TransactionLog
+     */
+    get active(): boolean {
+        return !!this._transaction;
+    }
+
+    /**
+     * @description True if there is a committed transaction to undo.
+     * @readonly
+     * @type {boolean}
+     * @memberof TransactionLog
+     */
+    get canUndo(): boolean {
+        return this._undoStack.length > 0;
+    }
+
+    /**
+     * @description True if there is an undone transaction to redo.
+     * @readonly
+     * @type {boolean}
+     * @memberof TransactionLog
+     */
+    get canRedo(): boolean {
+        return this._redoStack.length > 0;
+    }
+
+    /**
+     * @description Starts a transaction.
+     * @memberof TransactionLog
+     */
+    begin(): void {
+        if (this.active) {
+            throw new errors.TransactionError('begin', 'A transaction is already in progress.');
+        }
+
+        this._transaction = [];
+    }
+
+    /**
+     * @description Commits the transaction in progress so it can be undone.
+     * @memberof TransactionLog
+     */
+    commit(): void {
+        const operations = this._end('commit');
+        if (operations.length > 0) {
+            this._undoStack.push(operations);
+            this._redoStack.length = 0;
+        }
+    }
+
+    /**
+     * @description Reverts the changes recorded in the transaction in progress and ends the transaction.
+     * @memberof TransactionLog
+     */
+    rollback(): void {
+        this._apply(this._end('rollback'), true);
+    }
+
+    /**
+     * @description Reverts the changes of the last committed transaction.
+     * @returns {boolean} True if a transaction was undone, else false.
+     * @memberof TransactionLog
+     */
+    undo(): boolean {
+        this._assertInactive('undo');
+        if (!this.canUndo) {
+            return false;
+        }
+
+        const operations = this._undoStack.pop();
+        this._apply(operations, true);
+        this._redoStack.push(operations);
+        return true;
+    }
+
+    /**
+     * @description Reapplies the changes of the last undone transaction.
+     * @returns {boolean} True if a transaction was redone, else false.
+     * @memberof TransactionLog
+     */
+    redo(): boolean {
+        this._assertInactive('redo');
+        if (!this.canRedo) {
+            return false;
+        }
+
+        const operations = this._redoStack.pop();
+        this._apply(operations, false);
+        this._undoStack.push(operations);
+        return true;
+    }
+
+    /**
+     * @description Records the removal of an instance. Must be called before the instance is removed.
+     * @param {Instance} instance The instance being removed.
+     * @memberof TransactionLog
+     */
+    recordRemoval(instance: Instance): void {
+        if (!instance || !this._recording) {
+            return;
+        }
+
+        const instanceId = instance.id;
+        const classIds = [...instance.classes.map(x => x.id)];
+        const values = [...instance.properties.map(x => ({ propertyId: x.id, value: record(x.value) }))];
+        const referrers = [
+            ...instance.referrers.filter(x => !!x.instance && !!x.property).map(x => ({ instanceId: x.instance.id, propertyId: x.property.id }))
+        ];
+
+        this._transaction.push({
+            undo: () => {
+                this._createInstance(instanceId, classIds);
+                for (const { propertyId, value } of values) {
+                    this._setValue(instanceId, propertyId, value);
+                }
+
+                const instance = this._document.getInstance(instanceId);
+                for (const referrer of referrers) {
+                    const referrerValue = this._document.getInstance(referrer.instanceId).getProperty(referrer.propertyId);
+                    if (referrerValue.value instanceof ContainerPropertyValues) {
+                        if (!referrerValue.value.hasReference(instance)) {
+                            referrerValue.value.addReference(instance);
+                        }
+                    } else {
+                        referrerValue.value = instance;
+                    }
+                }
+            },
+            redo: () => this._document.removeInstance(instanceId)
+        });
+    }
+
+    /**
+     * @description Records the change of the id of an instance.
+     * @param {Instance} instance The instance whose id changed.
+     * @param {string} previousId The previous id of the instance.
+     * @memberof TransactionLog
+     */
+    recordRename(instance: Instance, previousId: string): void {
+        if (!instance || !this._recording) {
+            return;
+        }
+
+        const instanceId = instance.id;
+        const compactPreviousId = identity.compact(previousId, this._document.vocabulary.baseIri);
+        this._transaction.push({
+            undo: () => this._document.getInstance(instanceId).id = compactPreviousId,
+            redo: () => this._document.getInstance(compactPreviousId).id = instanceId
+        });
+    }
+
+    private get _recording(): boolean {
+        return this.active && !this._applying;
+    }
+
+    private _apply(operations: Operation[], undo: boolean): void {
+        this._applying = true;
+        try {
+            if (undo) {
+                for (let i = operations.length - 1; i >= 0; i -= 1) {
+                    operations[i].undo();
+                }
+            } else {
+                for (const operation of operations) {
+                    operation.redo();
+                }
+            }
+        } finally {
+            this._applying = false;
+        }
+    }
+
+    private _assertInactive(operation: string): void {
+        if (this.active) {
+            throw new errors.TransactionError(operation, 'A transaction is in progress.');
+        }
+    }
+
+    private _createInstance(instanceId: string, classIds: string[]): void {
+        const instance = this._document.createInstance(classIds[0], instanceId);
+        for (const classId of classIds.slice(1)) {
+            instance.setClass(classId);
+        }
+    }
+
+    private _end(operation: string): Operation[] {
+        if (!this.active) {
+            throw new errors.TransactionError(operation, 'No transaction is in progress.');
+        }
+
+        const operations = this._transaction;
+        this._transaction = undefined;
+        return operations;
+    }
+
+    private _onClassChanged(instance: Instance, classType: Class, added: boolean): void {
+        if (!this._recording) {
+            return;
+        }
+
+        const instanceId = instance.id;
+        const classId = classType.id;
+        const add = () => this._document.getInstance(instanceId).setClass(classId);
+        const remove = () => this._document.getInstance(instanceId).removeClass(classId);
+        this._transaction.push(added ? { undo: remove, redo: add } : { undo: add, redo: remove });
+    }
+
+    private _onInstanceCreated(instance: Instance): void {
+        if (!this._recording) {
+            return;
+        }
+
+        const instanceId = instance.id;
+        const classIds = [...instance.classes.map(x => x.id)];
+        this._transaction.push({
+            undo: () => this._document.removeInstance(instanceId),
+            redo: () => this._createInstance(instanceId, classIds)
+        });
+    }
+
+    private _onPropertyValueChanged(instance: Instance, property: Property, previousValue: any): void {
+        if (!this._recording) {
+            return;
+        }
+
+        const instanceId = instance.id;
+        const propertyId = property.id;
+        const previous = record(previousValue);
+        const next = record(instance.getProperty(propertyId).value);
+        this._transaction.push({
+            undo: () => this._setValue(instanceId, propertyId, previous),
+            redo: () => this._setValue(instanceId, propertyId, next)
+        });
+    }
+
+    private _resolve(recorded: RecordedValue): any {
+        if (!recorded) {
+            return undefined;
+        }
+
+        if (recorded.reference) {
+            const vocabulary = this._document.vocabulary;
+            if (recorded.isClass) {
+                return vocabulary.getClass(recorded.reference);
+            }
+
+            return vocabulary.hasInstance(recorded.reference)
+                ? vocabulary.getInstance(recorded.reference)
+                : this._document.getInstance(recorded.reference);
+        }
+
+        return recorded.value;
+    }
+
+    private _setValue(instanceId: string, propertyId: string, recorded: RecordedValue | RecordedValue[]): void {
+        const instanceProperty = this._document.getInstance(instanceId).getProperty(propertyId);
+        if (instanceProperty.value instanceof ContainerPropertyValues) {
+            const values = instanceProperty.value;
+            values.clear();
+            for (const item of recorded as RecordedValue[]) {
+                if (item.reference) {
+                    values.addReference(this._resolve(item));
+                } else {
+                    values.addValue(item.value, item.language);
+                }
+            }
+        } else {
+            instanceProperty.value = this._resolve(recorded as RecordedValue);
+        }
+    }
+}
+
+function record(value: any): RecordedValue | RecordedValue[] {
+    if (value instanceof ContainerPropertyValues) {
+        return record([...value]);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(x => record(x) as RecordedValue);
+    }
+
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+
+    if (value instanceof Instance || value instanceof Class) {
+        return { reference: value.id, isClass: value instanceof Class };
+    }
+
+    if (typeof value === 'object') {
+        // Values of language containers.
+        return { value: value.value, language: value.language };
+    }
+
+    return { value };
+}
+
+export default TransactionLog;
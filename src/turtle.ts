@@ -0,0 +1,609 @@
+import { RdfSyntaxError } from './errors';
+import Rdf from './rdf';
+
+const rdfType = `${Rdf.rdfNamespace}type`;
+const rdfFirst = `${Rdf.rdfNamespace}first`;
+const rdfRest = `${Rdf.rdfNamespace}rest`;
+const rdfNil = `${Rdf.rdfNamespace}nil`;
+const localNamePattern = /^[A-Za-z0-9_]([A-Za-z0-9_\-./]*[A-Za-z0-9_\-/])?$/;
+const blankLabelPattern = /^[A-Za-z0-9_]([A-Za-z0-9_\-.]*[A-Za-z0-9_\-])?$/;
+const numberPattern = /^[+-]?(\d+\.\d*[eE][+-]?\d+|\.?\d+[eE][+-]?\d+|\d*\.\d+|\d+)/;
+const nameCharPattern = /[A-Za-z0-9_\-.:%\\·À-￿]/;
+const escapes: { [char: string]: string } = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+
+/**
+ * @description Parses the Turtle text serialization of RDF.
+ */
+class TurtleParser {
+    private readonly _prefixes: { [prefix: string]: string } = {};
+    private readonly _quads: Rdf.Quad[] = [];
+    private _base: string;
+    private _blankNodeCount = 0;
+    private _position = 0;
+
+    constructor(private readonly _text: string, base?: string) {
+        this._base = base;
+    }
+
+    parse(): Rdf.Quad[] {
+        this._skipWhitespace();
+        while (this._position < this._text.length) {
+            this._parseStatement();
+            this._skipWhitespace();
+        }
+
+        return this._quads;
+    }
+
+    private _emit(subject: Rdf.Term, predicate: Rdf.Term, object: Rdf.Term): void {
+        this._quads.push({ subject, predicate, object });
+    }
+
+    private _error(details: string): RdfSyntaxError {
+        const line = this._text.substring(0, this._position).split('\n').length;
+        return new RdfSyntaxError('Turtle', line, details);
+    }
+
+    private _expect(token: string): void {
+        this._skipWhitespace();
+        if (!this._text.startsWith(token, this._position)) {
+            throw this._error(`Expected '${token}' but found '${this._text.substr(this._position, 10)}'`);
+        }
+
+        this._position += token.length;
+    }
+
+    private _newBlankNode(): Rdf.Term {
+        this._blankNodeCount += 1;
+        return Rdf.blankNode(`genid${this._blankNodeCount}`);
+    }
+
+    private _parseBlankNodePropertyList(): Rdf.Term {
+        this._expect('[');
+        const node = this._newBlankNode();
+        this._skipWhitespace();
+        if (this._peek() !== ']') {
+            this._parsePredicateObjectList(node);
+        }
+
+        this._expect(']');
+        return node;
+    }
+
+    private _parseCollection(): Rdf.Term {
+        this._expect('(');
+        const items: Rdf.Term[] = [];
+        this._skipWhitespace();
+        while (this._peek() !== ')') {
+            if (this._position >= this._text.length) {
+                throw this._error('Unterminated collection');
+            }
+
+            items.push(this._parseObject());
+            this._skipWhitespace();
+        }
+
+        this._expect(')');
+        if (items.length === 0) {
+            return Rdf.namedNode(rdfNil);
+        }
+
+        const head = this._newBlankNode();
+        let current = head;
+        for (let index = 0; index < items.length; index += 1) {
+            this._emit(current, Rdf.namedNode(rdfFirst), items[index]);
+            const next = index === items.length - 1 ? Rdf.namedNode(rdfNil) : this._newBlankNode();
+            this._emit(current, Rdf.namedNode(rdfRest), next);
+            current = next;
+        }
+
+        return head;
+    }
+
+    private _parseIri(): string {
+        this._skipWhitespace();
+        if (this._peek() === '<') {
+            const end = this._text.indexOf('>', this._position);
+            if (end < 0) {
+                throw this._error('Unterminated IRI');
+            }
+
+            const iri = this._unescape(this._text.substring(this._position + 1, end));
+            this._position = end + 1;
+            return this._resolve(iri);
+        }
+
+        return this._parsePrefixedName();
+    }
+
+    private _parseLiteral(): Rdf.Term {
+        const value = this._parseString();
+        if (this._peek() === '@') {
+            const match = /^@([a-zA-Z]+(-[a-zA-Z0-9]+)*)/.exec(this._text.substring(this._position));
+            if (!match) {
+                throw this._error('Invalid language tag');
+            }
+
+            this._position += match[0].length;
+            return Rdf.literal(value, match[1]);
+        }
+
+        if (this._text.startsWith('^^', this._position)) {
+            this._position += 2;
+            return Rdf.literal(value, undefined, this._parseIri());
+        }
+
+        return Rdf.literal(value);
+    }
+
+    private _parseObject(): Rdf.Term {
+        this._skipWhitespace();
+        const char = this._peek();
+        if (char === '[') {
+            return this._parseBlankNodePropertyList();
+        }
+
+        if (char === '(') {
+            return this._parseCollection();
+        }
+
+        if (char === '"' || char === "'") {
+            return this._parseLiteral();
+        }
+
+        const numberMatch = numberPattern.exec(this._text.substring(this._position));
+        if (numberMatch) {
+            this._position += numberMatch[0].length;
+            const datatype = /[eE]/.test(numberMatch[0]) ? 'double' : numberMatch[0].includes('.') ? 'decimal' : 'integer';
+            return Rdf.literal(numberMatch[0], undefined, `${Rdf.xsdNamespace}${datatype}`);
+        }
+
+        const booleanMatch = /^(true|false)(?![A-Za-z0-9_:\-])/.exec(this._text.substring(this._position));
+        if (booleanMatch) {
+            this._position += booleanMatch[0].length;
+            return Rdf.literal(booleanMatch[1], undefined, `${Rdf.xsdNamespace}boolean`);
+        }
+
+        return this._parseResource();
+    }
+
+    private _parseObjectList(subject: Rdf.Term, predicate: Rdf.Term): void {
+        do {
+            this._emit(subject, predicate, this._parseObject());
+            this._skipWhitespace();
+        } while (this._tryConsume(','));
+    }
+
+    private _parsePredicateObjectList(subject: Rdf.Term): void {
+        this._parseObjectList(subject, this._parseVerb());
+        while (this._tryConsume(';')) {
+            this._skipWhitespace();
+            const char = this._peek();
+            if (char === '.' || char === ']' || char === ';' || char === undefined) {
+                continue;
+            }
+
+            this._parseObjectList(subject, this._parseVerb());
+        }
+    }
+
+    private _parsePrefixedName(): string {
+        const start = this._position;
+        while (this._position < this._text.length && nameCharPattern.test(this._text[this._position])) {
+            this._position += this._text[this._position] === '\\' ? 2 : 1;
+        }
+
+        // A prefixed name never ends with a '.', which terminates the statement instead.
+        while (this._position > start && this._text[this._position - 1] === '.') {
+            this._position -= 1;
+        }
+
+        const name = this._text.substring(start, this._position);
+        const separator = name.indexOf(':');
+        if (separator < 0) {
+            throw this._error(`Expected an IRI or prefixed name but found '${name || this._text.substr(start, 10)}'`);
+        }
+
+        const prefix = name.substring(0, separator);
+        if (this._prefixes[prefix] === undefined) {
+            throw this._error(`Undefined prefix '${prefix}'`);
+        }
+
+        return `${this._prefixes[prefix]}${name.substring(separator + 1).replace(/\\(.)/g, '$1')}`;
+    }
+
+    private _parseResource(): Rdf.Term {
+        this._skipWhitespace();
+        if (this._text.startsWith('_:', this._position)) {
+            this._position += 2;
+            const match = /^[A-Za-z0-9_]([A-Za-z0-9_\-.]*[A-Za-z0-9_\-])?/.exec(this._text.substring(this._position));
+            if (!match) {
+                throw this._error('Invalid blank node label');
+            }
+
+            this._position += match[0].length;
+            return Rdf.blankNode(match[0]);
+        }
+
+        return Rdf.namedNode(this._parseIri());
+    }
+
+    private _parseStatement(): void {
+        if (this._tryDirective('@prefix', true) || this._tryDirective('PREFIX', false)) {
+            return;
+        }
+
+        if (this._tryDirective('@base', true) || this._tryDirective('BASE', false)) {
+            return;
+        }
+
+        const char = this._peek();
+        let subject: Rdf.Term;
+        if (char === '[') {
+            subject = this._parseBlankNodePropertyList();
+            this._skipWhitespace();
+            if (this._peek() === '.') {
+                this._expect('.');
+                return;
+            }
+        } else if (char === '(') {
+            subject = this._parseCollection();
+        } else {
+            subject = this._parseResource();
+        }
+
+        this._parsePredicateObjectList(subject);
+        this._expect('.');
+    }
+
+    private _parseString(): string {
+        const quote = this._peek();
+        const long = this._text.startsWith(quote.repeat(3), this._position);
+        const delimiter = long ? quote.repeat(3) : quote;
+        this._position += delimiter.length;
+
+        let value = '';
+        while (!this._text.startsWith(delimiter, this._position)) {
+            if (this._position >= this._text.length || (!long && /[\r\n]/.test(this._text[this._position]))) {
+                throw this._error('Unterminated string');
+            }
+
+            if (this._text[this._position] === '\\') {
+                const match = /^\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/.exec(this._text.substring(this._position));
+                value += this._unescape(match[0]);
+                this._position += match[0].length;
+            } else {
+                value += this._text[this._position];
+                this._position += 1;
+            }
+        }
+
+        this._position += delimiter.length;
+        return value;
+    }
+
+    private _parseVerb(): Rdf.Term {
+        this._skipWhitespace();
+        if (/^a(?=[\s<\[("'_])/.test(this._text.substring(this._position, this._position + 2))) {
+            this._position += 1;
+            return Rdf.namedNode(rdfType);
+        }
+
+        return Rdf.namedNode(this._parseIri());
+    }
+
+    private _peek(): string {
+        return this._text[this._position];
+    }
+
+    private _removeDotSegments(path: string): string {
+        const segments: string[] = [];
+        const input = path.split('/');
+        input.forEach((segment, index) => {
+            if (segment === '..') {
+                if (segments.length > 1 || (segments.length === 1 && segments[0] !== '')) {
+                    segments.pop();
+                }
+            } else if (segment !== '.') {
+                segments.push(segment);
+            }
+
+            if ((segment === '.' || segment === '..') && index === input.length - 1) {
+                segments.push('');
+            }
+        });
+
+        return segments.join('/');
+    }
+
+    private _resolve(iri: string): string {
+        if (!this._base || /^[a-zA-Z][a-zA-Z0-9+.\-]*:/.test(iri)) {
+            return iri;
+        }
+
+        if (/^[a-zA-Z][a-zA-Z0-9+.\-]*:\/\//.test(this._base)) {
+            return new URL(iri, this._base).href;
+        }
+
+        // Bases without an authority, such as URNs, are not supported by URL and are resolved as described by RFC 3986.
+        const base = /^([a-zA-Z][a-zA-Z0-9+.\-]*:)([^?#]*)([^#]*)/.exec(this._base);
+        if (!base) {
+            throw this._error(`Cannot resolve IRI <${iri}> against base <${this._base}>`);
+        }
+
+        const [, scheme, basePath, baseQuery] = base;
+        if (iri.startsWith('//')) {
+            return `${scheme}${iri}`;
+        }
+
+        if (!iri || iri.startsWith('#')) {
+            return `${scheme}${basePath}${baseQuery}${iri}`;
+        }
+
+        if (iri.startsWith('?')) {
+            return `${scheme}${basePath}${iri}`;
+        }
+
+        const [, path, suffix] = /^([^?#]*)(.*)$/.exec(iri);
+        const merged = path.startsWith('/') ? path : `${basePath.substring(0, basePath.lastIndexOf('/') + 1)}${path}`;
+        return `${scheme}${this._removeDotSegments(merged)}${suffix}`;
+    }
+
+    private _skipWhitespace(): void {
+        while (this._position < this._text.length) {
+            const char = this._text[this._position];
+            if (char === '#') {
+                const end = this._text.indexOf('\n', this._position);
+                this._position = end < 0 ? this._text.length : end + 1;
+            } else if (/\s/.test(char)) {
+                this._position += 1;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private _tryConsume(token: string): boolean {
+        this._skipWhitespace();
+        if (this._text.startsWith(token, this._position)) {
+            this._position += token.length;
+            return true;
+        }
+
+        return false;
+    }
+
+    private _tryDirective(keyword: string, terminated: boolean): boolean {
+        const text = this._text.substr(this._position, keyword.length);
+        const matches = terminated ? text === keyword : text.toUpperCase() === keyword;
+        if (!matches || !/\s/.test(this._text[this._position + keyword.length] || '')) {
+            return false;
+        }
+
+        this._position += keyword.length;
+        this._skipWhitespace();
+        if (keyword.toLowerCase().endsWith('prefix')) {
+            const separator = this._text.indexOf(':', this._position);
+            const prefix = this._text.substring(this._position, separator).trim();
+            if (separator < 0 || !/^([A-Za-z][A-Za-z0-9_\-.]*)?$/.test(prefix)) {
+                throw this._error('Invalid prefix declaration');
+            }
+
+            this._position = separator + 1;
+            this._skipWhitespace();
+            if (this._peek() !== '<') {
+                throw this._error('Expected an IRI in prefix declaration');
+            }
+
+            this._prefixes[prefix] = this._parseIri();
+        } else {
+            if (this._peek() !== '<') {
+                throw this._error('Expected an IRI in base declaration');
+            }
+
+            this._base = this._parseIri();
+        }
+
+        if (terminated) {
+            this._expect('.');
+        }
+
+        return true;
+    }
+
+    private _unescape(text: string): string {
+        return text.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/g, (match, escape: string) => {
+            if (escape.length > 1) {
+                return String.fromCodePoint(parseInt(escape.substring(1), 16));
+            }
+
+            if (escapes[escape] === undefined) {
+                throw this._error(`Invalid escape sequence '${match}'`);
+            }
+
+            return escapes[escape];
+        });
+    }
+}
+
+export namespace Turtle {
+    /**
+     * @description Parses a Turtle document.
+     * @export
+     * @param {string} text The Turtle document to parse.
+     * @param {string} [base] Optional base IRI used to resolve relative IRIs.
+     * @returns {Rdf.Quad[]} The parsed statements.
+     */
+    export function parse(text: string, base?: string): Rdf.Quad[] {
+        return new TurtleParser(text, base).parse();
+    }
+
+    /**
+     * @description Writes statements as a Turtle document. Statements are grouped by subject, and blank nodes that are
+     * the object of a single statement are nested in their referring statement. Nested RDF collections are written as ( ... ).
+     * @export
+     * @param {Rdf.Quad[]} quads The statements to write.
+     * @param {{ [prefix: string]: string }} prefixes The prefixes used to compact IRIs.
+     * @returns {string}
+     */
+    export function write(quads: Rdf.Quad[], prefixes: { [prefix: string]: string }): string {
+        const subjects = new Map<string, Map<string, Rdf.Term[]>>();
+        const references = new Map<string, number>();
+        for (const { subject, predicate, object } of quads) {
+            const subjectKey = termKey(subject);
+            if (!subjects.has(subjectKey)) {
+                subjects.set(subjectKey, new Map<string, Rdf.Term[]>());
+            }
+
+            const predicates = subjects.get(subjectKey);
+            predicates.set(predicate.value, [...(predicates.get(predicate.value) || []), object]);
+            if (object.termType === 'BlankNode') {
+                references.set(object.value, (references.get(object.value) || 0) + 1);
+            }
+        }
+
+        const nested = new Set<string>(
+            [...references.keys()].filter(label => references.get(label) === 1 && subjects.has(`_:${label}`))
+        );
+
+        // A list node is a nested blank node with a single rdf:first and rdf:rest and no other statements.
+        const isListNode = (label: string): boolean => {
+            const predicates = subjects.get(`_:${label}`);
+            return nested.has(label) && predicates.size === 2 &&
+                (predicates.get(rdfFirst) || []).length === 1 && (predicates.get(rdfRest) || []).length === 1;
+        };
+
+        const collectionOf = (label: string): string[] => {
+            const labels: string[] = [];
+            let rest = Rdf.blankNode(label);
+            while (rest.termType === 'BlankNode' && isListNode(rest.value) && labels.indexOf(rest.value) < 0) {
+                labels.push(rest.value);
+                rest = subjects.get(`_:${rest.value}`).get(rdfRest)[0];
+            }
+
+            return labels.length > 0 && rest.termType === 'NamedNode' && rest.value === rdfNil ? labels : undefined;
+        };
+
+        const written = new Set<string>();
+        const writeTerm = (term: Rdf.Term, indent: string, path: Set<string>): string => {
+            const collection = term.termType === 'BlankNode' && !path.has(term.value) ? collectionOf(term.value) : undefined;
+            if (collection) {
+                collection.forEach(x => written.add(x));
+                const itemPath = new Set([...path, ...collection]);
+                const items = collection.map(x => writeTerm(subjects.get(`_:${x}`).get(rdfFirst)[0], indent, itemPath));
+                return `( ${items.join(' ')} )`;
+            }
+
+            if (term.termType === 'BlankNode' && nested.has(term.value) && !path.has(term.value)) {
+                written.add(term.value);
+                const predicates = writePredicates(subjects.get(`_:${term.value}`), `${indent}    `, new Set([...path, term.value]));
+                return `[\n${indent}    ${predicates}\n${indent}]`;
+            }
+
+            return formatTerm(term, prefixes);
+        };
+
+        const writePredicates = (predicates: Map<string, Rdf.Term[]>, indent: string, path: Set<string>): string => {
+            return [...predicates.keys()]
+                .sort((x, y) => (x === rdfType ? -1 : y === rdfType ? 1 : 0))
+                .map(predicate => {
+                    const verb = predicate === rdfType ? 'a' : formatIri(predicate, prefixes);
+                    const objects = predicates.get(predicate).map(x => writeTerm(x, indent, path));
+                    return `${verb} ${objects.join(', ')}`;
+                })
+                .join(` ;\n${indent}`);
+        };
+
+        const writeSubject = (subjectKey: string): string => {
+            const subject = subjectKey.startsWith('_:')
+                ? Rdf.blankNode(subjectKey.substring(2))
+                : Rdf.namedNode(subjectKey);
+
+            const path = new Set<string>(subject.termType === 'BlankNode' ? [subject.value] : []);
+            return `${formatTerm(subject, prefixes)} ${writePredicates(subjects.get(subjectKey), '    ', path)} .`;
+        };
+
+        const lines = Object.keys(prefixes).map(prefix => `@prefix ${prefix}: <${prefixes[prefix]}> .`);
+        for (const subjectKey of subjects.keys()) {
+            if (!subjectKey.startsWith('_:') || !nested.has(subjectKey.substring(2))) {
+                lines.push('', writeSubject(subjectKey));
+            }
+        }
+
+        // Blank nodes that only reference each other in a cycle are not nested in any written subject.
+        for (const label of nested) {
+            if (!written.has(label)) {
+                written.add(label);
+                lines.push('', writeSubject(`_:${label}`));
+            }
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * @description Formats an IRI as a prefixed name when a prefix matches and the local name is valid, else as an IRI reference.
+     * @export
+     * @param {string} iri The IRI to format.
+     * @param {{ [prefix: string]: string }} prefixes The prefixes used to compact the IRI.
+     * @returns {string}
+     */
+    export function formatIri(iri: string, prefixes: { [prefix: string]: string }): string {
+        for (const prefix of Object.keys(prefixes)) {
+            const localName = iri.substring(prefixes[prefix].length);
+            if (iri.startsWith(prefixes[prefix]) && localNamePattern.test(localName)) {
+                return `${prefix}:${localName.replace(/\//g, '\\/')}`;
+            }
+        }
+
+        return `<${iri.replace(/[\\>]/g, x => `\\u${x.charCodeAt(0).toString(16).padStart(4, '0')}`)}>`;
+    }
+
+    /**
+     * @description Formats a string as a quoted Turtle or N-Triples string.
+     * @export
+     * @param {string} value The string to format.
+     * @returns {string}
+     */
+    export function formatString(value: string): string {
+        const escaped = value
+            .replace(/\\/g, '\\\\')
+            .replace(/"/g, '\\"')
+            .replace(/\n/g, '\\n')
+            .replace(/\r/g, '\\r')
+            .replace(/\t/g, '\\t');
+
+        return `"${escaped}"`;
+    }
+
+    function formatTerm(term: Rdf.Term, prefixes: { [prefix: string]: string }): string {
+        if (term.termType === 'BlankNode') {
+            return `_:${blankLabelPattern.test(term.value) ? term.value : term.value.replace(/[^A-Za-z0-9_\-]/g, '_')}`;
+        }
+
+        if (term.termType === 'NamedNode') {
+            return formatIri(term.value, prefixes);
+        }
+
+        if (term.language) {
+            return `${formatString(term.value)}@${term.language}`;
+        }
+
+        switch (term.datatype) {
+            case `${Rdf.xsdNamespace}string`:
+                return formatString(term.value);
+            case `${Rdf.xsdNamespace}boolean`:
+                return term.value;
+            case `${Rdf.xsdNamespace}integer`:
+                return /^[+-]?\d+$/.test(term.value) ? term.value : `${formatString(term.value)}^^${formatIri(term.datatype, prefixes)}`;
+            default:
+                return `${formatString(term.value)}^^${formatIri(term.datatype, prefixes)}`;
+        }
+    }
+
+    function termKey(term: Rdf.Term): string {
+        return term.termType === 'BlankNode' ? `_:${term.value}` : term.value;
+    }
+}
+
+export default Turtle;
@@ -22,6 +22,8 @@ export interface LanguageMap {
 }
 
 export interface InstanceProvider {
+    readonly inference?: boolean;
+    readonly strict: boolean;
     getInstance<T = void>(id: string): Instance & T;
 }
 
@@ -0,0 +1,154 @@
+import Class from './class';
+import { ContainerType } from './context';
+import DataType from './dataType';
+import Property from './property';
+import Vocabulary from './types';
+
+/**
+ * @description Options used to generate type declarations.
+ * @export
+ * @interface TypingsOptions
+ */
+export interface TypingsOptions {
+    /**
+     * @description The module that Instance and ContainerPropertyValues types are imported from. Defaults to jsonld-vocab.
+     * @type {string}
+     * @memberof TypingsOptions
+     */
+    moduleName?: string;
+}
+
+export namespace Typings {
+    const numericDataTypes = ['xsd:decimal', 'xsd:double', 'xsd:float', 'xsd:int', 'xsd:integer', 'xsd:long', 'xsd:short'];
+    const identifierPattern = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+    /**
+     * @description Generates TypeScript declarations with an interface for each class of a vocabulary.
+     * @export
+     * @param {Vocabulary} vocabulary The vocabulary to generate declarations for.
+     * @param {TypingsOptions} [options={}] Optional generation options.
+     * @returns {string} The contents of the .d.ts declarations file.
+     */
+    export function generate(vocabulary: Vocabulary, options: TypingsOptions = {}): string {
+        const names = getInterfaceNames(vocabulary);
+        const imports = new Set<string>();
+        const declarations = vocabulary.classes
+            .map(classType => createInterface(classType, vocabulary, names, imports))
+            .items();
+
+        const lines = [`// Generated from vocabulary ${vocabulary.baseIri}. Do not edit.`];
+        if (imports.size > 0) {
+            lines.push(`import { ${[...imports].sort().join(', ')} } from '${options.moduleName || 'jsonld-vocab'}';`);
+        }
+
+        for (const declaration of declarations) {
+            lines.push('', ...declaration);
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    function createInterface(
+        classType: Class,
+        vocabulary: Vocabulary,
+        names: Map<string, string>,
+        imports: Set<string>
+    ): string[] {
+        const lines = createDocComment('', classType.label, classType.comment);
+        const parents = classType.parentClasses
+            .filter(parent => !!parent && names.has(parent.id))
+            .map(parent => names.get(parent.id))
+            .items();
+
+        const heritage = parents.length > 0 ? ` extends ${parents.join(', ')}` : '';
+        lines.push(`export interface ${names.get(classType.id)}${heritage} {`);
+        for (const property of classType.ownProperties) {
+            // Only properties mapped to context terms are accessible through instance proxies.
+            const resolved = property ? vocabulary.context.resolveTerm(property.id) : undefined;
+            if (!resolved) {
+                continue;
+            }
+
+            const key = identifierPattern.test(resolved.term) ? resolved.term : `'${resolved.term}'`;
+            const container = resolved.definition.container;
+            lines.push(...createDocComment('    ', property.label, property.comment));
+            if (container) {
+                imports.add('ContainerPropertyValues');
+                const valueType =
+                    container === ContainerType.Language
+                        ? '{ value: string; language?: string }'
+                        : getValueType(property, names, imports);
+
+                lines.push(`    readonly ${key}: ContainerPropertyValues<${valueType}>;`);
+            } else {
+                const cardinality = classType.getCardinality(property);
+                const optional = cardinality && cardinality.minCount > 0 ? '' : '?';
+                lines.push(`    ${key}${optional}: ${getValueType(property, names, imports)};`);
+            }
+        }
+
+        lines.push('}');
+        return lines;
+    }
+
+    function createDocComment(indent: string, label: string, comment: string): string[] {
+        const text = [label, comment]
+            .filter((x, index, all) => !!x && all.indexOf(x) === index)
+            .map(x => x.replace(/\*\//g, '*\\/'));
+
+        if (text.length === 0) {
+            return [];
+        }
+
+        return [`${indent}/**`, ...text.map(x => `${indent} * ${x}`), `${indent} */`];
+    }
+
+    function getInterfaceNames(vocabulary: Vocabulary): Map<string, string> {
+        const names = new Map<string, string>();
+        const used = new Set<string>();
+        for (const classType of vocabulary.classes) {
+            let name = classType.id
+                .split(/[^A-Za-z0-9_$]+/)
+                .filter(x => !!x)
+                .map(x => `${x.charAt(0).toUpperCase()}${x.slice(1)}`)
+                .join('');
+
+            if (!name || /^[0-9]/.test(name)) {
+                name = `_${name}`;
+            }
+
+            let candidate = name;
+            for (let index = 2; used.has(candidate); index += 1) {
+                candidate = `${name}${index}`;
+            }
+
+            used.add(candidate);
+            names.set(classType.id, candidate);
+        }
+
+        return names;
+    }
+
+    function getValueType(property: Property, names: Map<string, string>, imports: Set<string>): string {
+        const types = new Set<string>();
+        for (const range of property.range) {
+            if (range instanceof DataType) {
+                types.add(range.id === 'xsd:boolean' ? 'boolean' : numericDataTypes.includes(range.id) ? 'number' : 'string');
+            } else if (range instanceof Class && names.has(range.id)) {
+                imports.add('Instance');
+                types.add(`Instance & ${names.get(range.id)}`);
+            } else {
+                types.add('any');
+            }
+        }
+
+        if (types.size === 0 || types.has('any')) {
+            return 'any';
+        }
+
+        const all = [...types];
+        return all.map(x => (all.length > 1 && x.includes('&') ? `(${x})` : x)).join(' | ');
+    }
+}
+
+export default Typings;
@@ -0,0 +1,110 @@
+/**
+ * @description The type of a validation violation.
+ * @export
+ * @enum {string}
+ */
+export enum ViolationType {
+    MaxCount = 'MaxCount',
+    MinCount = 'MinCount',
+    Range = 'Range'
+}
+
+/**
+ * @description A violation found when validating an instance.
+ * @export
+ * @interface ValidationViolation
+ */
+export interface ValidationViolation {
+    /**
+     * @description The id of the instance that has the violation.
+     * @type {string}
+     * @memberof ValidationViolation
+     */
+    instanceId: string;
+    /**
+     * @description The id of the property that has the violation.
+     * @type {string}
+     * @memberof ValidationViolation
+     */
+    propertyId: string;
+    /**
+     * @description The type of the violation.
+     * @type {ViolationType}
+     * @memberof ValidationViolation
+     */
+    type: ViolationType;
+    /**
+     * @description The expected type(s) or constraint of the property.
+     * @type {string}
+     * @memberof ValidationViolation
+     */
+    expected: string;
+    /**
+     * @description The value that caused the violation, if any.
+     * @type {*}
+     * @memberof ValidationViolation
+     */
+    value?: any;
+    /**
+     * @description Details of the violation.
+     * @type {string}
+     * @memberof ValidationViolation
+     */
+    message: string;
+}
+
+/**
+ * @description Report of violations found when validating instances.
+ * @export
+ * @class ValidationReport
+ */
+export class ValidationReport {
+    private readonly _violations: ValidationViolation[] = [];
+
+    /**
+     * @description True if no violations were found, else false.
+     * @readonly
+     * @type {boolean}
+     * @memberof ValidationReport
+     */
+    get conforms(): boolean {
+        return this._violations.length === 0;
+    }
+
+    /**
+     * @description Gets all violations in the report.
+     * @readonly
+     * @type {ValidationViolation[]}
+     * @memberof ValidationReport
+     */
+    get violations(): ValidationViolation[] {
+        return [...this._violations];
+    }
+
+    /**
+     * @description Adds violations to the report.
+     * @param {...ValidationViolation[]} violations The violations to add.
+     * @returns {this}
+     * @memberof ValidationReport
+     */
+    add(...violations: ValidationViolation[]): this {
+        this._violations.push(...violations);
+        return this;
+    }
+
+    /**
+     * @description Merges the violations of another report into this report.
+     * @param {ValidationReport} report The report to merge.
+     * @returns {this}
+     * @memberof ValidationReport
+     */
+    merge(report: ValidationReport): this {
+        if (!report) {
+            throw new ReferenceError(`Invalid report. report is '${report}'`);
+        }
+
+        return this.add(...report._violations);
+    }
+}
+
+export default ValidationReport;
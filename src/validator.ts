@@ -0,0 +1,203 @@
+import Iterable from 'jsiterable';
+import Class, { Cardinality } from './class';
+import ContainerPropertyValues from './containerPropertyValues';
+import { ContainerType } from './context';
+import DataType from './dataType';
+import * as errors from './errors';
+import Instance from './instance';
+import InstanceProperty from './instanceProperty';
+import Rdf from './rdf';
+import Resource from './resource';
+import ValidationReport, { ViolationType } from './validationReport';
+
+export namespace Validator {
+    /**
+     * @description Checks if a value is within the range of a property.
+     * @export
+     * @param {(Resource | DataType)[]} range The range of the property.
+     * @param {*} value The value to check.
+     * @returns {boolean} True if the value conforms to at least one type in the range, or the range cannot be checked.
+     */
+    export function isInRange(range: (Resource | DataType)[], value: any): boolean {
+        if (range.length === 0 || range.some(x => !(x instanceof DataType) && !(x instanceof Class))) {
+            // Ranges that are empty or refer to types outside of the vocabulary cannot be checked.
+            return true;
+        }
+
+        return range.some(type => {
+            if (type instanceof DataType) {
+                return type.isValid(value);
+            } else if (value instanceof Instance) {
+                // The range of a property entails the class of any instance it references, so only asserted classes are checked.
+                return value.isInstanceOf(type as Class, false);
+            } else if (value instanceof Class) {
+                // Classes are not instances of the classes of the vocabulary, they are only in the range of rdfs:Class.
+                return type.id === `${Rdf.rdfsNamespace}Class`;
+            } else {
+                return false;
+            }
+        });
+    }
+
+    /**
+     * @description Asserts that a value is within the range of a property.
+     * @export
+     * @param {string} instanceId The id of the instance the value is being assigned to.
+     * @param {string} propertyId The id of the property the value is being assigned to.
+     * @param {Iterable<Resource | DataType>} range The range of the property.
+     * @param {*} value The value to check.
+     */
+    export function assertInRange(
+        instanceId: string,
+        propertyId: string,
+        range: Iterable<Resource | DataType>,
+        value: any
+    ): void {
+        const types = [...range];
+        if (!isInRange(types, value)) {
+            const expectedType = describeRange(types);
+            const actualType = getValueType(value);
+            throw new errors.InstancePropertyValueError(
+                instanceId,
+                propertyId,
+                `Value ${describeValue(value)} is not in the range ${expectedType} of the property`,
+                expectedType,
+                actualType
+            );
+        }
+    }
+
+    /**
+     * @description Gets a display representation of a property range.
+     * @export
+     * @param {(Resource | DataType)[]} range The range to describe.
+     * @returns {string}
+     */
+    export function describeRange(range: (Resource | DataType)[]): string {
+        return range
+            .filter(x => !!x)
+            .map(x => x.id)
+            .join(' | ');
+    }
+
+    /**
+     * @description Gets a display representation of a value.
+     * @export
+     * @param {*} value The value to describe.
+     * @returns {string}
+     */
+    export function describeValue(value: any): string {
+        if (value instanceof Instance) {
+            return `instance ${value.id} of type ${value.typeId}`;
+        } else if (value instanceof Resource) {
+            return `resource ${value.id}`;
+        } else {
+            return `${typeof value} ${JSON.stringify(value)}`;
+        }
+    }
+
+    /**
+     * @description Gets the type of a value.
+     * @export
+     * @param {*} value The value whose type should be retrieved.
+     * @returns {string}
+     */
+    export function getValueType(value: any): string {
+        if (value instanceof Instance) {
+            return value.typeId;
+        } else if (value instanceof Resource) {
+            return value.type;
+        } else {
+            return typeof value;
+        }
+    }
+
+    /**
+     * @description Validates all property values of an instance.
+     * @export
+     * @param {Instance} instance The instance to validate.
+     * @returns {ValidationReport}
+     */
+    export function validateInstance(instance: Instance): ValidationReport {
+        const report = new ValidationReport();
+        for (const property of instance.properties) {
+            const range = [...property.range];
+            const values = getValues(property);
+            const { minCount, maxCount } = getCardinality(instance, property.id);
+            const count = property.container ? (property.value as ContainerPropertyValues<any>).count : values.length;
+            if (minCount !== undefined && count < minCount) {
+                report.add({
+                    instanceId: instance.id,
+                    propertyId: property.id,
+                    type: ViolationType.MinCount,
+                    expected: `${minCount}`,
+                    value: count,
+                    message: `Property ${property.id} requires at least ${minCount} value(s) but found ${count}`
+                });
+            }
+
+            if (maxCount !== undefined && count > maxCount) {
+                report.add({
+                    instanceId: instance.id,
+                    propertyId: property.id,
+                    type: ViolationType.MaxCount,
+                    expected: `${maxCount}`,
+                    value: count,
+                    message: `Property ${property.id} allows at most ${maxCount} value(s) but found ${count}`
+                });
+            }
+
+            for (const value of values) {
+                if (!isInRange(range, value)) {
+                    const expected = describeRange(range);
+                    report.add({
+                        instanceId: instance.id,
+                        propertyId: property.id,
+                        type: ViolationType.Range,
+                        expected,
+                        value,
+                        message: `Value ${describeValue(value)} is not in the range ${expected} of property ${property.id}`
+                    });
+                }
+            }
+        }
+
+        return report;
+    }
+
+    function getCardinality(instance: Instance, propertyId: string): Cardinality {
+        // When multiple classes of the instance declare a cardinality for the same property, the most restrictive one applies.
+        const cardinality: Cardinality = {};
+        for (const classType of instance.classes) {
+            const classCardinality = classType.getCardinality(propertyId);
+            if (!classCardinality) {
+                continue;
+            }
+
+            if (classCardinality.minCount !== undefined) {
+                cardinality.minCount = Math.max(cardinality.minCount || 0, classCardinality.minCount);
+            }
+
+            if (classCardinality.maxCount !== undefined) {
+                cardinality.maxCount = cardinality.maxCount === undefined
+                    ? classCardinality.maxCount
+                    : Math.min(cardinality.maxCount, classCardinality.maxCount);
+            }
+        }
+
+        return cardinality;
+    }
+
+    function getValues(property: InstanceProperty): any[] {
+        const value = property.value;
+        if (value instanceof ContainerPropertyValues) {
+            return [...value].map(x => (property.container === ContainerType.Language ? x.value : x));
+        } else if (value === null || value === undefined) {
+            return [];
+        } else {
+            return [value];
+        }
+    }
+}
+
+export default Validator;
@@ -1,5 +1,7 @@
 import Iterable from 'jsiterable';
 import JsonldGraph, { JsonldKeywords, Vertex } from 'jsonld-graph';
+import { ChangeEventEmitter } from './changeEvents';
+import ChangeNotifier from './changeNotifier';
 import Class from './class';
 import Context from './context';
 import DataType from './dataType';
@@ -7,9 +9,30 @@ import * as errors from './errors';
 import * as identity from './identity';
 import Instance from './instance';
 import InstanceProxy from './instanceProxy';
+import JsonSchema from './jsonSchema';
+import NQuads from './nquads';
 import Property from './property';
+import Rdf from './rdf';
+import RdfXml from './rdfXml';
 import Resource from './resource';
+import Shacl from './shacl';
+import Sparql from './sparql';
+import { SparqlResults } from './sparqlResults';
+import Turtle from './turtle';
 import * as types from './types';
+import Typings, { TypingsOptions } from './typings';
+import VocabularyComparer from './vocabularyComparer';
+import VocabularyDiff from './vocabularyDiff';
+
+/**
+ * Options used by a Vocabulary.
+ */
+export interface VocabularyOptions {
+    /**
+     * @description True to reject property values that are not in the range of the property when assigned.
+     */
+    strict?: boolean;
+}
 
 /**
  * @description RDF based vocabulary.
@@ -17,9 +40,10 @@ import * as types from './types';
  * @class Vocabulary
  * @implements {IVocabulary}
  */
-export class Vocabulary implements types.Vocabulary {
+export class Vocabulary extends ChangeEventEmitter implements types.Vocabulary {
     private readonly _context: Context;
     private readonly _graph: JsonldGraph;
+    private readonly _options: VocabularyOptions;
     private readonly _classes = new Map<string, Class>();
     private readonly _properties = new Map<string, Property>();
     private readonly _instances = new Map<string, Instance & any>();
@@ -28,23 +52,40 @@ export class Vocabulary implements types.Vocabulary {
      * Creates an instance of Vocabulary.
      * @param {string} baseIri The base IRI of the vocabulary.
      * @param {string} contextUri The context URL of the vocabulary.
+     * @param {VocabularyOptions} [options] Optional vocabulary options.
      * @memberof Vocabulary
      */
-    constructor(public readonly baseIri: string, public readonly contextUri: string) {
+    constructor(public readonly baseIri: string, public readonly contextUri: string, options: VocabularyOptions = {}) {
+        super();
+        this._options = options;
         this._graph = new JsonldGraph();
         this._graph.addPrefix('vocab', baseIri);
         this._graph.addPrefix('rdf', Context.rdfNamespace);
         this._graph.addPrefix('rdfs', Context.rdfsNamespace);
         this._graph.addPrefix('xsd', Context.xsdNamespace);
+        this._graph.addPrefix('sh', Rdf.shNamespace);
+        this._graph.addPrefix('owl', Rdf.owlNamespace);
         this._graph.addContext(contextUri, {
             [JsonldKeywords.context]: {
                 rdf: Context.rdfNamespace,
                 rdfs: Context.rdfsNamespace,
                 xsd: Context.xsdNamespace,
+                sh: Rdf.shNamespace,
+                owl: Rdf.owlNamespace,
+                Cardinality: {
+                    '@id': 'sh:property',
+                    '@container': '@set'
+                },
+                cardinality: {
+                    '@id': 'sh:property',
+                    '@container': '@set'
+                },
                 Class: 'rdfs:Class',
                 class: 'rdfs:Class',
                 Comment: 'rdfs:comment',
                 comment: 'rdfs:comment',
+                DatatypeProperty: 'owl:DatatypeProperty',
+                datatypeProperty: 'owl:DatatypeProperty',
                 Domain: {
                     '@id': 'rdfs:domain',
                     '@type': '@id',
@@ -55,8 +96,40 @@ export class Vocabulary implements types.Vocabulary {
                     '@type': '@id',
                     '@container': '@set'
                 },
+                EquivalentClass: {
+                    '@id': 'owl:equivalentClass',
+                    '@type': '@id',
+                    '@container': '@set'
+                },
+                equivalentClass: {
+                    '@id': 'owl:equivalentClass',
+                    '@type': '@id',
+                    '@container': '@set'
+                },
+                InverseOf: {
+                    '@id': 'owl:inverseOf',
+                    '@type': '@id'
+                },
+                inverseOf: {
+                    '@id': 'owl:inverseOf',
+                    '@type': '@id'
+                },
                 Label: 'rdfs:label',
                 label: 'rdfs:label',
+                MaxCount: 'sh:maxCount',
+                maxCount: 'sh:maxCount',
+                MinCount: 'sh:minCount',
+                minCount: 'sh:minCount',
+                ObjectProperty: 'owl:ObjectProperty',
+                objectProperty: 'owl:ObjectProperty',
+                Path: {
+                    '@id': 'sh:path',
+                    '@type': '@id'
+                },
+                path: {
+                    '@id': 'sh:path',
+                    '@type': '@id'
+                },
                 Property: 'rdf:Property',
                 property: 'rdfs:label',
                 Range: {
@@ -78,6 +151,16 @@ export class Vocabulary implements types.Vocabulary {
                     '@id': 'rdfs:subClassOf',
                     '@type': '@id',
                     '@container': '@set'
+                },
+                SubPropertyOf: {
+                    '@id': 'rdfs:subPropertyOf',
+                    '@type': '@id',
+                    '@container': '@set'
+                },
+                subPropertyOf: {
+                    '@id': 'rdfs:subPropertyOf',
+                    '@type': '@id',
+                    '@container': '@set'
                 }
             }
         });
@@ -173,6 +256,16 @@ export class Vocabulary implements types.Vocabulary {
         );
     }
 
+    /**
+     * @description True if property values are checked against the range of the property when assigned.
+     * @readonly
+     * @type {boolean}
+     * @memberof Vocabulary
+     */
+    get strict(): boolean {
+        return !!this._options.strict;
+    }
+
     /**
      * @description Creates a class in the vocabulary.
      * @param {string} id The id of the class.
@@ -191,6 +284,7 @@ export class Vocabulary implements types.Vocabulary {
 
         const classType = Class.create(classId, this);
         this._classes.set(classId, classType);
+        this.emit('resourceCreated', classType);
         return classType;
     }
 
@@ -238,6 +332,7 @@ export class Vocabulary implements types.Vocabulary {
         }
 
         this._instances.set(instanceId, instance);
+        ChangeNotifier.notify(this, instanceId, 'instanceCreated');
         return instance;
     }
 
@@ -259,9 +354,24 @@ export class Vocabulary implements types.Vocabulary {
 
         const property = Property.create(id, this);
         this._properties.set(propertyId, property);
+        this.emit('resourceCreated', property);
         return property;
     }
 
+    /**
+     * @description Compares the vocabulary with another version of the vocabulary.
+     * @param {Vocabulary} other The vocabulary to compare to. Typically a newer version of this vocabulary.
+     * @returns {VocabularyDiff} The changes from this vocabulary to the other vocabulary.
+     * @memberof Vocabulary
+     */
+    diff(other: Vocabulary): VocabularyDiff {
+        if (!other) {
+            throw new ReferenceError(`Invalid other. other is '${other}'`);
+        }
+
+        return VocabularyComparer.compare(this, other);
+    }
+
     /**
      * @description Gets a class from the vocabulary.
      * @param {string} id The id of the class to get.
@@ -480,12 +590,23 @@ export class Vocabulary implements types.Vocabulary {
         const instances: Vertex[] = [];
 
         // Process all created vertices and group them based on type.
+        // OWL classes and properties are also typed as their RDFS counterparts so that they are handled as any other resource.
         for (const vertexId of vertexIds) {
             const vertex = this._graph.getVertex(vertexId);
-            if (vertex.isType('rdfs:Class') && !this._classes.has(vertexId)) {
-                classes.push(vertex);
-            } else if (vertex.isType('rdf:Property') && !this._properties.has(vertexId)) {
-                properties.push(vertex);
+            if (vertex.isType('rdfs:Class') || vertex.isType('owl:Class')) {
+                if (!this._classes.has(vertexId)) {
+                    vertex.setType('rdfs:Class');
+                    classes.push(vertex);
+                }
+            } else if (
+                vertex.isType('rdf:Property') ||
+                vertex.isType('owl:ObjectProperty') ||
+                vertex.isType('owl:DatatypeProperty')
+            ) {
+                if (!this._properties.has(vertexId)) {
+                    vertex.setType('rdf:Property');
+                    properties.push(vertex);
+                }
             } else if (vertex.types.count() > 0 && !this._instances.has(vertexId)) {
                 instances.push(vertex);
             }
@@ -512,6 +633,66 @@ export class Vocabulary implements types.Vocabulary {
         }
     }
 
+    /**
+     * @description Loads a vocabulary definition from an N-Quads document.
+     * @param {(string | NodeJS.ReadableStream)} input The document text or a stream of the document to load.
+     * @param {string} [graphName] Optional IRI of the graph to load statements from. Statements of all graphs are loaded when not specified.
+     * @returns {Promise<void>}
+     * @memberof Vocabulary
+     */
+    async loadNQuads(input: string | NodeJS.ReadableStream, graphName?: string): Promise<void> {
+        if (!input) {
+            throw new ReferenceError(`Invalid input. input is '${input}'`);
+        }
+
+        const quads = await NQuads.read(input, 'N-Quads');
+        await this._loadQuads(graphName ? quads.filter(x => x.graph && x.graph.value === graphName) : quads);
+    }
+
+    /**
+     * @description Loads a vocabulary definition from an N-Triples document.
+     * @param {(string | NodeJS.ReadableStream)} input The document text or a stream of the document to load.
+     * @returns {Promise<void>}
+     * @memberof Vocabulary
+     */
+    async loadNTriples(input: string | NodeJS.ReadableStream): Promise<void> {
+        if (!input) {
+            throw new ReferenceError(`Invalid input. input is '${input}'`);
+        }
+
+        await this._loadQuads(await NQuads.read(input, 'N-Triples'));
+    }
+
+    /**
+     * @description Loads the classes and properties of an RDFS or OWL ontology in the RDF/XML serialization.
+     * rdfs:Class and owl:Class resources are loaded as classes, and rdf:Property, owl:ObjectProperty and owl:DatatypeProperty
+     * resources as properties, along with their sub-classes, sub-properties, equivalent classes, inverse properties, domains, ranges, labels and comments.
+     * @param {string} xml The RDF/XML document to load.
+     * @returns {Promise<void>}
+     * @memberof Vocabulary
+     */
+    async loadRdfXml(xml: string): Promise<void> {
+        if (!xml) {
+            throw new ReferenceError(`Invalid xml. xml is '${xml}'`);
+        }
+
+        await this._loadQuads(Rdf.schemaStatements(RdfXml.parse(xml, this.baseIri)));
+    }
+
+    /**
+     * @description Loads a vocabulary definition in the Turtle serialization of RDF.
+     * @param {string} text The Turtle document to load.
+     * @returns {Promise<void>}
+     * @memberof Vocabulary
+     */
+    async loadTurtle(text: string): Promise<void> {
+        if (!text) {
+            throw new ReferenceError(`Invalid text. text is '${text}'`);
+        }
+
+        await this._loadQuads(Turtle.parse(text, this.baseIri));
+    }
+
     /**
      * @description Removes a class from the vocabulary.
      * @param {(string | Class)} classType The class id or class instance to remove.
@@ -548,14 +729,20 @@ export class Vocabulary implements types.Vocabulary {
             if (instance.classes.count() === 1) {
                 this._graph.removeVertex(instanceV.id);
                 this._instances.delete(instanceV.id);
+                ChangeNotifier.notifyRemoved(this, instance);
             } else {
                 instance.removeClass(classRef);
             }
         }
 
+        for (const { toVertex: constraintV } of classV.getOutgoing('sh:property').items()) {
+            this._graph.removeVertex(constraintV);
+        }
+
         const classId = identity.expand(classRef.id, this.baseIri);
         this._graph.removeVertex(classId);
         this._classes.delete(classId);
+        this.emit('resourceRemoved', classRef);
     }
 
     /**
@@ -576,6 +763,7 @@ export class Vocabulary implements types.Vocabulary {
         const instanceId = identity.expand(instance.id, this.baseIri);
         this._graph.removeVertex(instanceId);
         this._instances.delete(instanceId);
+        ChangeNotifier.notifyRemoved(this, instance);
     }
 
     /**
@@ -603,8 +791,13 @@ export class Vocabulary implements types.Vocabulary {
         }
 
         const propertyId = identity.expand(propertyRef.id, this.baseIri);
+        for (const { fromVertex: constraintV } of this._graph.getVertex(propertyId).getIncoming('sh:path').items()) {
+            this._graph.removeVertex(constraintV);
+        }
+
         this._graph.removeVertex(propertyId);
         this._properties.delete(propertyId);
+        this.emit('resourceRemoved', propertyRef);
     }
 
     /**
@@ -629,6 +822,21 @@ export class Vocabulary implements types.Vocabulary {
         }
     }
 
+    /**
+     * @description Evaluates a SPARQL SELECT or ASK query against the statements of the vocabulary.
+     * The vocab, rdf, rdfs, xsd, sh and owl prefixes are available to the query without being declared.
+     * @param {string} query The query to evaluate.
+     * @returns {SparqlResults} The results of the query, in the SPARQL 1.1 JSON results format.
+     * @memberof Vocabulary
+     */
+    sparql(query: string): SparqlResults {
+        if (!query) {
+            throw new ReferenceError(`Invalid query. query is '${query}'`);
+        }
+
+        return Sparql.query(query, Rdf.fromVertices(this._graph.getVertices(), this), { vocab: this.baseIri, ...Rdf.prefixes }, this.baseIri);
+    }
+
     /**
      * @description Gets a JSON representation of the vocabulary.
      * @returns {Promise<any>}
@@ -641,10 +849,21 @@ export class Vocabulary implements types.Vocabulary {
             context: this.contextUri,
             frame: {
                 '@type': ['Class', 'Property'],
+                Cardinality: {
+                    '@omitDefault': true,
+                    Path: {
+                        '@embed': '@never',
+                        '@omitDefault': true
+                    }
+                },
                 SubClassOf: {
                     '@embed': '@never',
                     '@omitDefault': true
                 },
+                EquivalentClass: {
+                    '@embed': '@never',
+                    '@omitDefault': true
+                },
                 Domain: {
                     '@embed': '@never',
                     '@omitDefault': true
@@ -652,13 +871,84 @@ export class Vocabulary implements types.Vocabulary {
                 Range: {
                     '@embed': '@never',
                     '@omitDefault': true
+                },
+                InverseOf: {
+                    '@embed': '@never',
+                    '@omitDefault': true
+                },
+                SubPropertyOf: {
+                    '@embed': '@never',
+                    '@omitDefault': true
                 }
             }
         });
     }
 
     /**
-     * @description Handles id changes of classes and properties and updates the mapped terms in the context.
+     * @description Generates a JSON schema (draft 2020-12) with a definition for the compacted JSON-LD form of instances of each class.
+     * @returns {*} The JSON schema.
+     * @memberof Vocabulary
+     */
+    toJsonSchema(): any {
+        return JsonSchema.generateAll(this);
+    }
+
+    /**
+     * @description Gets a SHACL shapes graph with a node shape for each class in the vocabulary.
+     * @returns {*} The shapes graph in JSON-LD form.
+     * @memberof Vocabulary
+     */
+    toShacl(): any {
+        return Shacl.generate(this);
+    }
+
+    /**
+     * @description Gets the N-Quads serialization of the vocabulary.
+     * @param {string} graphName The IRI of the graph the statements are written to.
+     * @returns {string}
+     * @memberof Vocabulary
+     */
+    toNQuads(graphName: string): string {
+        if (!graphName) {
+            throw new ReferenceError(`Invalid graphName. graphName is '${graphName}'`);
+        }
+
+        return NQuads.write(Rdf.toCollections(Rdf.fromVertices(this._graph.getVertices(), this), this), graphName);
+    }
+
+    /**
+     * @description Gets the N-Triples serialization of the vocabulary.
+     * @returns {string}
+     * @memberof Vocabulary
+     */
+    toNTriples(): string {
+        return NQuads.write(Rdf.toCollections(Rdf.fromVertices(this._graph.getVertices(), this), this));
+    }
+
+    /**
+     * @description Gets the Turtle serialization of the vocabulary, with IRIs compacted using the registered prefixes.
+     * @returns {string}
+     * @memberof Vocabulary
+     */
+    toTurtle(): string {
+        return Turtle.write(Rdf.toCollections(Rdf.fromVertices(this._graph.getVertices(), this), this), {
+            vocab: this.baseIri,
+            ...Rdf.prefixes
+        });
+    }
+
+    /**
+     * @description Generates TypeScript declarations with an interface for each class, for statically typed instance access.
+     * @param {TypingsOptions} [options] Optional generation options.
+     * @returns {string} The contents of the .d.ts declarations file.
+     * @memberof Vocabulary
+     */
+    toTypings(options?: TypingsOptions): string {
+        return Typings.generate(this, options);
+    }
+
+    /**
+     * @description Handles id changes of classes and properties, updates the mapped terms in the context and raises the resourceRenamed event.
      * @private
      * @param {Vertex} vertex The vertex whose id was changed.
      * @param {string} previousId The previous id of the vertex.
@@ -670,9 +960,16 @@ export class Vocabulary implements types.Vocabulary {
             if (resolved) {
                 resolved.definition.id = identity.compact(vertex.id, this.baseIri);
             }
+
+            this.emit('resourceRenamed', this.getResource(vertex.id), identity.compact(previousId, this.baseIri));
         }
     }
 
+    // tslint:disable-next-line: promise-function-async
+    private _loadQuads(quads: Rdf.Quad[]): Promise<void> {
+        return this.load(Rdf.toJsonLd(quads));
+    }
+
     private _createResource(resourceV: Vertex): Resource {
         if (resourceV.isType('rdfs:Class')) {
             return new Class(resourceV, this);
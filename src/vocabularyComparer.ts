@@ -0,0 +1,252 @@
+import Class from './class';
+import { ContextTerm } from './context';
+import Property from './property';
+import Resource from './resource';
+import Vocabulary from './types';
+import VocabularyDiff, { ChangeType, VocabularyChange } from './vocabularyDiff';
+
+export namespace VocabularyComparer {
+    /**
+     * @description Compares two versions of a vocabulary.
+     * @export
+     * @param {Vocabulary} source The vocabulary to compare from. Typically the previous version.
+     * @param {Vocabulary} target The vocabulary to compare to. Typically the new version.
+     * @returns {VocabularyDiff}
+     */
+    export function compare(source: Vocabulary, target: Vocabulary): VocabularyDiff {
+        const changes: VocabularyChange[] = [];
+        const renames = new Map<string, string>();
+        const classes = matchResources(source, target, source.classes.items(), target.classes.items(), renames);
+        const properties = matchResources(source, target, source.properties.items(), target.properties.items(), renames);
+        const mapId = (id: string) => renames.get(id) || id;
+
+        for (const removed of classes.removed) {
+            changes.push(change(ChangeType.ClassRemoved, removed.id, true, `Class ${removed.id} was removed`));
+        }
+
+        for (const added of classes.added) {
+            changes.push(change(ChangeType.ClassAdded, added.id, false, `Class ${added.id} was added`));
+        }
+
+        for (const [sourceClass, targetClass] of classes.matched) {
+            if (sourceClass.id !== targetClass.id) {
+                changes.push({
+                    ...change(ChangeType.ClassRenamed, sourceClass.id, true, `Class ${sourceClass.id} was renamed to ${targetClass.id}`),
+                    value: targetClass.id
+                });
+            }
+
+            changes.push(...compareDescriptions(sourceClass, targetClass));
+            const { added, removed } = compareIds(
+                sourceClass.parentClasses.filter(x => !!x).map(x => mapId(x.id)).items(),
+                targetClass.parentClasses.filter(x => !!x).map(x => x.id).items()
+            );
+
+            for (const parent of removed) {
+                changes.push({
+                    ...change(ChangeType.SubClassOfRemoved, targetClass.id, true, `Class ${targetClass.id} is no longer a sub-class of ${parent}`),
+                    previousValue: parent
+                });
+            }
+
+            for (const parent of added) {
+                changes.push({
+                    ...change(ChangeType.SubClassOfAdded, targetClass.id, false, `Class ${targetClass.id} is now a sub-class of ${parent}`),
+                    value: parent
+                });
+            }
+        }
+
+        for (const removed of properties.removed) {
+            changes.push(change(ChangeType.PropertyRemoved, removed.id, true, `Property ${removed.id} was removed`));
+        }
+
+        for (const added of properties.added) {
+            changes.push(change(ChangeType.PropertyAdded, added.id, false, `Property ${added.id} was added`));
+        }
+
+        for (const [sourceProperty, targetProperty] of properties.matched) {
+            if (sourceProperty.id !== targetProperty.id) {
+                // Documents referring to the property through an unchanged context term continue to load.
+                const sourceTerm = source.context.resolveTerm(sourceProperty.id);
+                const targetTerm = target.context.resolveTerm(targetProperty.id);
+                const breaking = !sourceTerm || !targetTerm || sourceTerm.term !== targetTerm.term;
+                changes.push({
+                    ...change(
+                        ChangeType.PropertyRenamed,
+                        sourceProperty.id,
+                        breaking,
+                        `Property ${sourceProperty.id} was renamed to ${targetProperty.id}`
+                    ),
+                    value: targetProperty.id
+                });
+            }
+
+            changes.push(...compareDescriptions(sourceProperty, targetProperty));
+            changes.push(...compareProperties(sourceProperty, targetProperty, mapId));
+        }
+
+        changes.push(...compareTerms(source, target, mapId));
+        return new VocabularyDiff(changes);
+    }
+
+    function change(type: ChangeType, id: string, breaking: boolean, message: string): VocabularyChange {
+        return { type, id, breaking, message };
+    }
+
+    function compareDescriptions(source: Resource, target: Resource): VocabularyChange[] {
+        const changes: VocabularyChange[] = [];
+        if ((source.label || undefined) !== (target.label || undefined)) {
+            changes.push({
+                ...change(ChangeType.LabelChanged, target.id, false, `Label of ${target.id} was changed`),
+                previousValue: source.label,
+                value: target.label
+            });
+        }
+
+        if ((source.comment || undefined) !== (target.comment || undefined)) {
+            changes.push({
+                ...change(ChangeType.CommentChanged, target.id, false, `Comment of ${target.id} was changed`),
+                previousValue: source.comment,
+                value: target.comment
+            });
+        }
+
+        return changes;
+    }
+
+    function compareIds(source: string[], target: string[]): { added: string[]; removed: string[] } {
+        return {
+            added: target.filter(x => !source.includes(x)),
+            removed: source.filter(x => !target.includes(x))
+        };
+    }
+
+    function compareProperties(source: Property, target: Property, mapId: (id: string) => string): VocabularyChange[] {
+        const changes: VocabularyChange[] = [];
+        const domains = compareIds(
+            source.domains.filter(x => !!x).map(x => mapId(x.id)).items(),
+            target.domains.filter(x => !!x).map(x => x.id).items()
+        );
+
+        for (const domain of domains.removed) {
+            changes.push({
+                ...change(ChangeType.DomainRemoved, target.id, true, `Property ${target.id} was removed from class ${domain}`),
+                previousValue: domain
+            });
+        }
+
+        for (const domain of domains.added) {
+            changes.push({
+                ...change(ChangeType.DomainAdded, target.id, false, `Property ${target.id} was added to class ${domain}`),
+                value: domain
+            });
+        }
+
+        const sourceRange = source.range.filter(x => !!x).map(x => mapId(x.id)).items();
+        const targetRange = target.range.filter(x => !!x).map(x => x.id).items();
+        const range = compareIds(sourceRange, targetRange);
+
+        // Removing a type narrows the range, unless no range remains. Adding a type widens it, unless there was no range before.
+        for (const type of range.removed) {
+            changes.push({
+                ...change(ChangeType.RangeRemoved, target.id, targetRange.length > 0, `Type ${type} was removed from the range of ${target.id}`),
+                previousValue: type
+            });
+        }
+
+        for (const type of range.added) {
+            changes.push({
+                ...change(ChangeType.RangeAdded, target.id, sourceRange.length === 0, `Type ${type} was added to the range of ${target.id}`),
+                value: type
+            });
+        }
+
+        return changes;
+    }
+
+    function compareTerms(source: Vocabulary, target: Vocabulary, mapId: (id: string) => string): VocabularyChange[] {
+        const changes: VocabularyChange[] = [];
+        for (const [term, definition] of source.context.terms) {
+            if (!target.context.isDefined(term)) {
+                changes.push({
+                    ...change(ChangeType.TermRemoved, term, true, `Context term ${term} was removed`),
+                    previousValue: definition.id
+                });
+
+                continue;
+            }
+
+            const targetDefinition = target.context.getTerm(term);
+            const previousValue = describeTerm(mapId(definition.id), definition);
+            const value = describeTerm(targetDefinition.id, targetDefinition);
+            if (previousValue !== value) {
+                changes.push({
+                    ...change(ChangeType.TermChanged, term, true, `Definition of context term ${term} was changed`),
+                    previousValue,
+                    value
+                });
+            }
+        }
+
+        for (const [term, definition] of target.context.terms) {
+            if (!source.context.isDefined(term)) {
+                changes.push({
+                    ...change(ChangeType.TermAdded, term, false, `Context term ${term} was added`),
+                    value: definition.id
+                });
+            }
+        }
+
+        return changes;
+    }
+
+    function describeTerm(id: string, definition: ContextTerm): string {
+        return JSON.stringify({ '@id': id, '@type': definition.type, '@container': definition.container });
+    }
+
+    function matchResources<T extends Class | Property>(
+        source: Vocabulary,
+        target: Vocabulary,
+        sourceResources: T[],
+        targetResources: T[],
+        renames: Map<string, string>
+    ): { added: T[]; removed: T[]; matched: [T, T][] } {
+        const matched: [T, T][] = [];
+        const removed: T[] = [];
+        const added = targetResources.filter(x => !sourceResources.some(y => y.id === x.id));
+        for (const resource of sourceResources) {
+            const existing = targetResources.find(x => x.id === resource.id);
+            if (existing) {
+                matched.push([resource, existing]);
+            } else {
+                removed.push(resource);
+            }
+        }
+
+        // A removed resource is treated as renamed when exactly one added resource is mapped to the same context term,
+        // or has the same label and comment.
+        for (const resource of [...removed]) {
+            const sourceTerm = source.context.resolveTerm(resource.id);
+            const candidates = added.filter(candidate => {
+                const targetTerm = target.context.resolveTerm(candidate.id);
+                if (sourceTerm && targetTerm) {
+                    return sourceTerm.term === targetTerm.term;
+                }
+
+                return !!resource.label && resource.label === candidate.label && resource.comment === candidate.comment;
+            });
+
+            if (candidates.length === 1) {
+                matched.push([resource, candidates[0]]);
+                removed.splice(removed.indexOf(resource), 1);
+                added.splice(added.indexOf(candidates[0]), 1);
+                renames.set(resource.id, candidates[0].id);
+            }
+        }
+
+        return { added, removed, matched };
+    }
+}
+
+export default VocabularyComparer;
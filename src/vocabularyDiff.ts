@@ -0,0 +1,128 @@
+/**
+ * @description The type of a change between two versions of a vocabulary.
+ * @export
+ * @enum {string}
+ */
+export enum ChangeType {
+    ClassAdded = 'ClassAdded',
+    ClassRemoved = 'ClassRemoved',
+    ClassRenamed = 'ClassRenamed',
+    CommentChanged = 'CommentChanged',
+    DomainAdded = 'DomainAdded',
+    DomainRemoved = 'DomainRemoved',
+    LabelChanged = 'LabelChanged',
+    PropertyAdded = 'PropertyAdded',
+    PropertyRemoved = 'PropertyRemoved',
+    PropertyRenamed = 'PropertyRenamed',
+    RangeAdded = 'RangeAdded',
+    RangeRemoved = 'RangeRemoved',
+    SubClassOfAdded = 'SubClassOfAdded',
+    SubClassOfRemoved = 'SubClassOfRemoved',
+    TermAdded = 'TermAdded',
+    TermChanged = 'TermChanged',
+    TermRemoved = 'TermRemoved'
+}
+
+/**
+ * @description A change between two versions of a vocabulary.
+ * @export
+ * @interface VocabularyChange
+ */
+export interface VocabularyChange {
+    /**
+     * @description The type of the change.
+     * @type {ChangeType}
+     * @memberof VocabularyChange
+     */
+    type: ChangeType;
+    /**
+     * @description The id of the changed class or property, or the changed context term.
+     * @type {string}
+     * @memberof VocabularyChange
+     */
+    id: string;
+    /**
+     * @description The value before the change, if any. e.g. the previous label or the removed parent class id.
+     * @type {string}
+     * @memberof VocabularyChange
+     */
+    previousValue?: string;
+    /**
+     * @description The value after the change, if any. e.g. the new label, the new id of a renamed resource or the added range id.
+     * @type {string}
+     * @memberof VocabularyChange
+     */
+    value?: string;
+    /**
+     * @description True if existing documents may fail to load or validate against the changed vocabulary, else false.
+     * @type {boolean}
+     * @memberof VocabularyChange
+     */
+    breaking: boolean;
+    /**
+     * @description Details of the change.
+     * @type {string}
+     * @memberof VocabularyChange
+     */
+    message: string;
+}
+
+/**
+ * @description Changes between two versions of a vocabulary.
+ * @export
+ * @class VocabularyDiff
+ */
+export class VocabularyDiff {
+    private readonly _changes: VocabularyChange[];
+
+    /**
+     * Creates an instance of VocabularyDiff.
+     * @param {VocabularyChange[]} [changes=[]] The changes between the vocabularies.
+     * @memberof VocabularyDiff
+     */
+    constructor(changes: VocabularyChange[] = []) {
+        this._changes = changes;
+    }
+
+    /**
+     * @description True if at least one change is breaking for existing documents, else false.
+     * @readonly
+     * @type {boolean}
+     * @memberof VocabularyDiff
+     */
+    get breaking(): boolean {
+        return this._changes.some(x => x.breaking);
+    }
+
+    /**
+     * @description Gets all changes that are breaking for existing documents.
+     * @readonly
+     * @type {VocabularyChange[]}
+     * @memberof VocabularyDiff
+     */
+    get breakingChanges(): VocabularyChange[] {
+        return this._changes.filter(x => x.breaking);
+    }
+
+    /**
+     * @description Gets all changes.
+     * @readonly
+     * @type {VocabularyChange[]}
+     * @memberof VocabularyDiff
+     */
+    get changes(): VocabularyChange[] {
+        return [...this._changes];
+    }
+
+    /**
+     * @description True if no changes were found, else false.
+     * @readonly
+     * @type {boolean}
+     * @memberof VocabularyDiff
+     */
+    get identical(): boolean {
+        return this._changes.length === 0;
+    }
+}
+
+export default VocabularyDiff;
@@ -262,6 +262,128 @@ describe('Class', () => {
         });
     });
 
+    describe('.setCardinality', () => {
+        it('should throw when property reference is undefined, null or empty', () => {
+            const projectClass = vocabulary.getClass('Project');
+            expect(() => projectClass.setCardinality(undefined, { minCount: 1 })).to.throw(ReferenceError);
+            expect(() => projectClass.setCardinality(null, { minCount: 1 })).to.throw(ReferenceError);
+            expect(() => projectClass.setCardinality('', { minCount: 1 })).to.throw(ReferenceError);
+        });
+
+        it('should throw when property is not a property of the class', () => {
+            const projectClass = vocabulary.getClass('Project');
+            expect(() => projectClass.setCardinality('Person/firstName', { minCount: 1 })).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should throw when cardinality is invalid', () => {
+            const projectClass = vocabulary.getClass('Project');
+            expect(() => projectClass.setCardinality('Project/name', { minCount: -1 })).to.throw(Errors.InvalidOperationError);
+            expect(() => projectClass.setCardinality('Project/name', { maxCount: 1.5 })).to.throw(Errors.InvalidOperationError);
+            expect(() => projectClass.setCardinality('Project/name', { minCount: 2, maxCount: 1 })).to.throw(Errors.InvalidOperationError);
+        });
+
+        it('should set and replace cardinality of own property', () => {
+            const projectClass = vocabulary.getClass('Project');
+            projectClass.setCardinality('Project/name', { minCount: 1, maxCount: 1 });
+            expect(projectClass.getCardinality('Project/name')).to.deep.equal({ minCount: 1, maxCount: 1 });
+
+            projectClass.setCardinality('Project/name', { minCount: 1 });
+            expect(projectClass.getCardinality('Project/name')).to.deep.equal({ minCount: 1 });
+            expect(projectClass.cardinalities.count()).to.equal(1);
+        });
+
+        it('should set cardinality of ancestor property', () => {
+            const employeeClass = vocabulary.getClass('Employee');
+            employeeClass.setCardinality('Person/firstName', { minCount: 1 });
+            expect(employeeClass.getCardinality('Person/firstName')).to.deep.equal({ minCount: 1 });
+            expect(vocabulary.getClass('Person').getCardinality('Person/firstName')).to.be.undefined;
+        });
+    });
+
+    describe('.getCardinality', () => {
+        before(() => {
+            vocabulary.getClass('Person').setCardinality('Person/lastName', { maxCount: 1 });
+        });
+
+        it('should get cardinality declared by ancestor', () => {
+            expect(vocabulary.getClass('Manager').getCardinality('Person/lastName')).to.deep.equal({ maxCount: 1 });
+        });
+
+        it('should not get cardinality declared by ancestor when not inherited', () => {
+            expect(vocabulary.getClass('Manager').getCardinality('Person/lastName', false)).to.be.undefined;
+        });
+
+        it('should return undefined when no cardinality is declared', () => {
+            expect(vocabulary.getClass('Location').getCardinality('Location/address')).to.be.undefined;
+        });
+    });
+
+    describe('.removeCardinality', () => {
+        it('should remove cardinality of property', () => {
+            const locationClass = vocabulary.getClass('Location');
+            locationClass.setCardinality('Location/address', { minCount: 1 });
+            locationClass.removeCardinality('Location/address');
+            expect(locationClass.getCardinality('Location/address')).to.be.undefined;
+            expect(locationClass.cardinalities.count()).to.equal(0);
+        });
+
+        it('should remove cardinality when property is removed', () => {
+            const contractorClass = vocabulary.getClass('Contractor');
+            contractorClass.createProperty('Contractor/agency');
+            contractorClass.setCardinality('Contractor/agency', { minCount: 1 });
+            contractorClass.removeProperty('Contractor/agency', true);
+            expect(contractorClass.cardinalities.count()).to.equal(0);
+        });
+    });
+
+    describe('.toJsonSchema', () => {
+        it('should generate schema with definitions for referenced classes', () => {
+            const schema = vocabulary.getClass('Employee').toJsonSchema();
+            expect(schema.$schema).to.equal('https://json-schema.org/draft/2020-12/schema');
+            expect(schema.$id).to.equal('http://example.org/classes/Employee');
+            expect(schema.$ref).to.equal('#/$defs/Employee');
+            expect(schema.$defs).to.have.all.keys('Employee', 'Person', 'Department', 'Location');
+        });
+
+        it('should generate properties keyed by context terms', () => {
+            const schema = vocabulary.getClass('Employee').toJsonSchema().$defs.Employee;
+            expect(schema.type).to.equal('object');
+            expect(schema.allOf).to.deep.equal([{ $ref: '#/$defs/Person' }]);
+            expect(schema.properties).to.include.all.keys('@context', '@id', '@type', 'level', 'manager', 'department');
+            expect(schema.properties).to.not.have.property('lastName');
+            expect(schema.properties.level.anyOf[0]).to.deep.equal({ type: 'integer' });
+            expect(schema.properties.manager.anyOf[0].anyOf).to.deep.equal([
+                { type: 'string' },
+                { $ref: '#/$defs/Employee' }
+            ]);
+        });
+
+        it('should generate container and cardinality constraints', () => {
+            const schema = vocabulary.getClass('Department').toJsonSchema();
+            const department = schema.$defs.Department;
+            expect(department.properties.deptName.type).to.equal('object');
+            expect(department.properties.deptName.additionalProperties).to.deep.equal({ type: 'string' });
+            expect(department.properties.phoneNo.type).to.equal('array');
+            expect(department.properties.phoneNo.items).to.deep.equal({ type: 'string' });
+            expect(schema.$defs.Location.properties.address.anyOf).to.be.ok;
+
+            const person = vocabulary.getClass('Person').toJsonSchema().$defs.Person;
+            expect(person.properties.lastName.type).to.equal('string');
+        });
+
+        it('should mark properties with minimum cardinality as required', () => {
+            const locationClass = vocabulary.getClass('Location');
+            locationClass.setCardinality('Location/address', { minCount: 1, maxCount: 1 });
+            try {
+                const location = locationClass.toJsonSchema().$defs.Location;
+                expect(location.required).to.deep.equal(['address']);
+                expect(location.properties.address.type).to.equal('string');
+            } finally {
+                locationClass.removeCardinality('Location/address');
+            }
+        });
+    });
+
     describe('.makeSubClassOf', () => {
         it('should throw when class id is undefined, null or empty', () => {
             const contractorClass = vocabulary.getClass('Contractor');
@@ -283,6 +405,59 @@ describe('Class', () => {
         });
     });
 
+    describe('.addEquivalentClass', () => {
+        it('should throw when class reference is undefined, null or empty', () => {
+            const personClass = vocabulary.getClass('Person');
+            expect(() => personClass.addEquivalentClass(undefined)).to.throw(ReferenceError);
+            expect(() => personClass.addEquivalentClass(null)).to.throw(ReferenceError);
+            expect(() => personClass.addEquivalentClass('')).to.throw(ReferenceError);
+        });
+
+        it('should throw when class is not found', () => {
+            const personClass = vocabulary.getClass('Person');
+            expect(() => personClass.addEquivalentClass('DoesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should declare classes equivalent in both directions', () => {
+            const personClass = vocabulary.getClass('Person');
+            const humanClass = vocabulary.createClass('Human');
+            try {
+                personClass.addEquivalentClass(humanClass).addEquivalentClass('Person');
+                humanClass.addEquivalentClass('Person');
+
+                expect(personClass.equivalentClasses.map(x => x.id).items()).to.deep.equal(['Human']);
+                expect(humanClass.equivalentClasses.map(x => x.id).items()).to.deep.equal(['Person']);
+            } finally {
+                vocabulary.removeClass(humanClass);
+            }
+
+            expect(personClass.equivalentClasses.count()).to.equal(0);
+        });
+    });
+
+    describe('.removeEquivalentClass', () => {
+        it('should throw when class reference is undefined, null or empty', () => {
+            const personClass = vocabulary.getClass('Person');
+            expect(() => personClass.removeEquivalentClass(undefined)).to.throw(ReferenceError);
+            expect(() => personClass.removeEquivalentClass(null)).to.throw(ReferenceError);
+            expect(() => personClass.removeEquivalentClass('')).to.throw(ReferenceError);
+        });
+
+        it('should remove equivalence declared by either class', () => {
+            const personClass = vocabulary.getClass('Person');
+            const humanClass = vocabulary.createClass('Human');
+            try {
+                humanClass.addEquivalentClass(personClass);
+                personClass.removeEquivalentClass('Human');
+
+                expect(personClass.equivalentClasses.count()).to.equal(0);
+                expect(humanClass.equivalentClasses.count()).to.equal(0);
+            } finally {
+                vocabulary.removeClass(humanClass);
+            }
+        });
+    });
+
     describe('.removeProperty', () => {
         it('should throw when property reference is undefined, null or empty', () => {
             const contractorClass = vocabulary.getClass('Contractor');
@@ -0,0 +1,219 @@
+// tslint:disable-next-line: no-import-side-effect
+import 'mocha';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import * as cli from '../src/cli';
+import * as typings from '../src/cli/typings';
+
+const vocabularyArgs = [
+    '--vocabulary', './test/samples/vocabulary.json',
+    '--context', './test/samples/context.json',
+    '--context-uri', 'http://example.org/context'
+];
+
+let tempDir: string;
+
+describe('CLI', () => {
+    before(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonld-vocab-'));
+    });
+
+    after(() => {
+        for (const file of fs.readdirSync(tempDir)) {
+            fs.unlinkSync(path.join(tempDir, file));
+        }
+
+        fs.rmdirSync(tempDir);
+    });
+
+    describe('run', () => {
+        it('should write usage when command is not specified', async () => {
+            const output = capture();
+            await cli.run([], output.stream);
+            expect(output.text()).to.contain('Usage: jsonld-vocab <command>');
+        });
+
+        it('should throw when command is not found', async () => {
+            let error: Error;
+            try {
+                await cli.run(['unknown'], capture().stream);
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.instanceOf(ReferenceError);
+        });
+    });
+
+    describe('inspect', () => {
+        it('should list classes hierarchy and properties', async () => {
+            const output = capture();
+            await cli.run(['inspect', ...vocabularyArgs], output.stream);
+            expect(output.text()).to.contain('Classes (7):');
+            expect(output.text()).to.contain('\n  Person\n    Contractor\n    Employee\n      Manager\n');
+            expect(output.text()).to.contain('  Manager/manages (manages) [@set]: Manager -> Employee');
+        });
+
+        it('should write summary as JSON', async () => {
+            const output = capture();
+            await cli.run(['inspect', ...vocabularyArgs, '--json'], output.stream);
+
+            const summary = JSON.parse(output.text());
+            expect(summary.baseIri).to.equal('http://example.org/classes/');
+            expect(summary.classes.find((x: any) => x.id === 'Manager').parentClasses).to.deep.equal(['Employee']);
+            expect(summary.properties.find((x: any) => x.id === 'Employee/level').range).to.deep.equal(['xsd:integer']);
+        });
+    });
+
+    describe('validate', () => {
+        it('should throw when documents are not specified', async () => {
+            let error: Error;
+            try {
+                await cli.run(['validate', ...vocabularyArgs], capture().stream);
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.instanceOf(ReferenceError);
+        });
+
+        it('should report conforming documents', async () => {
+            const output = capture();
+            const exitCode = await cli.run(['validate', ...vocabularyArgs, './test/samples/instances.json'], output.stream);
+            expect(exitCode).to.equal(0);
+            expect(output.text()).to.contain('Documents conform to the vocabulary.');
+        });
+
+        it('should report violations', async () => {
+            const file = writeTemp('instances.json', {
+                '@context': 'http://example.org/context',
+                '@id': 'urn:example.org:employees/jdoe',
+                '@type': 'Employee',
+                level: 'senior'
+            });
+
+            const output = capture();
+            const exitCode = await cli.run(['validate', ...vocabularyArgs, '--json', file], output.stream);
+            const report = JSON.parse(output.text());
+            expect(exitCode).to.equal(1);
+            expect(report.conforms).to.be.false;
+            expect(report.violations[0].instanceId).to.equal('urn:example.org:employees/jdoe');
+            expect(report.violations[0].value).to.equal('senior');
+        });
+    });
+
+    describe('convert', () => {
+        it('should throw when format is not supported', async () => {
+            let error: Error;
+            try {
+                await cli.run(['convert', ...vocabularyArgs, '--to', 'xml'], capture().stream);
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.instanceOf(ReferenceError);
+        });
+
+        it('should convert vocabulary', async () => {
+            const output = capture();
+            await cli.run(['convert', ...vocabularyArgs, '--to', 'shacl'], output.stream);
+            expect(JSON.parse(output.text())['@graph'].length).to.equal(7);
+        });
+
+        it('should convert documents', async () => {
+            const output = capture();
+            await cli.run(['convert', ...vocabularyArgs, '--to', 'json', './test/samples/instances.json'], output.stream);
+
+            const json = JSON.parse(output.text());
+            expect(json['@context']).to.equal('http://example.org/context');
+            expect(json['@graph'].some((x: any) => x['@id'] === 'urn:example.org:employees/jdoe')).to.be.true;
+        });
+
+        it('should convert documents to turtle', async () => {
+            const output = capture();
+            await cli.run(['convert', ...vocabularyArgs, '--to', 'turtle', './test/samples/instances.json'], output.stream);
+            expect(output.text()).to.include('<urn:example.org:employees/jdoe> a vocab:Employee, vocab:Manager ;');
+        });
+
+        it('should write to output file', async () => {
+            const file = path.join(tempDir, 'schema.json');
+            await cli.run(['convert', ...vocabularyArgs, '--to', 'json-schema', '--out', file], capture().stream);
+            expect(JSON.parse(fs.readFileSync(file, 'utf8')).$defs.Manager).to.be.ok;
+        });
+    });
+
+    describe('diff', () => {
+        it('should report identical vocabularies', async () => {
+            const output = capture();
+            const exitCode = await cli.run(
+                ['diff', '--context', './test/samples/context.json', './test/samples/vocabulary.json', './test/samples/vocabulary.json'],
+                output.stream
+            );
+
+            expect(exitCode).to.equal(0);
+            expect(output.text()).to.equal('Vocabularies are identical.\n');
+        });
+
+        it('should report added, removed and changed resources', async () => {
+            const definition = JSON.parse(fs.readFileSync('./test/samples/vocabulary.json', 'utf8'));
+            definition['@graph'] = definition['@graph'].filter((x: any) => x['@id'] !== 'Project/name');
+            definition['@graph'].find((x: any) => x['@id'] === 'Location').label = 'Place';
+            definition['@graph'].push({ '@id': 'Region', '@type': 'Class' });
+
+            const output = capture();
+            const exitCode = await cli.run(
+                ['diff', '--context', './test/samples/context.json', './test/samples/vocabulary.json', writeTemp('vocabulary.json', definition)],
+                output.stream
+            );
+
+            expect(exitCode).to.equal(1);
+            expect(output.text().split('\n')).to.include.members([
+                '[non-breaking] Label of Location was changed',
+                '[breaking] Property Project/name was removed',
+                '[non-breaking] Class Region was added'
+            ]);
+        });
+    });
+
+    describe('typings', () => {
+        it('should throw when vocabulary is not specified', async () => {
+            let error: Error;
+            try {
+                await typings.run([], capture().stream);
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.instanceOf(ReferenceError);
+        });
+
+        it('should write usage', async () => {
+            const output = capture();
+            await typings.run(['--help'], output.stream);
+            expect(output.text()).to.contain('Usage: jsonld-vocab-typings');
+        });
+
+        it('should write declarations of vocabulary', async () => {
+            const output = capture();
+            await typings.run([...vocabularyArgs, '--module', '../src'], output.stream);
+            expect(output.text()).to.contain(`from '../src';`);
+            expect(output.text()).to.contain('export interface Manager extends Employee {');
+        });
+    });
+});
+
+function writeTemp(name: string, json: any): string {
+    const file = path.join(tempDir, name);
+    fs.writeFileSync(file, JSON.stringify(json));
+    return file;
+}
+
+function capture(): { stream: PassThrough; text: () => string } {
+    const chunks: string[] = [];
+    const stream = new PassThrough();
+    stream.on('data', chunk => chunks.push(chunk.toString()));
+    return { stream, text: () => chunks.join('') };
+}
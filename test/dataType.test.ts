@@ -0,0 +1,77 @@
+// tslint:disable-next-line:no-import-side-effect
+import 'mocha';
+import { expect } from 'chai';
+import { DataType } from '../src';
+
+describe('DataType', () => {
+    describe('.isValid', () => {
+        it('should reject null and undefined values', () => {
+            for (const dataType of DataType.all()) {
+                expect(dataType.isValid(null)).to.be.false;
+                expect(dataType.isValid(undefined)).to.be.false;
+            }
+        });
+
+        it('should validate strings', () => {
+            expect(DataType.string.isValid('value')).to.be.true;
+            expect(DataType.string.isValid(1)).to.be.false;
+        });
+
+        it('should validate booleans', () => {
+            expect(DataType.boolean.isValid(true)).to.be.true;
+            expect(DataType.boolean.isValid('false')).to.be.true;
+            expect(DataType.boolean.isValid('1')).to.be.true;
+            expect(DataType.boolean.isValid('yes')).to.be.false;
+        });
+
+        it('should validate integer bounds', () => {
+            expect(DataType.int.isValid(2147483647)).to.be.true;
+            expect(DataType.int.isValid(2147483648)).to.be.false;
+            expect(DataType.int.isValid('-2147483648')).to.be.true;
+            expect(DataType.int.isValid('-2147483649')).to.be.false;
+            expect(DataType.int.isValid(1.5)).to.be.false;
+            expect(DataType.short.isValid(32767)).to.be.true;
+            expect(DataType.short.isValid(-32769)).to.be.false;
+            expect(DataType.long.isValid('9223372036854775807')).to.be.true;
+            expect(DataType.long.isValid('9223372036854775808')).to.be.false;
+            expect(DataType.long.isValid('-0009223372036854775808')).to.be.true;
+            expect(DataType.integer.isValid('123456789012345678901234567890')).to.be.true;
+            expect(DataType.integer.isValid('12a')).to.be.false;
+        });
+
+        it('should validate decimals and floating point numbers', () => {
+            expect(DataType.decimal.isValid(1.5)).to.be.true;
+            expect(DataType.decimal.isValid('-.5')).to.be.true;
+            expect(DataType.decimal.isValid('1e5')).to.be.false;
+            expect(DataType.double.isValid('1.5E10')).to.be.true;
+            expect(DataType.double.isValid('-INF')).to.be.true;
+            expect(DataType.float.isValid(1e39)).to.be.false;
+            expect(DataType.float.isValid('abc')).to.be.false;
+        });
+
+        it('should validate date and time formats', () => {
+            expect(DataType.date.isValid('2020-08-13')).to.be.true;
+            expect(DataType.date.isValid('2020-08-13+05:30')).to.be.true;
+            expect(DataType.date.isValid('2020-13-01')).to.be.false;
+            expect(DataType.dateTime.isValid('2020-08-13T10:15:30.5Z')).to.be.true;
+            expect(DataType.dateTime.isValid('2020-08-13 10:15:30')).to.be.false;
+            expect(DataType.time.isValid('23:59:59')).to.be.true;
+            expect(DataType.time.isValid('25:00:00')).to.be.false;
+            expect(DataType.day.isValid('---13')).to.be.true;
+            expect(DataType.month.isValid('--08')).to.be.true;
+            expect(DataType.month.isValid('--13')).to.be.false;
+            expect(DataType.year.isValid('2020')).to.be.true;
+            expect(DataType.year.isValid('20')).to.be.false;
+            expect(DataType.duration.isValid('P1Y2M3DT4H5M6.5S')).to.be.true;
+            expect(DataType.duration.isValid('P')).to.be.false;
+            expect(DataType.duration.isValid('PT')).to.be.false;
+        });
+
+        it('should validate binary formats', () => {
+            expect(DataType.hexBinary.isValid('0fA1')).to.be.true;
+            expect(DataType.hexBinary.isValid('0fA')).to.be.false;
+            expect(DataType.base64Binary.isValid('aGVsbG8=')).to.be.true;
+            expect(DataType.base64Binary.isValid('aGVsbG8')).to.be.false;
+        });
+    });
+});
@@ -1,10 +1,14 @@
 // tslint:disable-next-line: no-import-side-effect
 import 'mocha';
 import { expect } from 'chai';
+import { PassThrough } from 'stream';
 import {
     Class,
     Document,
+    DocumentChangeType,
     Errors,
+    MergeConflictType,
+    ViolationType,
     Vocabulary
 } from '../src';
 
@@ -63,6 +67,161 @@ describe('Document', () => {
         });
     });
 
+    describe('.diff', () => {
+        let other: Document;
+
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            other = new Document(vocabulary);
+            await document.load(testInstances);
+            await other.load(testInstances);
+        });
+
+        it('should throw when other document is not valid', () => {
+            expect(() => document.diff(undefined)).to.throw(ReferenceError);
+            expect(() => document.diff(null)).to.throw(ReferenceError);
+        });
+
+        it('should report identical documents regardless of blank node ids', () => {
+            const diff = document.diff(other);
+            expect(diff.identical).to.be.true;
+            expect(diff.changes).to.be.empty;
+            expect(diff.instanceIds).to.be.empty;
+        });
+
+        it('should report added instances, classes and property values', () => {
+            other.createInstance('Location', 'urn:example.org:locations/concord');
+            other.getInstance('urn:example.org:employees/jdoe').setClass('Contractor');
+            other.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua, New Hampshire';
+            other.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue('1234');
+
+            const diff = document.diff(other);
+            expect(diff.identical).to.be.false;
+            expect(diff.changes).to.have.deep.members([
+                { type: DocumentChangeType.InstanceAdded, instanceId: 'urn:example.org:locations/concord' },
+                { type: DocumentChangeType.ClassAdded, instanceId: 'urn:example.org:employees/jdoe', id: 'Contractor' },
+                { type: DocumentChangeType.ValueRemoved, instanceId: 'urn:example.org:locations/nashua', id: 'Location/address', value: 'Nashua, NH' },
+                { type: DocumentChangeType.ValueAdded, instanceId: 'urn:example.org:locations/nashua', id: 'Location/address', value: 'Nashua, New Hampshire' },
+                { type: DocumentChangeType.ValueAdded, instanceId: 'urn:example.org:departments/hr', id: 'Department/phoneNo', value: '1234' }
+            ]);
+
+            expect(diff.instanceIds).to.have.members([
+                'urn:example.org:locations/concord',
+                'urn:example.org:employees/jdoe',
+                'urn:example.org:locations/nashua',
+                'urn:example.org:departments/hr'
+            ]);
+
+            expect(diff.getChanges('urn:example.org:employees/jdoe')).to.deep.equal([
+                { type: DocumentChangeType.ClassAdded, instanceId: 'urn:example.org:employees/jdoe', id: 'Contractor' }
+            ]);
+        });
+
+        it('should report removed instances, classes and references', () => {
+            other.createInstance('Location', 'urn:example.org:locations/concord');
+            other.getInstance('urn:example.org:employees/jdoe').setClass('Contractor');
+            document.removeInstance('urn:example.org:locations/scranton');
+            other.removeInstance('urn:example.org:locations/scranton');
+
+            const diff = other.diff(document);
+            expect(diff.changes).to.have.deep.members([
+                { type: DocumentChangeType.InstanceRemoved, instanceId: 'urn:example.org:locations/concord' },
+                { type: DocumentChangeType.ClassRemoved, instanceId: 'urn:example.org:employees/jdoe', id: 'Contractor' }
+            ]);
+        });
+
+        it('should report changed blank nodes with their ids in each document', () => {
+            const project = [...other.getInstance('urn:example.org:employees/janed').getProperty('Manager/project').value][0];
+            project.getProperty('Project/name').value = 'Renamed';
+
+            const diff = document.diff(other);
+            const removed = diff.changes.find(x => x.type === DocumentChangeType.InstanceRemoved);
+            const added = diff.changes.find(x => x.type === DocumentChangeType.InstanceAdded);
+            expect(document.hasInstance(removed.instanceId)).to.be.true;
+            expect(added.instanceId).to.equal(project.id);
+            expect(diff.changes).to.deep.include({
+                type: DocumentChangeType.ValueAdded,
+                instanceId: 'urn:example.org:employees/janed',
+                id: 'Manager/project',
+                value: project.id
+            });
+        });
+
+        it('should compare list values in order and set values in any order', async () => {
+            const listContext = JSON.parse(JSON.stringify(testContext));
+            listContext['@context'].phoneNo['@container'] = '@list';
+            const listVocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            listVocabulary.context.load('http://example.org/context', listContext);
+            await listVocabulary.load(testVocab);
+
+            const source = new Document(listVocabulary);
+            const target = new Document(listVocabulary);
+            await source.load(testInstances);
+            await target.load(testInstances);
+            ['1', '2', '3'].forEach(x => source.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue(x));
+            ['1', '3', '2'].forEach(x => target.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue(x));
+            ['1', '2'].forEach(x => document.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue(x));
+            ['2', '1'].forEach(x => other.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue(x));
+
+            expect(document.diff(other).identical).to.be.true;
+            expect(source.diff(target).changes).to.deep.equal([
+                { type: DocumentChangeType.ValueRemoved, instanceId: 'urn:example.org:departments/hr', id: 'Department/phoneNo', value: '2' },
+                { type: DocumentChangeType.ValueRemoved, instanceId: 'urn:example.org:departments/hr', id: 'Department/phoneNo', value: '3' },
+                { type: DocumentChangeType.ValueAdded, instanceId: 'urn:example.org:departments/hr', id: 'Department/phoneNo', value: '3' },
+                { type: DocumentChangeType.ValueAdded, instanceId: 'urn:example.org:departments/hr', id: 'Department/phoneNo', value: '2' }
+            ]);
+        });
+
+        it('should report repeated entries of list values', async () => {
+            const listContext = JSON.parse(JSON.stringify(testContext));
+            listContext['@context'].phoneNo['@container'] = '@list';
+            const listVocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            listVocabulary.context.load('http://example.org/context', listContext);
+            await listVocabulary.load(testVocab);
+
+            const source = new Document(listVocabulary);
+            const target = new Document(listVocabulary);
+            await source.load(testInstances);
+            await target.load(testInstances);
+            ['1', '2'].forEach(x => source.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue(x));
+            ['1', '2', '1'].forEach(x => target.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue(x));
+
+            expect(source.equals(target)).to.be.false;
+            expect(source.diff(target).changes).to.deep.equal([
+                { type: DocumentChangeType.ValueAdded, instanceId: 'urn:example.org:departments/hr', id: 'Department/phoneNo', value: '1' }
+            ]);
+        });
+    });
+
+    describe('.equals', () => {
+        let other: Document;
+
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            other = new Document(vocabulary);
+            await document.load(testInstances);
+            await other.load(testInstances);
+        });
+
+        it('should throw when other document is not valid', () => {
+            expect(() => document.equals(undefined)).to.throw(ReferenceError);
+            expect(() => document.equals(null)).to.throw(ReferenceError);
+        });
+
+        it('should return true for documents describing the same graph', async () => {
+            expect(document.equals(other)).to.be.true;
+            const reloaded = new Document(vocabulary);
+            await reloaded.load(await document.toJson({ context: 'http://example.org/context' }));
+            expect(document.equals(reloaded)).to.be.true;
+        });
+
+        it('should return false for documents describing different graphs', () => {
+            other.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+            expect(document.equals(other)).to.be.false;
+            expect(other.equals(document)).to.be.false;
+        });
+    });
+
     describe('.getInstance', () => {
         before(async () => {
             document = new Document(vocabulary);
@@ -125,6 +284,63 @@ describe('Document', () => {
         });
     });
 
+    describe('.on', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should not raise events when loading instances', async () => {
+            const events: string[] = [];
+            const other = new Document(vocabulary);
+            other.on('instanceCreated', instance => events.push(instance.id));
+            other.on('classAdded', instance => events.push(instance.id));
+            other.on('propertyValueChanged', instance => events.push(instance.id));
+            await other.load(testInstances);
+            expect(events).to.be.empty;
+        });
+
+        it('should raise instanceCreated event when creating instance', () => {
+            const created: string[] = [];
+            const classesAdded: string[] = [];
+            document.on('instanceCreated', instance => created.push(instance.id));
+            document.on('classAdded', (instance, classType) => classesAdded.push(classType.id));
+            document.createInstance('Person', 'urn:example.org:persons/jimd');
+            expect(created).to.deep.equal(['urn:example.org:persons/jimd']);
+            expect(classesAdded).to.be.empty;
+        });
+
+        it('should raise instanceRemoved event when removing instance', () => {
+            const removed: string[] = [];
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            instance.on('instanceRemoved', x => removed.push(`instance:${x.id}`));
+            document.on('instanceRemoved', x => removed.push(`document:${x.id}`));
+            document.removeInstance('urn:example.org:employees/jilld');
+            expect(removed).to.deep.equal([
+                'instance:urn:example.org:employees/jilld',
+                'document:urn:example.org:employees/jilld'
+            ]);
+        });
+
+        it('should raise instanceRemoved event for each instance removed in recursive-mode', () => {
+            const removed: string[] = [];
+            document.on('instanceRemoved', instance => removed.push(instance.id));
+            document.removeInstance('urn:example.org:employees/jilld', true);
+            expect(removed).to.include.members([
+                'urn:example.org:employees/jilld',
+                'urn:example.org:departments/finance',
+                'urn:example.org:locations/nashua'
+            ]);
+        });
+
+        it('should raise events of changes to instances', () => {
+            const events: any[] = [];
+            document.on('propertyValueChanged', (instance, property, previousValue) => events.push([instance.id, property.id, previousValue]));
+            document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua, New Hampshire';
+            expect(events).to.deep.equal([['urn:example.org:locations/nashua', 'Location/address', 'Nashua, NH']]);
+        });
+    });
+
     describe('.removeInstance', () => {
         beforeEach(async () => {
             document = new Document(vocabulary);
@@ -173,6 +389,454 @@ describe('Document', () => {
         });
     });
 
+    describe('.transaction', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should not record changes made outside of a transaction', () => {
+            document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua, New Hampshire';
+            expect(document.canUndo).to.be.false;
+            expect(document.undo()).to.be.false;
+        });
+
+        it('should undo and redo property value changes', () => {
+            const address = document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address');
+            document.transaction(() => {
+                address.value = 'Nashua, New Hampshire';
+                address.value = 'Nashua';
+            });
+
+            expect(document.undo()).to.be.true;
+            expect(address.value).to.equal('Nashua, NH');
+            expect(document.canUndo).to.be.false;
+            expect(document.redo()).to.be.true;
+            expect(address.value).to.equal('Nashua');
+            expect(document.canRedo).to.be.false;
+        });
+
+        it('should keep the previous value when an assignment is rejected', () => {
+            const location = document.getInstance('urn:example.org:employees/jilld').getProperty('Person/location');
+            const previousId = location.value.id;
+            document.transaction();
+            expect(() => location.value = 'urn:example.org:locations/nashua').to.throw(Errors.InstancePropertyValueError);
+            expect(location.value.id).to.equal(previousId);
+
+            document.rollback();
+            expect(location.value.id).to.equal(previousId);
+        });
+
+        it('should undo and redo reference and container changes', () => {
+            const jilld = document.getInstance('urn:example.org:employees/jilld');
+            const phoneNo = document.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo');
+            document.transaction(() => {
+                jilld.getProperty('Person/location').value = document.getInstance('urn:example.org:locations/scranton');
+                phoneNo.value.addValue('1234');
+                phoneNo.value.addValue('5678');
+            });
+
+            document.undo();
+            expect(jilld.getProperty('Person/location').value.id).to.equal('urn:example.org:locations/nashua');
+            expect([...phoneNo.value]).to.be.empty;
+
+            document.redo();
+            expect(jilld.getProperty('Person/location').value.id).to.equal('urn:example.org:locations/scranton');
+            expect([...phoneNo.value]).to.deep.equal(['1234', '5678']);
+        });
+
+        it('should roll back all changes when the action throws', () => {
+            const error = new Error('failed');
+            expect(() => document.transaction(() => {
+                document.createInstance('Person', 'urn:example.org:persons/jimd').getProperty('Person/firstName').value = 'Jim';
+                document.getInstance('urn:example.org:employees/jilld').setClass('Contractor');
+                document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+                throw error;
+            })).to.throw(error);
+
+            expect(document.hasInstance('urn:example.org:persons/jimd')).to.be.false;
+            expect(document.getInstance('urn:example.org:employees/jilld').isInstanceOf('Contractor')).to.be.false;
+            expect(document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value).to.equal('Nashua, NH');
+            expect(document.canUndo).to.be.false;
+        });
+
+        it('should undo instance removal with its values and referrers', () => {
+            document.transaction(() => document.removeInstance('urn:example.org:employees/janed'));
+            expect(document.hasInstance('urn:example.org:employees/janed')).to.be.false;
+
+            document.undo();
+            const janed = document.getInstance('urn:example.org:employees/janed');
+            expect(janed.isInstanceOf('Contractor')).to.be.true;
+            expect(janed.isInstanceOf('Manager')).to.be.true;
+            expect(janed.getProperty('Person/firstName').value).to.equal('Jane');
+            expect(janed.getProperty('Person/location').value.id).to.equal('urn:example.org:locations/nashua');
+            expect(janed.getProperty('Manager/project').value.count).to.equal(2);
+            expect(document.getInstance('urn:example.org:employees/jilld').getProperty('Employee/manager').value.id)
+                .to.equal('urn:example.org:employees/janed');
+
+            document.redo();
+            expect(document.hasInstance('urn:example.org:employees/janed')).to.be.false;
+        });
+
+        it('should undo class removal with the values of the class properties', () => {
+            document.transaction(() => document.getInstance('urn:example.org:employees/janed').removeClass('Manager'));
+
+            document.undo();
+            const janed = document.getInstance('urn:example.org:employees/janed');
+            expect(janed.isInstanceOf('Manager')).to.be.true;
+            expect(janed.getProperty('Employee/department').value.id).to.equal('urn:example.org:departments/hr');
+            expect(janed.getProperty('Manager/project').value.count).to.equal(2);
+        });
+
+        it('should undo instance id changes', () => {
+            document.transaction(() => document.getInstance('urn:example.org:employees/jilld').id = 'urn:example.org:employees/jillb');
+            document.undo();
+            expect(document.hasInstance('urn:example.org:employees/jilld')).to.be.true;
+            expect(document.hasInstance('urn:example.org:employees/jillb')).to.be.false;
+        });
+
+        it('should commit and roll back explicit transactions', () => {
+            const address = document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address');
+            document.transaction();
+            address.value = 'Nashua';
+            document.rollback();
+            expect(address.value).to.equal('Nashua, NH');
+
+            document.transaction();
+            address.value = 'Nashua';
+            document.commit();
+            expect(document.undo()).to.be.true;
+            expect(address.value).to.equal('Nashua, NH');
+        });
+
+        it('should run nested actions in the transaction in progress', () => {
+            const address = document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address');
+            document.transaction(() => {
+                address.value = 'Nashua';
+                document.transaction(() => address.value = 'Nashua, New Hampshire');
+            });
+
+            document.undo();
+            expect(address.value).to.equal('Nashua, NH');
+            expect(document.canUndo).to.be.false;
+        });
+
+        it('should throw on invalid transaction operations', () => {
+            expect(() => document.commit()).to.throw(Errors.TransactionError);
+            expect(() => document.rollback()).to.throw(Errors.TransactionError);
+            document.transaction();
+            expect(() => document.transaction()).to.throw(Errors.TransactionError);
+            expect(() => document.undo()).to.throw(Errors.TransactionError);
+            expect(() => document.redo()).to.throw(Errors.TransactionError);
+        });
+    });
+
+    describe('.toRdfPatch', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+            await document.checkpoint();
+        });
+
+        it('should report no changes at checkpoint', () => {
+            expect(document.toRdfPatch()).to.equal('TX .\nTC .\n');
+        });
+
+        it('should report all statements as added before a checkpoint', async () => {
+            const other = new Document(vocabulary);
+            await other.load(testInstances);
+            expect(other.toRdfPatch()).to.equal(`TX .\n${other.toNTriples().split('\n').filter(x => !!x).map(x => `A ${x}\n`).join('')}TC .\n`);
+        });
+
+        it('should report added and deleted statements', () => {
+            document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+            document.createInstance('Location', 'urn:example.org:locations/concord');
+            expect(document.toRdfPatch()).to.equal([
+                'TX .',
+                'D <urn:example.org:locations/nashua> <http://example.org/classes/Location/address> "Nashua, NH" .',
+                'A <urn:example.org:locations/nashua> <http://example.org/classes/Location/address> "Nashua" .',
+                'A <urn:example.org:locations/concord> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://example.org/classes/Location> .',
+                'TC .',
+                ''
+            ].join('\n'));
+        });
+    });
+
+    describe('.applyRdfPatch', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should throw when patch is not valid', () => {
+            expect(() => document.applyRdfPatch(undefined)).to.throw(ReferenceError);
+            expect(() => document.applyRdfPatch('X <urn:a> <urn:b> <urn:c> .')).to.throw(Errors.RdfSyntaxError);
+        });
+
+        it('should apply changes made to another document', async () => {
+            const other = new Document(vocabulary);
+            await other.load(testInstances);
+            await other.checkpoint();
+            other.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+            other.createInstance('Location', 'urn:example.org:locations/concord').getProperty('Location/address').value = 'Concord, NH';
+            other.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue('1234');
+            other.getInstance('urn:example.org:employees/jilld').getProperty('Person/location').value = other.getInstance('urn:example.org:locations/concord');
+            other.removeInstance('urn:example.org:locations/scranton');
+
+            document.applyRdfPatch(other.toRdfPatch());
+            // Blank node labels differ between documents loaded separately.
+            const statements = (x: Document) => x.toNTriples().split('\n').filter(line => !line.includes('_:')).sort();
+            expect(statements(document)).to.deep.equal(statements(other));
+        });
+
+        it('should apply changes in a single transaction', () => {
+            document.applyRdfPatch([
+                'TX .',
+                'A <urn:example.org:locations/concord> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://example.org/classes/Location> .',
+                'A <urn:example.org:locations/concord> <http://example.org/classes/Location/address> "Concord, NH" .',
+                'TC .'
+            ].join('\n'));
+
+            expect(document.getInstance('urn:example.org:locations/concord').getProperty('Location/address').value).to.equal('Concord, NH');
+            document.undo();
+            expect(document.hasInstance('urn:example.org:locations/concord')).to.be.false;
+        });
+
+        it('should roll back all changes when a change cannot be applied', () => {
+            expect(() => document.applyRdfPatch([
+                'D <urn:example.org:locations/nashua> <http://example.org/classes/Location/address> "Nashua, NH" .',
+                'A <urn:example.org:locations/notfound> <http://example.org/classes/Location/address> "Concord, NH" .'
+            ].join('\n'))).to.throw(Errors.InstanceNotFoundError);
+
+            expect(document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value).to.equal('Nashua, NH');
+        });
+    });
+
+    describe('.toJsonPatch', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+            await document.checkpoint({ context: 'http://example.org/context' });
+        });
+
+        it('should report no changes at checkpoint', async () => {
+            expect(await document.toJsonPatch()).to.be.empty;
+        });
+
+        it('should report changes against the compacted JSON', async () => {
+            const previous = await document.toJson({ context: 'http://example.org/context' });
+            const index = previous['@graph'].findIndex((x: any) => x['@id'] === 'urn:example.org:locations/nashua');
+            document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+            document.createInstance('Location', 'urn:example.org:locations/concord');
+            expect(await document.toJsonPatch()).to.deep.equal([
+                { op: 'replace', path: `/@graph/${index}/address`, value: 'Nashua' },
+                { op: 'add', path: '/@graph/-', value: { '@id': 'urn:example.org:locations/concord', '@type': 'Location' } }
+            ]);
+        });
+
+        it('should report values added to existing containers after the checkpoint', async () => {
+            await document.checkpoint();
+            document.getInstance('urn:example.org:departments/finance').getProperty('Department/name').value.addValue('Finanzen', 'de');
+
+            const operations = await document.toJsonPatch();
+            expect(operations.length).to.equal(1);
+            expect(operations[0].op).to.equal('add');
+            expect(operations[0].value).to.deep.equal({ '@language': 'de', '@value': 'Finanzen' });
+        });
+    });
+
+    describe('.applyJsonPatch', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+            await document.checkpoint({ context: 'http://example.org/context' });
+        });
+
+        it('should throw when an operation cannot be applied', async () => {
+            let error: any;
+            try {
+                await document.applyJsonPatch([{ op: 'remove', path: '/@graph/100' }]);
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.instanceOf(Errors.JsonPatchError);
+        });
+
+        it('should apply changes made to another document', async () => {
+            const other = new Document(vocabulary);
+            await other.load(testInstances);
+            await other.checkpoint({ context: 'http://example.org/context' });
+            other.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+            other.createInstance('Location', 'urn:example.org:locations/concord').getProperty('Location/address').value = 'Concord, NH';
+            other.removeInstance('urn:example.org:locations/scranton');
+
+            const nTriples = document.toNTriples();
+            await document.applyJsonPatch(await other.toJsonPatch());
+            expect(document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value).to.equal('Nashua');
+            expect(document.getInstance('urn:example.org:locations/concord').getProperty('Location/address').value).to.equal('Concord, NH');
+            expect(document.hasInstance('urn:example.org:locations/scranton')).to.be.false;
+
+            document.undo();
+            expect(document.toNTriples().split('\n').sort()).to.deep.equal(nTriples.split('\n').sort());
+        });
+
+        it('should apply changes to the expanded JSON of a default checkpoint', async () => {
+            const other = new Document(vocabulary);
+            await other.load(testInstances);
+            await other.checkpoint();
+            await document.checkpoint();
+            other.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+            other.createInstance('Location', 'urn:example.org:locations/concord');
+
+            await document.applyJsonPatch(await other.toJsonPatch());
+            expect(document.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value).to.equal('Nashua');
+            expect(document.hasInstance('urn:example.org:locations/concord')).to.be.true;
+        });
+    });
+
+    describe('.merge', () => {
+        let base: Document;
+        let ours: Document;
+        let theirs: Document;
+
+        beforeEach(async () => {
+            base = new Document(vocabulary);
+            ours = new Document(vocabulary);
+            theirs = new Document(vocabulary);
+            await base.load(testInstances);
+            await ours.load(testInstances);
+            await theirs.load(testInstances);
+        });
+
+        it('should throw when documents are not valid', async () => {
+            for (const documents of [[undefined, ours, theirs], [base, null, theirs], [base, ours, undefined]]) {
+                let error: any;
+                try {
+                    await Document.merge(documents[0], documents[1], documents[2]);
+                } catch (err) {
+                    error = err;
+                }
+
+                expect(error).to.be.instanceOf(ReferenceError);
+            }
+        });
+
+        it('should merge independent changes', async () => {
+            ours.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua, New Hampshire';
+            theirs.getInstance('urn:example.org:locations/scranton').getProperty('Location/address').value = 'Scranton, Pennsylvania';
+            ours.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue('1234');
+            theirs.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue('5678');
+            theirs.getInstance('urn:example.org:employees/jdoe').setClass('Contractor');
+            ours.removeInstance('urn:example.org:employees/jilld');
+            theirs.createInstance('Location', 'urn:example.org:locations/concord');
+
+            const { document: merged, conflicts } = await Document.merge(base, ours, theirs);
+            expect(conflicts).to.be.empty;
+            expect(merged.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value).to.equal('Nashua, New Hampshire');
+            expect(merged.getInstance('urn:example.org:locations/scranton').getProperty('Location/address').value).to.equal('Scranton, Pennsylvania');
+            expect([...merged.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value]).to.have.members(['1234', '5678']);
+            expect(merged.getInstance('urn:example.org:employees/jdoe').isInstanceOf('Contractor')).to.be.true;
+            expect(merged.getInstance('urn:example.org:employees/jdoe').isInstanceOf('Manager')).to.be.true;
+            expect(merged.hasInstance('urn:example.org:employees/jilld')).to.be.false;
+            expect(merged.hasInstance('urn:example.org:locations/concord')).to.be.true;
+            expect(merged.getInstance('urn:example.org:employees/janed').getProperty('Manager/project').value.count).to.equal(2);
+        });
+
+        it('should not report the same change on both sides as a conflict', async () => {
+            ours.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+            theirs.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+
+            const { document: merged, conflicts } = await Document.merge(base, ours, theirs);
+            expect(conflicts).to.be.empty;
+            expect(merged.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value).to.equal('Nashua');
+        });
+
+        it('should report values changed differently on both sides and keep our value', async () => {
+            ours.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua';
+            theirs.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value = 'Nashua, New Hampshire';
+
+            const { document: merged, conflicts } = await Document.merge(base, ours, theirs);
+            expect(conflicts).to.deep.equal([{
+                type: MergeConflictType.Property,
+                instanceId: 'urn:example.org:locations/nashua',
+                propertyId: 'Location/address',
+                base: 'Nashua, NH',
+                ours: 'Nashua',
+                theirs: 'Nashua, New Hampshire'
+            }]);
+
+            expect(merged.getInstance('urn:example.org:locations/nashua').getProperty('Location/address').value).to.equal('Nashua');
+        });
+
+        it('should report instances removed on one side and changed on the other', async () => {
+            ours.removeInstance('urn:example.org:locations/scranton');
+            theirs.getInstance('urn:example.org:locations/scranton').getProperty('Location/address').value = 'Scranton';
+
+            const { document: merged, conflicts } = await Document.merge(base, ours, theirs);
+            expect(conflicts.length).to.equal(1);
+            expect(conflicts[0].type).to.equal(MergeConflictType.Instance);
+            expect(conflicts[0].instanceId).to.equal('urn:example.org:locations/scranton');
+            expect(conflicts[0].ours).to.be.undefined;
+            expect(conflicts[0].theirs.id).to.equal('urn:example.org:locations/scranton');
+            expect(merged.hasInstance('urn:example.org:locations/scranton')).to.be.false;
+        });
+    });
+
+    describe('.strict', () => {
+        it('should not be strict by default', () => {
+            expect(new Document(vocabulary).strict).to.be.false;
+        });
+
+        it('should use strict mode of document options', () => {
+            expect(new Document(vocabulary, { strict: true }).strict).to.be.true;
+        });
+
+        it('should default to strict mode of vocabulary', () => {
+            const strictVocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context', { strict: true });
+            expect(new Document(strictVocabulary).strict).to.be.true;
+            expect(new Document(strictVocabulary, { strict: false }).strict).to.be.false;
+        });
+    });
+
+    describe('.validate', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should conform when all values are in range', () => {
+            const report = document.validate();
+            expect(report.conforms).to.be.true;
+            expect(report.violations).to.be.empty;
+        });
+
+        it('should report all violations across instances', () => {
+            document.getInstance('urn:example.org:employees/jdoe').getProperty('Employee/level').value = 'senior';
+            document.getInstance('urn:example.org:employees/jilld').getProperty('Person/location').value =
+                document.getInstance('urn:example.org:departments/hr');
+
+            const report = document.validate();
+            expect(report.conforms).to.be.false;
+            expect(report.violations.length).to.equal(2);
+            expect(report.violations.some(x => x.instanceId === 'urn:example.org:employees/jdoe' && x.propertyId === 'Employee/level')).to.be.true;
+            expect(report.violations.some(x => x.instanceId === 'urn:example.org:employees/jilld' && x.propertyId === 'Person/location')).to.be.true;
+        });
+
+        it('should report references out of range in inference mode', async () => {
+            document = new Document(vocabulary, { inference: true });
+            await document.load(testInstances);
+            document.getInstance('urn:example.org:employees/jilld').getProperty('Person/location').value =
+                document.getInstance('urn:example.org:departments/hr');
+
+            const report = document.validate();
+            expect(report.violations.length).to.equal(1);
+            expect(report.violations[0].instanceId).to.equal('urn:example.org:employees/jilld');
+            expect(report.violations[0].propertyId).to.equal('Person/location');
+            expect(report.violations[0].type).to.equal(ViolationType.Range);
+        });
+    });
+
     describe('.load', () => {
         beforeEach(async () => {
             document = new Document(vocabulary, {
@@ -239,4 +903,380 @@ describe('Document', () => {
             expect(department.getProperty('Department/name').value.getValue('fr')).to.equal('La finance');
         }
     });
-});
\ No newline at end of file
+
+    describe('.inference', () => {
+        const inferenceInstances = {
+            '@context': 'http://example.org/context',
+            '@graph': [
+                { '@id': 'urn:example.org:employees/leveled', '@type': 'Person', firstName: 'Level', level: 3 },
+                { '@id': 'urn:example.org:employees/managed', '@type': 'Person', manager: 'urn:example.org:employees/managing' },
+                { '@id': 'urn:example.org:employees/managing', '@type': 'Person' }
+            ]
+        };
+
+        before(() => {
+            vocabulary.getClass('Person').createProperty('Person/name');
+            vocabulary.getProperty('Person/firstName').makeSubPropertyOf('Person/name');
+        });
+
+        after(() => {
+            vocabulary.getClass('Person').removeProperty('Person/name', true);
+        });
+
+        beforeEach(async () => {
+            document = new Document(vocabulary, { inference: true });
+            await document.load(inferenceInstances);
+        });
+
+        it('should only use asserted classes when inference is not enabled', async () => {
+            document = new Document(vocabulary);
+            await document.load(inferenceInstances);
+            expect(document.inference).to.be.false;
+            expect(document.getInstance('urn:example.org:employees/leveled').isInstanceOf('Employee')).to.be.false;
+            expect(document.getInstancesOf('Employee').count()).to.equal(0);
+        });
+
+        it('should infer classes from the domain of used properties', () => {
+            const instance = document.getInstance('urn:example.org:employees/leveled');
+            expect(instance.isInstanceOf('Employee')).to.be.true;
+            expect(instance.isInstanceOf('Employee', false)).to.be.false;
+            expect(instance.inferredClasses.map(x => x.id).items()).to.have.members(['Person', 'Employee']);
+        });
+
+        it('should infer classes from the range of referencing properties', () => {
+            expect(document.getInstance('urn:example.org:employees/managing').isInstanceOf('Employee')).to.be.true;
+            expect(document.getInstancesOf('Employee').map(x => x.id).items()).to.have.members([
+                'urn:example.org:employees/leveled',
+                'urn:example.org:employees/managed',
+                'urn:example.org:employees/managing'
+            ]);
+        });
+
+        it('should infer classes from the ancestors of asserted classes', async () => {
+            await document.load(testInstances);
+            expect(document.getInstancesOf('Person').map(x => x.id).items()).to.include.members([
+                'urn:example.org:employees/jdoe',
+                'urn:example.org:employees/janed'
+            ]);
+        });
+
+        it('should only include inferred statements in JSON when requested', async () => {
+            const asserted = await document.toJson({ context: 'http://example.org/context' });
+            const inferred = await document.toJson({ context: 'http://example.org/context' }, true);
+            const find = (json: any) => json['@graph'].find((x: any) => x['@id'] === 'urn:example.org:employees/leveled');
+
+            expect(find(asserted)['@type']).to.equal('Person');
+            expect(find(asserted)['Person/name']).to.be.undefined;
+            expect(find(inferred)['@type']).to.have.members(['Person', 'Employee']);
+            expect(find(inferred)['Person/name']).to.equal('Level');
+            expect(document.getInstance('urn:example.org:employees/leveled').vertex.types.count()).to.equal(1);
+        });
+    });
+
+    describe('.sparql', () => {
+        before(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should throw when query is not valid', () => {
+            expect(() => document.sparql(undefined)).to.throw(ReferenceError);
+            expect(() => document.sparql('SELECT ?x WHERE { ?x a }')).to.throw(Errors.RdfSyntaxError);
+            expect(() => document.sparql('SELECT ?x WHERE { ?x a ex:Thing }')).to.throw(Errors.RdfSyntaxError);
+            expect(() => document.sparql('SELECT ?x WHERE { ?x ?p ?o FILTER(NOW()) }')).to.throw(Errors.RdfSyntaxError);
+        });
+
+        it('should match basic graph patterns using default prefixes', () => {
+            const results = document.sparql(`
+                SELECT ?employee ?name WHERE {
+                    ?employee a vocab:Employee ;
+                        vocab:Person\\/firstName ?name .
+                }`);
+
+            expect(results.head.vars).to.deep.equal(['employee', 'name']);
+            expect(results.results.bindings).to.have.deep.members([
+                { employee: { type: 'uri', value: 'urn:example.org:employees/jdoe' }, name: { type: 'literal', value: 'John' } },
+                { employee: { type: 'uri', value: 'urn:example.org:employees/jilld' }, name: { type: 'literal', value: 'Jill' } }
+            ]);
+        });
+
+        it('should evaluate optional patterns, filters and solution modifiers', () => {
+            const results = document.sparql(`
+                PREFIX person: <http://example.org/classes/Person/>
+                SELECT ?name ?manager WHERE {
+                    ?employee person:firstName ?name .
+                    OPTIONAL { ?employee <http://example.org/classes/Employee/manager> ?manager }
+                    FILTER (STRSTARTS(?name, "J") && ?name != "Jane")
+                }
+                ORDER BY DESC(?name)
+                LIMIT 5`);
+
+            expect(results.results.bindings).to.deep.equal([
+                { name: { type: 'literal', value: 'John' } },
+                { name: { type: 'literal', value: 'Jill' }, manager: { type: 'uri', value: 'urn:example.org:employees/janed' } }
+            ]);
+        });
+
+        it('should evaluate unions and distinct projections', () => {
+            const results = document.sparql(`
+                SELECT DISTINCT ?location WHERE {
+                    { ?x vocab:Person\\/location ?location }
+                    UNION
+                    { ?x vocab:Department\\/location ?location }
+                }
+                ORDER BY ?location`);
+
+            expect(results.results.bindings.map(x => x.location.value)).to.deep.equal([
+                'urn:example.org:locations/nashua',
+                'urn:example.org:locations/scranton'
+            ]);
+        });
+
+        it('should compare typed and language tagged literals', () => {
+            const results = document.sparql(`
+                SELECT * WHERE {
+                    ?department vocab:Department\\/name ?name .
+                    FILTER (LANGMATCHES(LANG(?name), "fr") && REGEX(?name, "^la", "i"))
+                }`);
+
+            expect(results.head.vars).to.deep.equal(['department', 'name']);
+            expect(results.results.bindings).to.deep.equal([{
+                department: { type: 'uri', value: 'urn:example.org:departments/finance' },
+                name: { type: 'literal', value: 'La finance', 'xml:lang': 'fr' }
+            }]);
+
+            const levels = document.sparql('SELECT ?level WHERE { [] vocab:Employee\\/level ?level FILTER(?level + 1 >= 2) }');
+            expect(levels.results.bindings).to.deep.equal([
+                { level: { type: 'literal', value: '1', datatype: 'http://www.w3.org/2001/XMLSchema#integer' } }
+            ]);
+        });
+
+        it('should answer ask queries', () => {
+            expect(document.sparql('ASK { <urn:example.org:employees/jilld> vocab:Employee\\/manager ?manager }')).to.deep.equal({
+                head: { vars: [] },
+                boolean: true
+            });
+
+            expect(document.sparql('ASK WHERE { ?x a vocab:Contractor ; vocab:Employee\\/level ?level }').boolean).to.be.false;
+        });
+
+        it('should query entailments in inference mode', async () => {
+            const query = 'ASK { <urn:example.org:employees/jdoe> a vocab:Person }';
+            expect(document.sparql(query).boolean).to.be.false;
+
+            const inferred = new Document(vocabulary, { inference: true });
+            await inferred.load(testInstances);
+            expect(inferred.sparql(query).boolean).to.be.true;
+        });
+    });
+
+    describe('.toNTriples', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should write language tagged and typed literals', () => {
+            const lines = document.toNTriples().trim().split('\n');
+            expect(lines).to.include.members([
+                '<urn:example.org:departments/finance> <http://example.org/classes/Department/name> "La finance"@fr .',
+                '<urn:example.org:employees/jdoe> <http://example.org/classes/Employee/level> "1"^^<http://www.w3.org/2001/XMLSchema#integer> .',
+                '<urn:example.org:employees/jdoe> <http://example.org/classes/Person/firstName> "John" .'
+            ]);
+        });
+
+        it('should write blank node instances', () => {
+            const lines = document.toNTriples().trim().split('\n');
+            expect(lines.filter(x => x.startsWith('<urn:example.org:employees/janed> <http://example.org/classes/Manager/project> _:')))
+                .to.have.length(2);
+        });
+
+        it('should round trip through loadNTriples', async () => {
+            const loaded = new Document(vocabulary);
+            await loaded.loadNTriples(document.toNTriples());
+
+            expect(loaded.instances.count()).to.equal(document.instances.count());
+            expect(loaded.getInstance('urn:example.org:employees/jdoe').getProperty('Employee/level').value).to.equal(1);
+            expect(loaded.getInstance('urn:example.org:employees/janed').getProperty('Manager/project').value.count).to.equal(2);
+        });
+
+        it('should write @list values as collections and read them back in order', async () => {
+            const listContext = JSON.parse(JSON.stringify(testContext));
+            listContext['@context'].phoneNo['@container'] = '@list';
+            const listVocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            listVocabulary.context.load('http://example.org/context', listContext);
+            await listVocabulary.load(testVocab);
+
+            const source = new Document(listVocabulary);
+            await source.load(testInstances);
+            ['1', '2', '1'].forEach(x => source.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue(x));
+
+            const lines = source.toNTriples().trim().split('\n');
+            expect(lines.filter(x => x.startsWith('<urn:example.org:departments/hr> <http://example.org/classes/Department/phoneNo> _:')))
+                .to.have.length(1);
+            expect(lines.filter(x => x.includes('<http://www.w3.org/1999/02/22-rdf-syntax-ns#first>'))).to.have.length(3);
+
+            const fromNTriples = new Document(listVocabulary);
+            await fromNTriples.loadNTriples(source.toNTriples());
+            const fromNQuads = new Document(listVocabulary);
+            await fromNQuads.loadNQuads(source.toNQuads('urn:example.org:graphs/instances'), 'urn:example.org:graphs/instances');
+            for (const loaded of [fromNTriples, fromNQuads]) {
+                expect([...loaded.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value]).to.deep.equal(['1', '2', '1']);
+                expect(loaded.instances.count()).to.equal(source.instances.count());
+            }
+        });
+    });
+
+    describe('.loadNQuads', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should throw when input is not valid', async () => {
+            for (const input of [undefined, '<urn:example.org:employees/jdoe> "John" .']) {
+                let error: Error;
+                try {
+                    await new Document(vocabulary).loadNQuads(input);
+                } catch (err) {
+                    error = err;
+                }
+
+                expect(error).to.be.instanceOf(input ? Errors.RdfSyntaxError : ReferenceError);
+            }
+        });
+
+        it('should load statements from a stream', async () => {
+            const input = new PassThrough();
+            const loaded = new Document(vocabulary);
+            const loading = loaded.loadNQuads(input, 'urn:example.org:graphs/instances');
+            input.write(document.toNQuads('urn:example.org:graphs/instances'));
+            input.end('<urn:example.org:employees/jsmith> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://example.org/classes/Employee> .\n');
+            await loading;
+
+            expect(loaded.instances.count()).to.equal(document.instances.count());
+            expect(loaded.hasInstance('urn:example.org:employees/jsmith')).to.be.false;
+            expect(loaded.getInstance('urn:example.org:departments/finance').getProperty('Department/name').value.getValue('fr'))
+                .to.equal('La finance');
+        });
+
+        it('should report the line of syntax errors in a stream', async () => {
+            const input = new PassThrough();
+            const loading = new Document(vocabulary).loadNQuads(input);
+            input.end(`${document.toNQuads('urn:example.org:graphs/instances')}<urn:a> <urn:b> "c"^^ .\n`);
+
+            let error: Error;
+            try {
+                await loading;
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.instanceOf(Errors.RdfSyntaxError);
+            expect((error as Errors.RdfSyntaxError).line).to.equal(document.toNTriples().trim().split('\n').length + 1);
+        });
+    });
+
+    describe('.toTurtle', () => {
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should write instances using prefixed names', () => {
+            const turtle = document.toTurtle();
+            expect(turtle).to.include('@prefix vocab: <http://example.org/classes/> .');
+            expect(turtle).to.include('<urn:example.org:employees/jdoe> a vocab:Employee, vocab:Manager ;');
+            expect(turtle).to.include('vocab:Employee\\/level 1 ;');
+            expect(turtle).to.include('vocab:Employee\\/manager <urn:example.org:employees/janed> ;');
+            expect(turtle).to.include('vocab:Department\\/name "Finance"@en, "La finance"@fr .');
+        });
+
+        it('should nest blank node instances', () => {
+            const turtle = document.toTurtle();
+            expect(turtle).to.include('vocab:Manager\\/project [');
+            expect(turtle).to.not.include('_:');
+        });
+
+        it('should round trip through loadTurtle', async () => {
+            const loaded = new Document(vocabulary);
+            await loaded.loadTurtle(document.toTurtle());
+
+            expect(loaded.instances.count()).to.equal(document.instances.count());
+            const jdoe = loaded.getInstance('urn:example.org:employees/jdoe');
+            expect(jdoe.isInstanceOf('Manager')).to.be.true;
+            expect(jdoe.getProperty('Employee/level').value).to.equal(1);
+            expect(loaded.getInstance('urn:example.org:employees/janed').getProperty('Manager/project').value.count).to.equal(2);
+            expect(loaded.getInstance('urn:example.org:departments/finance').getProperty('Department/name').value.getValue('fr'))
+                .to.equal('La finance');
+        });
+
+        it('should write @list values as collections and read them back in order', async () => {
+            const listContext = JSON.parse(JSON.stringify(testContext));
+            listContext['@context'].phoneNo['@container'] = '@list';
+            const listVocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            listVocabulary.context.load('http://example.org/context', listContext);
+            await listVocabulary.load(testVocab);
+
+            const source = new Document(listVocabulary);
+            await source.load(testInstances);
+            ['1', '2', '1'].forEach(x => source.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value.addValue(x));
+
+            const turtle = source.toTurtle();
+            expect(turtle).to.include('vocab:Department\\/phoneNo ( "1" "2" "1" )');
+
+            const loaded = new Document(listVocabulary);
+            await loaded.loadTurtle(turtle);
+            expect([...loaded.getInstance('urn:example.org:departments/hr').getProperty('Department/phoneNo').value]).to.deep.equal(['1', '2', '1']);
+            expect(loaded.equals(source)).to.be.true;
+        });
+    });
+
+    describe('.loadTurtle', () => {
+        beforeEach(() => {
+            document = new Document(vocabulary);
+        });
+
+        it('should throw when text is not valid', async () => {
+            for (const text of [undefined, '<urn:example.org:employees/jdoe> a vocab:Employee .']) {
+                let error: Error;
+                try {
+                    await document.loadTurtle(text);
+                } catch (err) {
+                    error = err;
+                }
+
+                expect(error).to.be.instanceOf(text ? Errors.RdfSyntaxError : ReferenceError);
+            }
+        });
+
+        it('should load instances and typed literals', async () => {
+            await document.loadTurtle(`
+                @prefix vocab: <http://example.org/classes/> .
+                @prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+
+                <urn:example.org:employees/jdoe> a vocab:Employee ;
+                    vocab:Person\\/firstName "John" ;
+                    vocab:Employee\\/level "2"^^xsd:integer ;
+                    vocab:Employee\\/department [ a vocab:Department ; vocab:Department\\/name "Sales"@en ] .`);
+
+            const jdoe = document.getInstance('urn:example.org:employees/jdoe');
+            expect(jdoe.getProperty('Person/firstName').value).to.equal('John');
+            expect(jdoe.getProperty('Employee/level').value).to.equal(2);
+            expect(jdoe.getProperty('Employee/department').value.isInstanceOf('Department')).to.be.true;
+            expect(jdoe.getProperty('Employee/department').value.getProperty('Department/name').value.getValue('en')).to.equal('Sales');
+        });
+
+        it('should resolve relative IRIs against bases without an authority', async () => {
+            await document.loadTurtle(`
+                @base <urn:example.org:employees/jdoe> .
+                @prefix vocab: <http://example.org/classes/> .
+
+                <jilld> a vocab:Employee .
+                <../locations/nashua> a vocab:Location .`);
+
+            expect(document.hasInstance('urn:example.org:employees/jilld')).to.be.true;
+            expect(document.hasInstance('urn:locations/nashua')).to.be.true;
+        });
+    });
+});
@@ -6,6 +6,7 @@ import {
     Errors,
     Instance,
     ContainerPropertyValues,
+    ViolationType,
     Vocabulary,
 } from '../src';
 
@@ -140,6 +141,60 @@ describe('Instance', () => {
         });
     });
 
+    describe('.getValues', () => {
+        let document: Document;
+
+        before(() => {
+            const personClass = vocabulary.getClass('Person');
+            personClass.createProperty('Person/name');
+            personClass.createProperty('Person/knows');
+            vocabulary.getProperty('Person/firstName').makeSubPropertyOf('Person/name');
+            vocabulary.getProperty('Person/lastName').makeSubPropertyOf('Person/name');
+            vocabulary.getProperty('Employee/manager').makeSubPropertyOf('Person/knows');
+        });
+
+        after(() => {
+            vocabulary.getClass('Person').removeProperty('Person/name', true).removeProperty('Person/knows', true);
+        });
+
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should throw when property is not valid', () => {
+            const instance = document.getInstance('urn:example.org:employees/jdoe');
+            expect(() => instance.getValues(undefined)).to.throw(ReferenceError);
+            expect(() => instance.getValues('Person/doesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should get values of the property only', () => {
+            const instance = document.getInstance('urn:example.org:employees/jdoe');
+            expect(instance.getValues('Person/firstName').items()).to.deep.equal(['John']);
+            expect(instance.getValues('Person/name').count()).to.equal(0);
+        });
+
+        it('should include values asserted through sub-properties', () => {
+            const instance = document.getInstance('urn:example.org:employees/jdoe');
+            expect(instance.getValues('Person/name', true).items()).to.have.members(['John', 'Doe']);
+        });
+
+        it('should include references asserted through sub-properties', () => {
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            const known = instance.getValues(vocabulary.getProperty('Person/knows'), true).items();
+            expect(known.length).to.equal(1);
+            expect(known[0]).to.be.instanceOf(Instance);
+            expect(known[0].id).to.equal('urn:example.org:employees/janed');
+        });
+
+        it('should get values of language containers with their language', () => {
+            const instance = document.getInstance('urn:example.org:departments/hr');
+            instance.getProperty('Department/name').value.addValue('Ressources humaines', 'fr');
+            expect(instance.getValues('Department/name').items()).to.deep.include({ value: 'Ressources humaines', language: 'fr' });
+            expect(instance.getValues('Department/name').items()).to.deep.equal([...instance.getProperty('Department/name').value]);
+        });
+    });
+
     describe('.getReferrers', () => {
         let document: Document;
 
@@ -201,6 +256,65 @@ describe('Instance', () => {
         });
     });
 
+    describe('.on', () => {
+        let document: Document;
+
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should raise propertyValueChanged event with previous value when setting value', () => {
+            const events: any[] = [];
+            const instance = document.getInstance<Location>('urn:example.org:locations/nashua');
+            instance.on('propertyValueChanged', (x, property, previousValue) => events.push([x.id, property.id, previousValue]));
+            instance.address = 'Nashua, New Hampshire';
+            instance.address = null;
+            expect(events).to.deep.equal([
+                ['urn:example.org:locations/nashua', 'Location/address', 'Nashua, NH'],
+                ['urn:example.org:locations/nashua', 'Location/address', 'Nashua, New Hampshire']
+            ]);
+        });
+
+        it('should raise propertyValueChanged event with previous reference when setting reference', () => {
+            const previousValues: Instance[] = [];
+            const instance = document.getInstance<Employee>('urn:example.org:employees/jilld');
+            instance.on('propertyValueChanged', (x, property, previousValue) => previousValues.push(previousValue));
+            instance.location = document.getInstance<Location>('urn:example.org:locations/scranton');
+            expect(previousValues.map(x => x.id)).to.deep.equal(['urn:example.org:locations/nashua']);
+        });
+
+        it('should raise propertyValueChanged event with previous items when changing container', () => {
+            const previousValues: any[][] = [];
+            const instance = document.getInstance('urn:example.org:departments/hr');
+            instance.on('propertyValueChanged', (x, property, previousValue) => previousValues.push(previousValue));
+            const phoneNo: ContainerPropertyValues<string> = instance.getProperty('Department/phoneNo').value;
+            phoneNo.addValue('1234');
+            phoneNo.addValue('5678');
+            phoneNo.removeValue('1234');
+            phoneNo.clear();
+            expect(previousValues).to.deep.equal([[], ['1234'], ['1234', '5678'], ['5678']]);
+        });
+
+        it('should raise classAdded and classRemoved events', () => {
+            const events: string[] = [];
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            instance.on('classAdded', (x, classType) => events.push(`added:${classType.id}`));
+            instance.on('classRemoved', (x, classType) => events.push(`removed:${classType.id}`));
+            instance.setClass('Contractor');
+            instance.setClass('Contractor');
+            instance.removeClass('Contractor');
+            expect(events).to.deep.equal(['added:Contractor', 'removed:Contractor']);
+        });
+
+        it('should raise events on containing document', () => {
+            const events: string[] = [];
+            document.on('classAdded', (x, classType) => events.push(`${x.id}:${classType.id}`));
+            document.getInstance('urn:example.org:employees/jilld').setClass('Contractor');
+            expect(events).to.deep.equal(['urn:example.org:employees/jilld:Contractor']);
+        });
+    });
+
     describe('.removeClass', () => {
         let document: Document;
 
@@ -249,6 +363,64 @@ describe('Instance', () => {
         });
     });
 
+    describe('.resolvePath', () => {
+        let document: Document;
+
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should throw when path is not valid', () => {
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            expect(() => instance.resolvePath(undefined)).to.throw(ReferenceError);
+            expect(() => instance.resolvePath('manager/')).to.throw(Errors.PropertyPathSyntaxError);
+            expect(() => instance.resolvePath('(manager|location')).to.throw(Errors.PropertyPathSyntaxError);
+            expect(() => instance.resolvePath('<Employee/manager')).to.throw(Errors.PropertyPathSyntaxError);
+            expect(() => instance.resolvePath('manager/doesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should resolve sequences of properties', () => {
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            expect(instance.resolvePath('manager/department/deptLocation/address').items()).to.deep.equal(['Scranton, PA']);
+            expect(instance.resolvePath('<Employee/manager>/firstName').items()).to.deep.equal(['Jane']);
+            expect(instance.resolvePath('level').items()).to.be.empty;
+        });
+
+        it('should resolve values of container properties', () => {
+            const instance = document.getInstance('urn:example.org:employees/janed');
+            expect(instance.resolvePath('project/projectName').items()).to.have.members(['projectA', 'projectB']);
+        });
+
+        it('should resolve inverse properties', () => {
+            const instance = document.getInstance('urn:example.org:locations/nashua');
+            expect(instance.resolvePath('^location/firstName').items()).to.have.members(['Jill', 'Jane']);
+            expect(instance.resolvePath('^(department/deptLocation)').map(x => x.id).items()).to.deep.equal([
+                'urn:example.org:employees/jilld'
+            ]);
+        });
+
+        it('should resolve distinct instances of alternative properties', () => {
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            expect(instance.resolvePath('location | department/deptLocation').map(x => x.id).items()).to.deep.equal([
+                'urn:example.org:locations/nashua'
+            ]);
+        });
+
+        it('should resolve repeated properties', () => {
+            const jill = document.getInstance<Employee>('urn:example.org:employees/jilld');
+            expect(jill.resolvePath('manager*').map(x => x.id).items()).to.deep.equal([
+                'urn:example.org:employees/jilld',
+                'urn:example.org:employees/janed'
+            ]);
+
+            expect(jill.resolvePath('manager+').map(x => x.id).items()).to.deep.equal(['urn:example.org:employees/janed']);
+
+            document.getInstance<Employee>('urn:example.org:employees/janed').manager = jill;
+            expect(jill.resolvePath('manager+/firstName').items()).to.have.members(['Jane', 'Jill']);
+        });
+    });
+
     describe('.setClass', () => {
         let document: Document;
 
@@ -352,6 +524,244 @@ describe('Instance', () => {
         });
     });
 
+    describe('.validate', () => {
+        let document: Document;
+
+        beforeEach(async () => {
+            document = new Document(vocabulary);
+            await document.load(testInstances);
+        });
+
+        it('should conform when property values are in range', () => {
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            expect(instance.validate().conforms).to.be.true;
+        });
+
+        it('should report data type violations', () => {
+            const instance = document.getInstance('urn:example.org:employees/jdoe');
+            instance.getProperty('Employee/level').value = 'senior';
+
+            const report = instance.validate();
+            expect(report.conforms).to.be.false;
+            expect(report.violations.length).to.equal(1);
+            expect(report.violations[0].instanceId).to.equal('urn:example.org:employees/jdoe');
+            expect(report.violations[0].propertyId).to.equal('Employee/level');
+            expect(report.violations[0].type).to.equal(ViolationType.Range);
+            expect(report.violations[0].expected).to.equal('xsd:integer');
+            expect(report.violations[0].value).to.equal('senior');
+        });
+
+        it('should report class range violations', () => {
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            instance.getProperty('Employee/manager').value = document.getInstance('urn:example.org:locations/nashua');
+
+            const report = instance.validate();
+            expect(report.violations.length).to.equal(1);
+            expect(report.violations[0].propertyId).to.equal('Employee/manager');
+            expect(report.violations[0].expected).to.equal('Employee');
+        });
+
+        it('should accept references to descendant class instances', () => {
+            const instance = document.getInstance('urn:example.org:employees/jilld');
+            instance.getProperty('Employee/manager').value = document.getInstance('urn:example.org:employees/jdoe');
+            expect(instance.validate().conforms).to.be.true;
+        });
+
+        describe('cardinality', () => {
+            before(() => {
+                vocabulary.getClass('Person').setCardinality('Person/firstName', { minCount: 1 });
+                vocabulary.getClass('Manager').setCardinality('Manager/manages', { maxCount: 1 });
+            });
+
+            after(() => {
+                vocabulary.getClass('Person').removeCardinality('Person/firstName');
+                vocabulary.getClass('Manager').removeCardinality('Manager/manages');
+            });
+
+            it('should report missing required property', () => {
+                const instance = document.getInstance<Employee>('urn:example.org:employees/jilld');
+                instance.firstName = null;
+
+                const report = instance.validate();
+                expect(report.violations.length).to.equal(1);
+                expect(report.violations[0].type).to.equal(ViolationType.MinCount);
+                expect(report.violations[0].propertyId).to.equal('Person/firstName');
+                expect(report.violations[0].value).to.equal(0);
+            });
+
+            it('should report container values exceeding max count', () => {
+                const instance = document.getInstance<Manager>('urn:example.org:employees/jdoe');
+                instance.manages.addReference(document.getInstance('urn:example.org:employees/jilld'));
+                expect(instance.validate().conforms).to.be.true;
+
+                instance.manages.addReference(document.getInstance('urn:example.org:employees/janed'));
+                const report = instance.validate();
+                expect(report.violations.length).to.equal(1);
+                expect(report.violations[0].type).to.equal(ViolationType.MaxCount);
+                expect(report.violations[0].expected).to.equal('1');
+                expect(report.violations[0].value).to.equal(2);
+            });
+        });
+
+        it('should report all violations in container values', () => {
+            const instance = document.getInstance<Manager>('urn:example.org:employees/jdoe');
+            instance.manages.addReference(document.getInstance('urn:example.org:employees/jilld'));
+            instance.manages.addReference(document.getInstance('urn:example.org:locations/nashua'));
+            instance.manages.addReference(document.getInstance('urn:example.org:departments/hr'));
+
+            const report = instance.validate();
+            expect(report.violations.length).to.equal(2);
+            expect(report.violations.every(x => x.propertyId === 'Manager/manages')).to.be.true;
+        });
+    });
+
+    describe('.values (strict)', () => {
+        let document: Document;
+
+        beforeEach(async () => {
+            document = new Document(vocabulary, { strict: true });
+            await document.load(testInstances);
+        });
+
+        it('should throw when setting value not in range', () => {
+            const instance = document.getInstance<Employee>('urn:example.org:employees/jdoe');
+            try {
+                instance.level = 'senior' as any;
+                expect.fail('Expected value assignment to throw');
+            } catch (err) {
+                expect(err).to.be.instanceOf(Errors.InstancePropertyValueError);
+                expect(err.expectedType).to.equal('xsd:integer');
+                expect(err.actualType).to.equal('string');
+            }
+
+            expect(instance.level).to.equal(1);
+        });
+
+        it('should throw when setting reference not in range', () => {
+            const instance = document.getInstance<Employee>('urn:example.org:employees/jilld');
+            const location = document.getInstance<Location>('urn:example.org:locations/nashua');
+            expect(() => instance.manager = location as any).to.throw(Errors.InstancePropertyValueError);
+            expect(instance.manager.id).to.equal('urn:example.org:employees/janed');
+        });
+
+        it('should throw when setting class reference for class range', () => {
+            const instance = document.getInstance<Employee>('urn:example.org:employees/jilld');
+            expect(() => instance.manager = vocabulary.getClass('Employee') as any).to.throw(Errors.InstancePropertyValueError);
+            expect(() => instance.manager = vocabulary.getClass('Manager') as any).to.throw(Errors.InstancePropertyValueError);
+            expect(instance.manager.id).to.equal('urn:example.org:employees/janed');
+        });
+
+        it('should allow values in range', () => {
+            const instance = document.getInstance<Employee>('urn:example.org:employees/jilld');
+            instance.level = 2;
+            instance.manager = document.getInstance<Manager>('urn:example.org:employees/jdoe');
+            instance.manager = null;
+            expect(instance.level).to.equal(2);
+            expect(instance.manager).to.be.undefined;
+        });
+
+        it('should throw when adding container value not in range', () => {
+            const instance = document.getInstance<Department>('urn:example.org:departments/hr');
+            expect(() => instance.phoneNo.addValue(1234 as any)).to.throw(Errors.InstancePropertyValueError);
+            expect(instance.phoneNo.count).to.equal(0);
+        });
+
+        it('should throw when adding container reference not in range', () => {
+            const instance = document.getInstance<Manager>('urn:example.org:employees/jdoe');
+            expect(() => instance.manages.addReference(document.getInstance('urn:example.org:locations/nashua'))).to.throw(Errors.InstancePropertyValueError);
+            instance.manages.addReference(document.getInstance('urn:example.org:employees/jilld'));
+            expect(instance.manages.count).to.equal(1);
+        });
+    });
+
+    describe('.values (inverse)', () => {
+        let document: Document;
+        let employee: Employee;
+        let manager1: Manager;
+        let manager2: Manager;
+
+        before(() => {
+            vocabulary.getProperty('Employee/manager').setInverseOf('Manager/manages');
+        });
+
+        after(() => {
+            vocabulary.getProperty('Employee/manager').removeInverseOf();
+        });
+
+        beforeEach(() => {
+            document = new Document(vocabulary);
+            employee = document.createInstance<Employee>('Employee', 'urn:example.org:employees/testEmployee1');
+            manager1 = document.createInstance<Manager>('Manager', 'urn:example.org:employees/testManager1');
+            manager2 = document.createInstance<Manager>('Manager', 'urn:example.org:employees/testManager2');
+        });
+
+        it('should add the inverse reference when a reference is set', () => {
+            employee.manager = manager1;
+            expect(manager1.manages.hasReference(employee)).to.be.true;
+        });
+
+        it('should remove the inverse reference when a reference is replaced or deleted', () => {
+            employee.manager = manager1;
+            employee.manager = manager2;
+            expect(manager1.manages.count).to.equal(0);
+            expect(manager2.manages.hasReference(employee)).to.be.true;
+
+            employee.manager = null;
+            expect(manager2.manages.count).to.equal(0);
+        });
+
+        it('should set the inverse reference when a container reference is added', () => {
+            employee.manager = manager1;
+            manager2.manages.addReference(employee);
+            expect(employee.manager.id).to.equal(manager2.id);
+            expect(manager1.manages.count).to.equal(0);
+        });
+
+        it('should delete the inverse reference when a container reference is removed or cleared', () => {
+            manager1.manages.addReference(employee);
+            manager1.manages.removeReference(employee);
+            expect(employee.manager).to.be.undefined;
+
+            manager1.manages.addReference(employee);
+            manager1.manages.clear();
+            expect(employee.manager).to.be.undefined;
+        });
+
+        it('should raise propertyValueChanged for instances changed on the inverse side', () => {
+            const changes: [string, string, any][] = [];
+            document.on('propertyValueChanged', (instance, property, previousValue) => changes.push([instance.id, property.id, previousValue]));
+
+            employee.manager = manager1;
+            expect(changes).to.deep.equal([
+                [manager1.id, 'Manager/manages', []],
+                [employee.id, 'Employee/manager', undefined]
+            ]);
+
+            changes.length = 0;
+            manager2.manages.addReference(employee);
+            expect(changes.map(([instanceId, propertyId]) => [instanceId, propertyId])).to.deep.equal([
+                [manager1.id, 'Manager/manages'],
+                [employee.id, 'Employee/manager'],
+                [manager2.id, 'Manager/manages']
+            ]);
+
+            expect(changes[0][2].map((x: any) => x.id)).to.deep.equal([employee.id]);
+            expect(changes[1][2].id).to.equal(manager1.id);
+            expect(changes[2][2]).to.be.empty;
+        });
+
+        it('should restore both sides of inverse references on rollback', () => {
+            employee.manager = manager1;
+            document.transaction();
+            manager2.manages.addReference(employee);
+            document.rollback();
+
+            expect(employee.manager.id).to.equal(manager1.id);
+            expect(manager1.manages.hasReference(employee)).to.be.true;
+            expect(manager2.manages.count).to.equal(0);
+        });
+    });
+
     describe('.values', () => {
         let document: Document;
 
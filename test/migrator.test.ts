@@ -0,0 +1,142 @@
+// tslint:disable-next-line: no-import-side-effect
+import 'mocha';
+import { expect } from 'chai';
+import {
+    Document,
+    Migrator,
+    Vocabulary
+} from '../src';
+
+const testContext = require('./samples/context.json');
+const testVocab = require('./samples/vocabulary.json');
+const testInstances = require('./samples/instances.json');
+
+describe('Migrator', () => {
+    let source: Vocabulary;
+    let target: Vocabulary;
+    let document: Document;
+
+    before(async () => {
+        source = await loadVocabulary();
+        const definition = JSON.parse(JSON.stringify(testVocab));
+        definition['@graph'] = definition['@graph'].filter((x: any) => x['@id'] !== 'Project/name');
+        definition['@graph'].find((x: any) => x['@id'] === 'Contractor')['@id'] = 'Consultant';
+        definition['@graph'].find((x: any) => x['@id'] === 'Contractor/company').domain = 'Consultant';
+        definition['@graph'].find((x: any) => x['@id'] === 'Person/firstName')['@id'] = 'Person/givenName';
+
+        const context = JSON.parse(JSON.stringify(testContext));
+        context['@context'].firstName = 'Person/givenName';
+        target = await loadVocabulary(definition, context);
+    });
+
+    beforeEach(async () => {
+        document = new Document(source);
+        await document.load(testInstances);
+    });
+
+    describe('constructor', () => {
+        it('should throw when source or target vocabulary is not valid', () => {
+            expect(() => new Migrator(undefined, target)).to.throw(ReferenceError);
+            expect(() => new Migrator(source, null)).to.throw(ReferenceError);
+        });
+    });
+
+    describe('.migrate', () => {
+        it('should throw when document is not valid', () => {
+            const migrator = new Migrator(source, target);
+            expect(() => migrator.migrate(undefined)).to.throw(ReferenceError);
+            expect(() => migrator.migrate(new Document(target))).to.throw(ReferenceError);
+        });
+
+        it('should migrate all instances to the same vocabulary', async () => {
+            const { document: migrated, report } = new Migrator(source, await loadVocabulary()).migrate(document);
+            expect(report.succeeded).to.be.true;
+            expect(report.migrated.length).to.equal(document.instances.count());
+            expect(migrated.instances.count()).to.equal(document.instances.count());
+
+            const jilld = migrated.getInstance('urn:example.org:employees/jilld');
+            expect(jilld.isInstanceOf('Employee')).to.be.true;
+            expect(jilld.getProperty('Person/lastName').value).to.equal('Doe');
+            expect(jilld.getProperty('Employee/manager').value.id).to.equal('urn:example.org:employees/janed');
+            expect(migrated.getInstance('urn:example.org:departments/finance').getProperty('Department/name').value.getValue('fr'))
+                .to.equal('La finance');
+        });
+
+        it('should not modify the source document', () => {
+            new Migrator(source, target, { classes: { Contractor: 'Consultant' } }).migrate(document);
+            const janed = document.getInstance('urn:example.org:employees/janed');
+            expect(janed.isInstanceOf('Contractor')).to.be.true;
+            expect(janed.getProperty('Person/firstName').value).to.equal('Jane');
+        });
+
+        it('should migrate renamed classes and properties', () => {
+            const { document: migrated } = new Migrator(source, target, {
+                classes: { Contractor: 'Consultant' },
+                properties: { 'Person/firstName': 'Person/givenName' }
+            }).migrate(document);
+
+            const janed = migrated.getInstance('urn:example.org:employees/janed');
+            expect(janed.isInstanceOf('Consultant')).to.be.true;
+            expect(janed.isInstanceOf('Manager')).to.be.true;
+            expect(janed.getProperty('Person/givenName').value).to.equal('Jane');
+            expect(janed.getProperty('Manager/project').value.count).to.equal(2);
+        });
+
+        it('should transform property values', () => {
+            const { document: migrated } = new Migrator(source, target, {
+                properties: { 'Person/firstName': 'Person/givenName' },
+                transforms: {
+                    'Person/lastName': (value: string) => value.toUpperCase(),
+                    'Employee/level': () => undefined
+                }
+            }).migrate(document);
+
+            const jdoe = migrated.getInstance('urn:example.org:employees/jdoe');
+            expect(jdoe.getProperty('Person/givenName').value).to.equal('John');
+            expect(jdoe.getProperty('Person/lastName').value).to.equal('DOE');
+            expect(jdoe.getProperty('Employee/level').value).to.be.undefined;
+        });
+
+        it('should report classes and properties that could not be migrated', () => {
+            const { document: migrated, report } = new Migrator(source, target, {
+                properties: { 'Person/firstName': 'Person/givenName' }
+            }).migrate(document);
+
+            expect(report.succeeded).to.be.false;
+            expect(report.failures).to.deep.include({
+                instanceId: 'urn:example.org:employees/janed',
+                resourceId: 'Contractor',
+                message: 'Class Contractor of instance urn:example.org:employees/janed has no matching class in the target vocabulary'
+            });
+
+            const projectFailures = report.failures.filter(x => x.resourceId === 'Project/name');
+            expect(projectFailures.length).to.equal(2);
+            expect(migrated.getInstance('urn:example.org:employees/janed').isInstanceOf('Manager')).to.be.true;
+            expect(report.migrated).to.include('urn:example.org:employees/janed');
+        });
+
+        it('should report instances with no migrated classes', async () => {
+            const definition = JSON.parse(JSON.stringify(testVocab));
+            definition['@graph'].find((x: any) => x['@id'] === 'Location')['@id'] = 'Place';
+            definition['@graph'].find((x: any) => x['@id'] === 'Location/address').domain = 'Place';
+            const { document: migrated, report } = new Migrator(source, await loadVocabulary(definition)).migrate(document);
+
+            expect(report.failures).to.deep.include({
+                instanceId: 'urn:example.org:locations/nashua',
+                message: 'Instance urn:example.org:locations/nashua was not migrated. None of its classes could be migrated'
+            });
+            expect(report.failures.some(x => x.resourceId === 'Person/location' && x.value === 'urn:example.org:locations/nashua'))
+                .to.be.true;
+            expect(report.migrated).to.not.include('urn:example.org:locations/nashua');
+            expect(migrated.hasInstance('urn:example.org:locations/nashua')).to.be.false;
+            expect(migrated.getInstance('urn:example.org:employees/jilld').getProperty('Person/location').value).to.be.undefined;
+        });
+    });
+
+    async function loadVocabulary(definition: any = testVocab, context: any = testContext): Promise<Vocabulary> {
+        const vocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+        vocabulary.context.load('http://example.org/context', context);
+        await vocabulary.load(definition);
+        return vocabulary;
+    }
+});
@@ -0,0 +1,175 @@
+// tslint:disable-next-line: no-import-side-effect
+import 'mocha';
+import { expect } from 'chai';
+import {
+    Errors,
+    PropertyKind,
+    Vocabulary
+} from '../src';
+
+const testContext = require('./samples/context.json');
+const testClasses = require('./samples/vocabulary.json');
+
+describe('Property', () => {
+    let vocabulary: Vocabulary;
+
+    beforeEach(async () => {
+        vocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+        vocabulary.context.load('http://example.org/context', testContext);
+        await vocabulary.load(testClasses);
+    });
+
+    describe('.kind', () => {
+        it('should infer the kind of the property from its range', () => {
+            expect(vocabulary.getProperty('Person/firstName').kind).to.equal(PropertyKind.Datatype);
+            expect(vocabulary.getProperty('Employee/manager').kind).to.equal(PropertyKind.Object);
+            expect(vocabulary.createProperty('Person/nickName').kind).to.be.undefined;
+        });
+
+        it('should type the property with the kind', () => {
+            const property = vocabulary.getProperty('Person/firstName');
+            property.kind = PropertyKind.Object;
+            expect(property.kind).to.equal(PropertyKind.Object);
+            expect(property.isType('owl:ObjectProperty')).to.be.true;
+
+            property.kind = undefined;
+            expect(property.isType('owl:ObjectProperty')).to.be.false;
+            expect(property.kind).to.equal(PropertyKind.Datatype);
+        });
+
+        it('should throw when a property with an inverse is made a datatype property', () => {
+            const manager = vocabulary.getProperty('Employee/manager');
+            manager.setInverseOf('Manager/manages');
+            expect(() => (manager.kind = PropertyKind.Datatype)).to.throw(Errors.InvalidOperationError);
+        });
+    });
+
+    describe('.setInverseOf', () => {
+        it('should throw when property reference is undefined, null or empty', () => {
+            const manager = vocabulary.getProperty('Employee/manager');
+            expect(() => manager.setInverseOf(undefined)).to.throw(ReferenceError);
+            expect(() => manager.setInverseOf(null)).to.throw(ReferenceError);
+            expect(() => manager.setInverseOf('')).to.throw(ReferenceError);
+        });
+
+        it('should throw when property is not found', () => {
+            const manager = vocabulary.getProperty('Employee/manager');
+            expect(() => manager.setInverseOf('Employee/doesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should throw when either property is a datatype property', () => {
+            const manager = vocabulary.getProperty('Employee/manager');
+            expect(() => manager.setInverseOf('Person/firstName')).to.throw(Errors.InvalidOperationError);
+            expect(() => vocabulary.getProperty('Person/firstName').setInverseOf(manager)).to.throw(Errors.InvalidOperationError);
+        });
+
+        it('should declare properties the inverse of each other', () => {
+            const manager = vocabulary.getProperty('Employee/manager');
+            manager.setInverseOf('Manager/manages');
+            expect(manager.inverseOf.id).to.equal('Manager/manages');
+            expect(vocabulary.getProperty('Manager/manages').inverseOf.id).to.equal('Employee/manager');
+        });
+
+        it('should replace the previous inverse of both properties', () => {
+            const manager = vocabulary.getProperty('Employee/manager');
+            const project = vocabulary.getProperty('Manager/project');
+            project.kind = PropertyKind.Object;
+            manager.setInverseOf('Manager/manages');
+            project.setInverseOf(manager);
+
+            expect(manager.inverseOf.id).to.equal('Manager/project');
+            expect(vocabulary.getProperty('Manager/manages').inverseOf).to.be.undefined;
+        });
+    });
+
+    describe('.removeInverseOf', () => {
+        it('should remove the inverse from both properties', () => {
+            const manages = vocabulary.getProperty('Manager/manages');
+            vocabulary.getProperty('Employee/manager').setInverseOf(manages);
+            manages.removeInverseOf();
+
+            expect(manages.inverseOf).to.be.undefined;
+            expect(vocabulary.getProperty('Employee/manager').inverseOf).to.be.undefined;
+        });
+    });
+
+    describe('.makeSubPropertyOf', () => {
+        it('should throw when property reference is undefined, null or empty', () => {
+            const firstName = vocabulary.getProperty('Person/firstName');
+            expect(() => firstName.makeSubPropertyOf(undefined)).to.throw(ReferenceError);
+            expect(() => firstName.makeSubPropertyOf(null)).to.throw(ReferenceError);
+            expect(() => firstName.makeSubPropertyOf('')).to.throw(ReferenceError);
+        });
+
+        it('should throw when property is not found', () => {
+            const firstName = vocabulary.getProperty('Person/firstName');
+            expect(() => firstName.makeSubPropertyOf('Person/doesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should throw when the hierarchy would be circular', () => {
+            const name = vocabulary.createProperty('Person/name');
+            const firstName = vocabulary.getProperty('Person/firstName').makeSubPropertyOf(name);
+            expect(() => name.makeSubPropertyOf(firstName)).to.throw(Errors.InvalidOperationError);
+            expect(() => name.makeSubPropertyOf(name)).to.throw(Errors.InvalidOperationError);
+        });
+
+        it('should make sub-property of property', () => {
+            const name = vocabulary.createProperty('Person/name');
+            const firstName = vocabulary.getProperty('Person/firstName').makeSubPropertyOf('Person/name');
+            vocabulary.getProperty('Person/lastName').makeSubPropertyOf(name);
+
+            expect(firstName.isSubPropertyOf('Person/name')).to.be.true;
+            expect(firstName.parentProperties.map(x => x.id).items()).to.deep.equal(['Person/name']);
+            expect(name.subProperties.map(x => x.id).items()).to.have.members(['Person/firstName', 'Person/lastName']);
+        });
+    });
+
+    describe('.ancestors', () => {
+        it('should get all ancestors of the property', () => {
+            const name = vocabulary.createProperty('Person/name');
+            const label = vocabulary.createProperty('Person/label');
+            name.makeSubPropertyOf(label);
+            const firstName = vocabulary.getProperty('Person/firstName').makeSubPropertyOf(name);
+
+            expect(firstName.ancestors.map(x => x.id).items()).to.deep.equal(['Person/label', 'Person/name']);
+            expect(label.ancestors.count()).to.equal(0);
+        });
+    });
+
+    describe('.descendants', () => {
+        it('should get all descendants of the property', () => {
+            const name = vocabulary.createProperty('Person/name');
+            const label = vocabulary.createProperty('Person/label');
+            name.makeSubPropertyOf(label);
+            vocabulary.getProperty('Person/firstName').makeSubPropertyOf(name);
+
+            expect(label.descendants.map(x => x.id).items()).to.deep.equal(['Person/firstName', 'Person/name']);
+            expect(vocabulary.getProperty('Person/firstName').descendants.count()).to.equal(0);
+        });
+    });
+
+    describe('.removeSubPropertyOf', () => {
+        it('should throw when property is not found', () => {
+            const firstName = vocabulary.getProperty('Person/firstName');
+            expect(() => firstName.removeSubPropertyOf(undefined)).to.throw(ReferenceError);
+            expect(() => firstName.removeSubPropertyOf('Person/doesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should remove sub-property reference', () => {
+            const name = vocabulary.createProperty('Person/name');
+            const firstName = vocabulary.getProperty('Person/firstName').makeSubPropertyOf(name);
+            firstName.removeSubPropertyOf('Person/name');
+
+            expect(firstName.isSubPropertyOf(name)).to.be.false;
+            expect(name.subProperties.count()).to.equal(0);
+        });
+    });
+
+    describe('.toJson', () => {
+        it('should include the parent properties of the property', async () => {
+            vocabulary.createProperty('Person/name');
+            const json = await vocabulary.getProperty('Person/firstName').makeSubPropertyOf('Person/name').toJson();
+            expect(json.SubPropertyOf).to.deep.equal(['Person/name']);
+        });
+    });
+});
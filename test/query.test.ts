@@ -0,0 +1,145 @@
+// tslint:disable-next-line: no-import-side-effect
+import 'mocha';
+import { expect } from 'chai';
+import {
+    ContainerPropertyValues,
+    Document,
+    Errors,
+    Instance,
+    Vocabulary
+} from '../src';
+
+const testContext = require('./samples/context.json');
+const testClasses = require('./samples/vocabulary.json');
+const testInstances = require('./samples/instances.json');
+
+describe('Query', () => {
+    let vocabulary: Vocabulary;
+    let document: Document;
+
+    before(async () => {
+        vocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+        vocabulary.context.load('http://example.org/context', testContext);
+        await vocabulary.load(testClasses);
+        document = new Document(vocabulary);
+        await document.load(testInstances);
+    });
+
+    describe('.ofClass', () => {
+        it('should throw when class is not valid', () => {
+            expect(() => document.query().ofClass(undefined)).to.throw(ReferenceError);
+            expect(() => document.query().ofClass('DoesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should get instances of class and its descendants', () => {
+            const employees = document.query().ofClass('Employee').execute();
+            expect(employees.map(x => x.id).items()).to.have.members([
+                'urn:example.org:employees/jdoe',
+                'urn:example.org:employees/jilld',
+                'urn:example.org:employees/janed'
+            ]);
+        });
+    });
+
+    describe('.where', () => {
+        it('should throw when property is not valid', () => {
+            expect(() => document.query().where(undefined)).to.throw(ReferenceError);
+            expect(() => document.query().where('doesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should filter instances by value of a context term', () => {
+            const jill = document.query().ofClass('Employee').where('firstName', 'Jill').first();
+            expect(jill.id).to.equal('urn:example.org:employees/jilld');
+        });
+
+        it('should filter instances by property id', () => {
+            expect(document.query().where('Person/lastName', 'Doe').count()).to.equal(3);
+        });
+
+        it('should filter instances with a predicate on referenced instances', () => {
+            const finance = document
+                .query<Employee>()
+                .ofClass<Employee>('Employee')
+                .where('department', (department: Department) => department.deptName.getValue('en') === 'Finance')
+                .execute();
+
+            expect(finance.map(x => x.id).items()).to.deep.equal(['urn:example.org:employees/jilld']);
+        });
+
+        it('should filter instances referencing an instance', () => {
+            const janed = document.getInstance('urn:example.org:employees/janed');
+            expect(document.query().where('manager', janed).first().id).to.equal('urn:example.org:employees/jilld');
+        });
+
+        it('should filter instances with any value of the property when no condition is specified', () => {
+            expect(document.query().where('manager').count()).to.equal(1);
+        });
+    });
+
+    describe('.traverse', () => {
+        it('should throw when property is not valid', () => {
+            expect(() => document.query().traverse('Employee')).to.throw(Errors.ResourceTypeMismatchError);
+            expect(() => document.query().traverse('doesNotExist')).to.throw(Errors.ResourceNotFoundError);
+        });
+
+        it('should follow references to distinct instances', () => {
+            const locations = document.query().ofClass('Employee').traverse<Location>('location').execute();
+            expect(locations.map(x => x.address).items()).to.deep.equal(['Nashua, NH']);
+        });
+
+        it('should chain traversals and filters', () => {
+            const departments = document
+                .query()
+                .ofClass('Employee')
+                .where('firstName', (name: string) => name.startsWith('J'))
+                .traverse('manager')
+                .traverse<Department>('department')
+                .select(x => x.deptName.getValue('en'));
+
+            expect(departments.items()).to.deep.equal(['Human Resources']);
+        });
+
+        it('should follow references to instances defined in the vocabulary', async () => {
+            const headquartersVocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            headquartersVocabulary.context.load('http://example.org/context', testContext);
+            await headquartersVocabulary.load(testClasses);
+            const headquarters = headquartersVocabulary.createInstance<Location>('Headquarters', 'Location');
+            headquarters.address = 'Boston, MA';
+
+            const headquartersDocument = new Document(headquartersVocabulary);
+            await headquartersDocument.load(testInstances);
+            headquartersDocument.getInstance<Employee>('urn:example.org:employees/jdoe').location = headquarters;
+
+            const locations = headquartersDocument.query().ofClass('Employee').traverse<Location>('location').execute();
+            expect(locations.map(x => x.address).items()).to.have.members(['Boston, MA', 'Nashua, NH']);
+        });
+    });
+
+    describe('.select', () => {
+        it('should project instances', () => {
+            const names = document.query<Employee>().ofClass<Employee>('Employee').select(x => `${x.firstName} ${x.lastName}`);
+            expect(names.items()).to.have.members(['John Doe', 'Jill Doe', 'Jane Doe']);
+        });
+
+        it('should not modify queries it is built from', () => {
+            const employees = document.query().ofClass('Employee');
+            expect(employees.where('firstName', 'John').count()).to.equal(1);
+            expect(employees.filter(x => x.id.endsWith('d')).count()).to.equal(2);
+            expect(employees.count()).to.equal(3);
+        });
+    });
+});
+
+interface Location extends Instance {
+    address: string;
+}
+
+interface Department extends Instance {
+    deptName: ContainerPropertyValues<string>;
+}
+
+interface Employee extends Instance {
+    firstName: string;
+    lastName: string;
+    location: Location;
+}
@@ -0,0 +1,223 @@
+// tslint:disable-next-line: no-import-side-effect
+import 'mocha';
+import { expect } from 'chai';
+import {
+    Document,
+    ShapesGraph,
+    Vocabulary
+} from '../src';
+
+const testContext = require('./samples/context.json');
+const testVocab = require('./samples/vocabulary.json');
+const testInstances = require('./samples/instances.json');
+
+describe('ShapesGraph', () => {
+    let vocabulary: Vocabulary;
+    let document: Document;
+
+    before(async () => {
+        vocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+        vocabulary.context.load('http://example.org/context', testContext);
+        await vocabulary.load(testVocab);
+    });
+
+    beforeEach(async () => {
+        document = new Document(vocabulary);
+        await document.load(testInstances);
+    });
+
+    describe('.load', () => {
+        it('should throw when definition is not valid', async () => {
+            let error: Error;
+            try {
+                await new ShapesGraph().load(undefined);
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.instanceOf(ReferenceError);
+        });
+
+        it('should load shapes generated from vocabulary', async () => {
+            const shapesGraph = new ShapesGraph();
+            await shapesGraph.load(vocabulary.toShacl());
+            expect(shapesGraph.shapes.count()).to.equal(vocabulary.classes.count());
+        });
+    });
+
+    describe('.validate', () => {
+        it('should conform when document matches vocabulary shapes', async () => {
+            const shapesGraph = new ShapesGraph();
+            await shapesGraph.load(vocabulary.toShacl());
+
+            const report = shapesGraph.validate(document);
+            expect(report.conforms).to.be.true;
+            expect(report.results).to.be.empty;
+        });
+
+        it('should report datatype, class and cardinality results', async () => {
+            const employee = vocabulary.getClass('Employee');
+            employee.setCardinality('Employee/level', { minCount: 1 });
+            try {
+                const shapesGraph = new ShapesGraph();
+                await shapesGraph.load(vocabulary.toShacl());
+                document.getInstance('urn:example.org:employees/jdoe').getProperty('Employee/level').value = 'senior';
+                document.getInstance('urn:example.org:employees/jilld').getProperty('Employee/manager').value =
+                    document.getInstance('urn:example.org:departments/hr');
+
+                const results = shapesGraph.validate(document).results;
+                expect(results.some(x =>
+                    x.focusNode === 'urn:example.org:employees/jdoe' &&
+                    x.resultPath === 'Employee/level' &&
+                    x.sourceConstraintComponent === 'sh:DatatypeConstraintComponent' &&
+                    x.value['@value'] === 'senior')).to.be.true;
+                expect(results.some(x =>
+                    x.focusNode === 'urn:example.org:employees/jilld' &&
+                    x.resultPath === 'Employee/manager' &&
+                    x.sourceConstraintComponent === 'sh:ClassConstraintComponent' &&
+                    x.value['@id'] === 'urn:example.org:departments/hr')).to.be.true;
+                expect(results.some(x =>
+                    x.focusNode === 'urn:example.org:employees/jilld' &&
+                    x.resultPath === 'Employee/level' &&
+                    x.sourceConstraintComponent === 'sh:MinCountConstraintComponent')).to.be.true;
+            } finally {
+                employee.removeCardinality('Employee/level');
+            }
+        });
+
+        it('should validate pattern, in and node kind constraints', async () => {
+            const shapesGraph = new ShapesGraph();
+            await shapesGraph.load({
+                '@context': {
+                    sh: 'http://www.w3.org/ns/shacl#',
+                    vocab: 'http://example.org/classes/'
+                },
+                '@id': 'urn:example.org:shapes/PersonShape',
+                '@type': 'sh:NodeShape',
+                'sh:targetClass': { '@id': 'vocab:Person' },
+                'sh:nodeKind': { '@id': 'sh:IRI' },
+                'sh:property': [
+                    {
+                        'sh:path': { '@id': 'vocab:Person/firstName' },
+                        'sh:pattern': '^J[a-z]+$'
+                    },
+                    {
+                        'sh:path': { '@id': 'vocab:Person/lastName' },
+                        'sh:in': { '@list': ['Doe', 'Smith'] }
+                    },
+                    {
+                        'sh:path': { '@id': 'vocab:Person/location' },
+                        'sh:nodeKind': { '@id': 'sh:IRI' },
+                        'sh:severity': { '@id': 'sh:Warning' }
+                    }
+                ]
+            });
+
+            expect(shapesGraph.validate(document).conforms).to.be.true;
+
+            const jdoe = document.getInstance('urn:example.org:employees/jdoe');
+            jdoe.getProperty('Person/firstName').value = 'john';
+            jdoe.getProperty('Person/lastName').value = 'Jones';
+
+            const results = shapesGraph.validate(document).results;
+            expect(results.length).to.equal(2);
+            expect(results.map(x => x.sourceConstraintComponent)).to.have.members([
+                'sh:PatternConstraintComponent',
+                'sh:InConstraintComponent'
+            ]);
+            expect(results.every(x => x.resultSeverity === 'sh:Violation')).to.be.true;
+        });
+
+        it('should match patterns against the full IRI of value nodes', async () => {
+            const shapesGraph = new ShapesGraph();
+            await shapesGraph.load({
+                '@context': {
+                    sh: 'http://www.w3.org/ns/shacl#'
+                },
+                '@id': 'urn:example.org:shapes/PersonShape',
+                '@type': 'sh:NodeShape',
+                'sh:targetNode': { '@id': 'http://example.org/classes/employees/jane' },
+                'sh:pattern': '^http://example\\.org/classes/employees/'
+            });
+
+            document.createInstance('Person', 'http://example.org/classes/employees/jane');
+            const report = shapesGraph.validate(document);
+            expect(report.conforms).to.be.true;
+        });
+
+        it('should target subjects and objects of properties', async () => {
+            const shapesGraph = new ShapesGraph();
+            await shapesGraph.load({
+                '@context': {
+                    sh: 'http://www.w3.org/ns/shacl#',
+                    vocab: 'http://example.org/classes/'
+                },
+                '@graph': [
+                    {
+                        '@id': 'urn:example.org:shapes/ManagedShape',
+                        'sh:targetSubjectsOf': { '@id': 'vocab:Employee/manager' },
+                        'sh:property': {
+                            'sh:path': { '@id': 'vocab:Employee/level' },
+                            'sh:minCount': 1,
+                            'sh:message': 'Managed employees must have a level'
+                        }
+                    },
+                    {
+                        '@id': 'urn:example.org:shapes/ManagerShape',
+                        'sh:targetObjectsOf': { '@id': 'vocab:Employee/manager' },
+                        'sh:property': {
+                            'sh:path': { 'sh:inversePath': { '@id': 'vocab:Employee/manager' } },
+                            'sh:maxCount': 0
+                        }
+                    }
+                ]
+            });
+
+            const results = shapesGraph.validate(document).results;
+            expect(results.length).to.equal(2);
+
+            const managed = results.find(x => x.sourceConstraintComponent === 'sh:MinCountConstraintComponent');
+            expect(managed.focusNode).to.equal('urn:example.org:employees/jilld');
+            expect(managed.resultMessage).to.equal('Managed employees must have a level');
+
+            const manager = results.find(x => x.sourceConstraintComponent === 'sh:MaxCountConstraintComponent');
+            expect(manager.focusNode).to.equal('urn:example.org:employees/janed');
+            expect(manager.resultPath).to.equal('Employee/manager');
+        });
+
+        it('should skip deactivated shapes', async () => {
+            const shapesGraph = new ShapesGraph();
+            await shapesGraph.load({
+                '@context': {
+                    sh: 'http://www.w3.org/ns/shacl#',
+                    vocab: 'http://example.org/classes/'
+                },
+                '@id': 'urn:example.org:shapes/PersonShape',
+                'sh:targetClass': { '@id': 'vocab:Person' },
+                'sh:deactivated': true,
+                'sh:property': {
+                    'sh:path': { '@id': 'vocab:Person/firstName' },
+                    'sh:maxCount': 0
+                }
+            });
+
+            expect(shapesGraph.validate(document).conforms).to.be.true;
+        });
+
+        it('should generate a sh:ValidationReport', async () => {
+            const shapesGraph = new ShapesGraph();
+            await shapesGraph.load(vocabulary.toShacl());
+            document.getInstance('urn:example.org:employees/jdoe').getProperty('Employee/level').value = 'senior';
+
+            const json = shapesGraph.validate(document).toJson();
+            expect(json['@type']).to.equal('sh:ValidationReport');
+            expect(json['sh:conforms']).to.be.false;
+            expect(json['sh:result'].length).to.be.greaterThan(0);
+            for (const result of json['sh:result']) {
+                expect(result['@type']).to.equal('sh:ValidationResult');
+                expect(result['sh:focusNode']['@id']).to.equal('urn:example.org:employees/jdoe');
+                expect(result['sh:resultPath']['@id']).to.equal('vocab:Employee/level');
+            }
+        });
+    });
+});
@@ -1,16 +1,32 @@
 // tslint:disable-next-line: no-import-side-effect
 import 'mocha';
 import { expect } from 'chai';
+import * as fs from 'fs';
 import {
+    ChangeType,
     Class,
+    DataType,
     Errors,
     Instance,
     Property,
+    PropertyKind,
     Vocabulary,
 } from '../src';
 
 const testContext = require('./samples/context.json');
 const testVocabulary = require('./samples/vocabulary.json');
+const testOntology = fs.readFileSync('./test/samples/ontology.rdf', 'utf8');
+
+const owlDefinition = {
+    '@context': 'http://example.org/class/context',
+    '@graph': [
+        { '@id': 'Agent', '@type': 'owl:Class' },
+        { '@id': 'Person', '@type': 'owl:Class', equivalentClass: 'Agent' },
+        { '@id': 'Person/name', '@type': 'DatatypeProperty', domain: 'Person', range: 'xsd:string' },
+        { '@id': 'Person/employer', '@type': 'owl:ObjectProperty', domain: 'Person', range: 'Agent', inverseOf: 'Agent/employees' },
+        { '@id': 'Agent/employees', '@type': 'ObjectProperty', domain: 'Agent', range: 'Person' }
+    ]
+};
 
 const invalidIds = [
     '_startsWith',
@@ -427,6 +443,33 @@ describe('Vocabulary', () => {
         });
     });
 
+    describe('.on', () => {
+        beforeEach(async () => {
+            vocabulary = await loadVocabulary();
+        });
+
+        it('should raise resourceCreated and resourceRemoved events', () => {
+            const events: string[] = [];
+            vocabulary.on('resourceCreated', resource => events.push(`created:${resource.id}`));
+            vocabulary.on('resourceRemoved', resource => events.push(`removed:${resource.id}`));
+            vocabulary.createClass('Test');
+            vocabulary.createProperty('Test/name');
+            vocabulary.removeProperty('Test/name');
+            vocabulary.removeClass('Test');
+            expect(events).to.deep.equal(['created:Test', 'created:Test/name', 'removed:Test/name', 'removed:Test']);
+        });
+
+        it('should raise instanceCreated and instanceRemoved events', () => {
+            const events: string[] = [];
+            vocabulary.on('instanceCreated', instance => events.push(`created:${instance.id}`));
+            vocabulary.on('instanceRemoved', instance => events.push(`removed:${instance.id}`));
+            vocabulary.createInstance('Department/deptTest', 'Department');
+            vocabulary.removeInstance('Department/deptTest');
+            vocabulary.removeClass('Manager');
+            expect(events).to.deep.equal(['created:Department/deptTest', 'removed:Department/deptTest', 'removed:Manager/managerA']);
+        });
+    });
+
     describe('.removeClass', () => {
         before(async () => {
             vocabulary = await loadVocabulary();
@@ -516,10 +559,518 @@ describe('Vocabulary', () => {
         });
     });
 
-    async function loadVocabulary(): Promise<Vocabulary> {
+    describe('.toJson', () => {
+        before(async () => {
+            vocabulary = await loadVocabulary();
+        });
+
+        it('should round trip cardinality constraints', async () => {
+            vocabulary.getClass('Employee').setCardinality('Employee/level', { minCount: 1, maxCount: 1 });
+            vocabulary.getClass('Employee').setCardinality('Person/firstName', { minCount: 1 });
+
+            const json = await vocabulary.toJson();
+            const loaded = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            await loaded.load(json);
+
+            expect(loaded.getClass('Employee').getCardinality('Employee/level')).to.deep.equal({ minCount: 1, maxCount: 1 });
+            expect(loaded.getClass('Employee').getCardinality('Person/firstName')).to.deep.equal({ minCount: 1 });
+            expect(loaded.classes.count()).to.equal(vocabulary.classes.count());
+            expect(loaded.properties.count()).to.equal(vocabulary.properties.count());
+        });
+    });
+
+    describe('.diff', () => {
+        let source: Vocabulary;
+        let target: Vocabulary;
+
+        before(async () => {
+            source = await loadVocabulary();
+            const definition = JSON.parse(JSON.stringify(testVocabulary));
+            definition['@graph'] = definition['@graph'].filter((x: any) => x['@id'] !== 'Project/name');
+            definition['@graph'].find((x: any) => x['@id'] === 'Contractor')['@id'] = 'Consultant';
+            definition['@graph'].find((x: any) => x['@id'] === 'Contractor/company').domain = 'Consultant';
+            definition['@graph'].find((x: any) => x['@id'] === 'Person/firstName')['@id'] = 'Person/givenName';
+
+            const context = JSON.parse(JSON.stringify(testContext));
+            context['@context'].firstName = 'Person/givenName';
+
+            target = await loadVocabulary(definition, context);
+            target.createClass('Region');
+            target.getClass('Manager').removeSubClassOf('Employee');
+            target.getProperty('Employee/level').setRange(DataType.string);
+            target.getClass('Project').label = 'Programme';
+            target.context.load('http://example.org/context/v2', {
+                '@context': {
+                    level: {
+                        '@id': 'Employee/level',
+                        '@container': '@set'
+                    }
+                }
+            });
+        });
+
+        it('should throw when other vocabulary is not valid', () => {
+            expect(() => source.diff(undefined)).to.throw(ReferenceError);
+            expect(() => source.diff(null)).to.throw(ReferenceError);
+        });
+
+        it('should report identical vocabularies', async () => {
+            const diff = source.diff(await loadVocabulary());
+            expect(diff.identical).to.be.true;
+            expect(diff.breaking).to.be.false;
+            expect(diff.changes).to.be.empty;
+        });
+
+        it('should report added, removed and renamed resources', () => {
+            const changes = source.diff(target).changes;
+            expect(changes).to.deep.include({
+                type: ChangeType.ClassRenamed,
+                id: 'Contractor',
+                value: 'Consultant',
+                breaking: true,
+                message: 'Class Contractor was renamed to Consultant'
+            });
+            expect(changes.find(x => x.type === ChangeType.PropertyRenamed)).to.include({
+                id: 'Person/firstName',
+                value: 'Person/givenName',
+                breaking: false
+            });
+            expect(changes.find(x => x.type === ChangeType.PropertyRemoved)).to.include({ id: 'Project/name', breaking: true });
+            expect(changes.find(x => x.type === ChangeType.ClassAdded)).to.include({ id: 'Region', breaking: false });
+        });
+
+        it('should not report changes of renamed references', () => {
+            const changes = source.diff(target).changes;
+            expect(changes.some(x => x.id === 'Consultant' || x.type === ChangeType.DomainRemoved)).to.be.false;
+        });
+
+        it('should report hierarchy, range and description changes', () => {
+            const changes = source.diff(target).changes;
+            expect(changes.find(x => x.type === ChangeType.SubClassOfRemoved)).to.include({
+                id: 'Manager',
+                previousValue: 'Employee',
+                breaking: true
+            });
+            expect(changes.find(x => x.type === ChangeType.RangeAdded)).to.include({
+                id: 'Employee/level',
+                value: 'xsd:string',
+                breaking: false
+            });
+            expect(changes.find(x => x.type === ChangeType.LabelChanged)).to.include({
+                id: 'Project',
+                previousValue: 'Project',
+                value: 'Programme',
+                breaking: false
+            });
+        });
+
+        it('should report context term changes', () => {
+            const diff = source.diff(target);
+            expect(diff.changes.find(x => x.type === ChangeType.TermChanged)).to.include({ id: 'level', breaking: true });
+            expect(diff.breaking).to.be.true;
+            expect(diff.breakingChanges.every(x => x.breaking)).to.be.true;
+        });
+
+        it('should classify narrowing range as breaking', async () => {
+            const narrowed = await loadVocabulary();
+            narrowed.getProperty('Employee/manager').removeRange('Employee');
+            narrowed.getProperty('Employee/manager').setRange('Manager');
+
+            const changes = source.diff(narrowed).changes;
+            expect(changes.find(x => x.type === ChangeType.RangeRemoved)).to.include({ previousValue: 'Employee', breaking: true });
+            expect(changes.find(x => x.type === ChangeType.RangeAdded)).to.include({ value: 'Manager', breaking: false });
+        });
+    });
+
+    describe('.toJsonSchema', () => {
+        before(async () => {
+            vocabulary = await loadVocabulary();
+        });
+
+        it('should generate a definition for each class', () => {
+            const schema = vocabulary.toJsonSchema();
+            expect(schema.$schema).to.equal('https://json-schema.org/draft/2020-12/schema');
+            expect(schema.$id).to.equal('http://example.org/classes/');
+            expect(Object.keys(schema.$defs)).to.have.members(vocabulary.classes.map(x => x.id).items());
+        });
+
+        it('should reference parent classes and class ranges', () => {
+            const manager = vocabulary.toJsonSchema().$defs.Manager;
+            expect(manager.allOf).to.deep.equal([{ $ref: '#/$defs/Employee' }]);
+            expect(manager.properties.project.type).to.equal('array');
+            expect(manager.properties.project.items.anyOf).to.deep.include({ $ref: '#/$defs/Project' });
+        });
+    });
+
+    describe('.toTypings', () => {
+        before(async () => {
+            vocabulary = await loadVocabulary();
+        });
+
+        it('should generate an interface for each class', () => {
+            const typings = vocabulary.toTypings();
+            expect(typings).to.contain(`import { ContainerPropertyValues, Instance } from 'jsonld-vocab';`);
+            for (const classType of vocabulary.classes) {
+                expect(typings).to.match(new RegExp(`export interface ${classType.id}\\b`));
+            }
+        });
+
+        it('should generate extends clauses from parent classes', () => {
+            const typings = vocabulary.toTypings();
+            expect(typings).to.contain('export interface Employee extends Person {');
+            expect(typings).to.contain('export interface Manager extends Employee {');
+        });
+
+        it('should generate property types from ranges and containers', () => {
+            const typings = vocabulary.toTypings();
+            expect(typings).to.contain('    level?: number;');
+            expect(typings).to.contain('    manager?: Instance & Employee;');
+            expect(typings).to.contain('    readonly phoneNo: ContainerPropertyValues<string>;');
+            expect(typings).to.contain('    readonly deptName: ContainerPropertyValues<{ value: string; language?: string }>;');
+            expect(typings).to.contain('    readonly project: ContainerPropertyValues<Instance & Project>;');
+        });
+
+        it('should import from custom module', () => {
+            expect(vocabulary.toTypings({ moduleName: '../src' })).to.contain(`from '../src';`);
+        });
+    });
+
+    describe('.toShacl', () => {
+        before(async () => {
+            vocabulary = await loadVocabulary();
+            vocabulary.getClass('Employee').setCardinality('Employee/level', { minCount: 1, maxCount: 1 });
+        });
+
+        it('should generate a node shape for each class', () => {
+            const shapes = vocabulary.toShacl();
+            expect(shapes['@context'].sh).to.equal('http://www.w3.org/ns/shacl#');
+            expect(shapes['@graph'].length).to.equal(vocabulary.classes.count());
+            expect(shapes['@graph'].every((x: any) => x['@type'] === 'sh:NodeShape')).to.be.true;
+        });
+
+        it('should generate property shapes for own and inherited properties', () => {
+            const shape = vocabulary.toShacl()['@graph'].find((x: any) => x['sh:targetClass']['@id'] === 'vocab:Employee');
+            expect(shape).to.be.ok;
+
+            const paths = shape['sh:property'].map((x: any) => x['sh:path']['@id']);
+            expect(paths).to.have.members([
+                'vocab:Employee/level',
+                'vocab:Employee/manager',
+                'vocab:Employee/department',
+                'vocab:Person/firstName',
+                'vocab:Person/lastName',
+                'vocab:Person/location'
+            ]);
+        });
+
+        it('should generate range and cardinality constraints', () => {
+            const shape = vocabulary.toShacl()['@graph'].find((x: any) => x['sh:targetClass']['@id'] === 'vocab:Employee');
+            const level = shape['sh:property'].find((x: any) => x['sh:path']['@id'] === 'vocab:Employee/level');
+            const manager = shape['sh:property'].find((x: any) => x['sh:path']['@id'] === 'vocab:Employee/manager');
+
+            expect(level['sh:datatype']['@id']).to.equal('xsd:integer');
+            expect(level['sh:minCount']).to.equal(1);
+            expect(level['sh:maxCount']).to.equal(1);
+            expect(manager['sh:class']['@id']).to.equal('vocab:Employee');
+            expect(manager['sh:minCount']).to.be.undefined;
+        });
+    });
+
+    describe('.toNTriples', () => {
+        before(async () => {
+            vocabulary = await loadVocabulary();
+        });
+
+        it('should write one statement per line with full IRIs', () => {
+            const lines = vocabulary.toNTriples().trim().split('\n');
+            expect(lines).to.include(
+                '<http://example.org/classes/Employee> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.w3.org/2000/01/rdf-schema#Class> .'
+            );
+            expect(lines).to.include('<http://example.org/classes/Employee/level> <http://www.w3.org/2000/01/rdf-schema#label> "Level" .');
+            expect(lines.every(x => x.endsWith(' .'))).to.be.true;
+        });
+
+        it('should round trip through loadNTriples', async () => {
+            const loaded = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            loaded.context.load('http://example.org/context', testContext);
+            await loaded.loadNTriples(vocabulary.toNTriples());
+            expect(vocabulary.diff(loaded).identical).to.be.true;
+        });
+    });
+
+    describe('.toNQuads', () => {
+        before(async () => {
+            vocabulary = await loadVocabulary();
+        });
+
+        it('should throw when graph name is not valid', () => {
+            expect(() => vocabulary.toNQuads(undefined)).to.throw(ReferenceError);
+        });
+
+        it('should write statements to the named graph', () => {
+            const lines = vocabulary.toNQuads('http://example.org/graphs/vocab').trim().split('\n');
+            expect(lines.length).to.equal(vocabulary.toNTriples().trim().split('\n').length);
+            expect(lines.every(x => x.endsWith(' <http://example.org/graphs/vocab> .'))).to.be.true;
+        });
+
+        it('should load statements of a named graph', async () => {
+            const quads = [
+                vocabulary.toNQuads('http://example.org/graphs/vocab'),
+                '<http://example.org/classes/Region> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.w3.org/2000/01/rdf-schema#Class> .'
+            ].join('');
+
+            const loaded = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            await loaded.loadNQuads(quads, 'http://example.org/graphs/vocab');
+            expect(loaded.classes.count()).to.equal(vocabulary.classes.count());
+            expect(loaded.getClass('Region')).to.not.be.ok;
+        });
+    });
+
+    describe('.load', () => {
+        beforeEach(async () => {
+            vocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            await vocabulary.load(owlDefinition);
+        });
+
+        it('should load OWL classes and properties as classes and properties', () => {
+            expect(vocabulary.classes.map(x => x.id).items()).to.have.members(['Agent', 'Person']);
+            expect(vocabulary.properties.map(x => x.id).items()).to.have.members([
+                'Person/name',
+                'Person/employer',
+                'Agent/employees'
+            ]);
+
+            expect(vocabulary.instances.count()).to.equal(0);
+            expect(vocabulary.getClass('Person').getProperty('Person/employer')).to.be.ok;
+        });
+
+        it('should load property kinds', () => {
+            expect(vocabulary.getProperty('Person/name').kind).to.equal(PropertyKind.Datatype);
+            expect(vocabulary.getProperty('Person/employer').kind).to.equal(PropertyKind.Object);
+            expect(vocabulary.getProperty('Agent/employees').kind).to.equal(PropertyKind.Object);
+        });
+
+        it('should load equivalent classes and inverse properties', () => {
+            expect(vocabulary.getClass('Agent').equivalentClasses.map(x => x.id).items()).to.deep.equal(['Person']);
+            expect(vocabulary.getClass('Person').equivalentClasses.map(x => x.id).items()).to.deep.equal(['Agent']);
+            expect(vocabulary.getProperty('Person/employer').inverseOf.id).to.equal('Agent/employees');
+            expect(vocabulary.getProperty('Agent/employees').inverseOf.id).to.equal('Person/employer');
+        });
+
+        it('should serialize OWL types, equivalent classes and inverse properties', async () => {
+            const json = await vocabulary.toJson();
+            const person = json['@graph'].find((x: any) => x['@id'] === 'Person');
+            const employer = json['@graph'].find((x: any) => x['@id'] === 'Person/employer');
+            expect(person['@type']).to.include('owl:Class');
+            expect(person.EquivalentClass).to.deep.equal(['Agent']);
+            expect(employer['@type']).to.include('ObjectProperty');
+            expect(employer.InverseOf).to.equal('Agent/employees');
+
+            const loaded = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            await loaded.load(json);
+            expect(loaded.getProperty('Person/employer').inverseOf.id).to.equal('Agent/employees');
+            expect(loaded.getProperty('Person/name').kind).to.equal(PropertyKind.Datatype);
+            expect(vocabulary.diff(loaded).changes).to.be.empty;
+        });
+
+        it('should load OWL ontologies serialized as Turtle', async () => {
+            const loaded = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            await loaded.loadTurtle(vocabulary.toTurtle());
+            expect(loaded.getClass('Agent').equivalentClasses.map(x => x.id).items()).to.deep.equal(['Person']);
+            expect(loaded.getProperty('Agent/employees').inverseOf.id).to.equal('Person/employer');
+        });
+    });
+
+    describe('.loadNQuads', () => {
+        it('should throw when input is not valid', async () => {
+            const loaded = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            await expectRejected(() => loaded.loadNQuads(undefined), ReferenceError);
+            await expectRejected(() => loaded.loadNQuads('<http://example.org/classes/Region> a <Class> .'), Errors.RdfSyntaxError);
+            await expectRejected(
+                () => loaded.loadNTriples('<urn:a> <urn:b> <urn:c> <urn:graph> .'),
+                Errors.RdfSyntaxError
+            );
+        });
+    });
+
+    describe('.loadRdfXml', () => {
+        beforeEach(() => {
+            vocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+        });
+
+        it('should throw when xml is not valid', async () => {
+            await expectRejected(() => vocabulary.loadRdfXml(undefined), ReferenceError);
+            await expectRejected(() => vocabulary.loadRdfXml('<rdf:RDF></rdf:RDF>'), Errors.RdfSyntaxError);
+            await expectRejected(
+                () => vocabulary.loadRdfXml('<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n<rdf:Description>\n</rdf:RDF>'),
+                Errors.RdfSyntaxError
+            );
+        });
+
+        it('should load RDFS and OWL classes', async () => {
+            await vocabulary.loadRdfXml(testOntology);
+            expect(vocabulary.classes.map(x => x.id).items()).to.have.members(['Organization', 'Company', 'Member']);
+            expect(vocabulary.getClass('Organization').label).to.equal('Organization');
+            expect(vocabulary.getClass('Organization').comment).to.equal('An organization & its members');
+            expect(vocabulary.getClass('Member').label).to.equal('Member <of an organization>');
+            expect(vocabulary.getClass('Company').parentClasses.map(x => x.id).items()).to.deep.equal(['Organization']);
+        });
+
+        it('should load RDF and OWL properties', async () => {
+            await vocabulary.loadRdfXml(testOntology);
+            expect(vocabulary.properties.map(x => x.id).items()).to.have.members([
+                'Organization/member',
+                'Organization/name',
+                'Company/founded'
+            ]);
+
+            const member = vocabulary.getProperty('Organization/member');
+            expect(member.label).to.equal('Member');
+            expect(member.range.first().id).to.equal('Member');
+            expect(vocabulary.getProperty('Company/founded').range.first()).to.equal(DataType.date);
+            expect(vocabulary.getClass('Company').getProperty('Organization/name')).to.be.ok;
+            expect(member.kind).to.equal(PropertyKind.Object);
+            expect(vocabulary.getProperty('Organization/name').kind).to.equal(PropertyKind.Datatype);
+        });
+
+        it('should not load individuals or anonymous classes', async () => {
+            await vocabulary.loadRdfXml(testOntology);
+            expect(vocabulary.instances.count()).to.equal(0);
+            expect(vocabulary.hasResource('acme')).to.be.false;
+        });
+
+        it('should load the same vocabulary as the equivalent JSON-LD definition', async () => {
+            await vocabulary.loadRdfXml(testOntology);
+            const expected = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            await expected.load({
+                '@context': 'http://example.org/class/context',
+                '@graph': [
+                    { '@id': 'Organization', '@type': 'Class', label: 'Organization', comment: 'An organization & its members' },
+                    { '@id': 'Company', '@type': 'Class', label: 'Company', subClassOf: 'Organization' },
+                    { '@id': 'Member', '@type': 'Class', label: 'Member <of an organization>' },
+                    { '@id': 'Organization/member', '@type': 'Property', label: 'Member', domain: 'Organization', range: 'Member' },
+                    { '@id': 'Organization/name', '@type': 'Property', label: 'Name', domain: 'Organization', range: 'xsd:string' },
+                    { '@id': 'Company/founded', '@type': 'Property', domain: 'Company', range: 'xsd:date' }
+                ]
+            });
+
+            expect(expected.diff(vocabulary).changes).to.be.empty;
+        });
+    });
+
+    describe('.sparql', () => {
+        before(async () => {
+            vocabulary = await loadVocabulary();
+        });
+
+        it('should throw when query is not valid', () => {
+            expect(() => vocabulary.sparql(undefined)).to.throw(ReferenceError);
+            expect(() => vocabulary.sparql('DESCRIBE vocab:Employee')).to.throw(Errors.RdfSyntaxError);
+        });
+
+        it('should query classes and properties using default prefixes', () => {
+            const results = vocabulary.sparql(`
+                SELECT ?class ?label WHERE {
+                    ?class rdfs:subClassOf vocab:Person .
+                    OPTIONAL { ?class rdfs:label ?label }
+                }
+                ORDER BY ?class`);
+
+            expect(results.results.bindings.map(x => x.class.value)).to.deep.equal([
+                'http://example.org/classes/Contractor',
+                'http://example.org/classes/Employee'
+            ]);
+        });
+
+        it('should answer ask queries', () => {
+            expect(vocabulary.sparql('ASK { vocab:Employee\\/level rdfs:range xsd:integer }').boolean).to.be.true;
+            expect(vocabulary.sparql('ASK { vocab:Employee a owl:Class }').boolean).to.be.false;
+        });
+    });
+
+    describe('.toTurtle', () => {
+        before(async () => {
+            vocabulary = await loadVocabulary();
+        });
+
+        it('should declare registered prefixes', () => {
+            const turtle = vocabulary.toTurtle();
+            expect(turtle).to.include('@prefix vocab: <http://example.org/classes/> .');
+            expect(turtle).to.include('@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .');
+            expect(turtle).to.include('@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .');
+        });
+
+        it('should write classes and properties using prefixed names', () => {
+            const turtle = vocabulary.toTurtle();
+            expect(turtle).to.include('vocab:Employee a rdfs:Class ;');
+            expect(turtle).to.include('rdfs:subClassOf vocab:Person ;');
+            expect(turtle).to.include('vocab:Employee\\/level a rdf:Property ;');
+            expect(turtle).to.include('rdfs:range xsd:integer ;');
+            expect(turtle).to.include('rdfs:label "Level" .');
+        });
+
+        it('should round trip through loadTurtle', async () => {
+            vocabulary.getClass('Employee').setCardinality('Employee/level', { minCount: 1, maxCount: 1 });
+            const loaded = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            loaded.context.load('http://example.org/context', testContext);
+            await loaded.loadTurtle(vocabulary.toTurtle());
+
+            expect(vocabulary.diff(loaded).identical).to.be.true;
+            expect(loaded.instances.count()).to.equal(vocabulary.instances.count());
+            expect(loaded.getClass('Employee').getCardinality('Employee/level')).to.deep.equal({ minCount: 1, maxCount: 1 });
+        });
+    });
+
+    describe('.loadTurtle', () => {
+        it('should throw when text is not valid', async () => {
+            const loaded = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
+            await expectRejected(() => loaded.loadTurtle(undefined), ReferenceError);
+            await expectRejected(() => loaded.loadTurtle('ex:Thing a rdfs:Class .'), Errors.RdfSyntaxError);
+            await expectRejected(() => loaded.loadTurtle('@prefix ex: <http://example.org/> .\nex:Thing a '), Errors.RdfSyntaxError);
+        });
+
+        it('should load classes and properties', async () => {
+            const loaded = await loadVocabulary();
+            await loaded.loadTurtle(`
+                @base <http://example.org/classes/> .
+                @prefix rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#> .
+                PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
+                PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+
+                # Classes
+                <Region> a rdfs:Class ;
+                    rdfs:label 'Region' ;
+                    rdfs:comment """A region
+with "offices".""" .
+                <Office> a rdfs:Class ; rdfs:subClassOf <Region>, <Location> .
+
+                <Office/floors> a rdf:Property ;
+                    rdfs:domain <Office> ;
+                    rdfs:range xsd:integer .`);
+
+            expect(loaded.getClass('Region').label).to.equal('Region');
+            expect(loaded.getClass('Region').comment).to.equal('A region\nwith "offices".');
+            expect(loaded.getClass('Office').parentClasses.map(x => x.id).items()).to.have.members(['Region', 'Location']);
+            expect(loaded.getProperty('Office/floors').range.first().id).to.equal('xsd:integer');
+            expect(loaded.getClass('Office').hasProperty('Office/floors')).to.be.true;
+        });
+    });
+
+    async function loadVocabulary(definition: any = testVocabulary, context: any = testContext): Promise<Vocabulary> {
         const vocabulary = new Vocabulary('http://example.org/classes/', 'http://example.org/class/context');
-        vocabulary.context.load('http://example.org/context', testContext);
-        await vocabulary.load(testVocabulary);
+        vocabulary.context.load('http://example.org/context', context);
+        await vocabulary.load(definition);
         return vocabulary;
     }
+
+    async function expectRejected(action: () => Promise<any>, errorType: any): Promise<void> {
+        let error: Error;
+        try {
+            await action();
+        } catch (err) {
+            error = err;
+        }
+
+        expect(error).to.be.instanceOf(errorType);
+    }
 });
\ No newline at end of file